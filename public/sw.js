@@ -1,7 +1,11 @@
 // Simple app-shell cache for production builds.
 // Note: we intentionally keep this minimal to avoid breaking camera access.
 
-const CACHE_NAME = 'mr-runner-v1';
+const CACHE_NAME = 'mr-runner-v2';
+
+// ONNX runtime binaries for depth (copied by scripts/copy_ort_wasm.mjs). Relative to this script,
+// like the app resolves them through its base URL.
+const ORT_ASSETS = ['vendor/ort/ort-wasm-simd.wasm', 'vendor/ort/ort-wasm.wasm'];
 
 self.addEventListener('install', (event) => {
   event.waitUntil(
@@ -13,6 +17,7 @@ self.addEventListener('install', (event) => {
           '/manifest.webmanifest',
           '/icon.svg',
           '/maskable-icon.svg',
+          ...ORT_ASSETS,
         ]),
       )
       .then(() => self.skipWaiting()),
@@ -45,9 +50,9 @@ self.addEventListener('fetch', (event) => {
     return;
   }
 
-  // Static: cache-first
+  // Static: cache-first. HEAD probes (depth runtime preflight) are answered from cached GETs too.
   event.respondWith(
-    caches.match(req).then((cached) => cached || fetch(req)),
+    caches.match(req, { ignoreMethod: req.method === 'HEAD' }).then((cached) => cached || fetch(req)),
   );
 });
 
@@ -0,0 +1,27 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+// Copies the ONNX runtime wasm binaries that transformers.js loads into public/vendor/ort/, so depth
+// works offline and the service worker can precache them. Runs before `dev` and `build`.
+// Only the single-threaded builds: the app runs ORT with numThreads = 1 (see src/depth/depth.ts).
+const FILES = ['ort-wasm.wasm', 'ort-wasm-simd.wasm'];
+
+async function main() {
+  const from = path.resolve(process.cwd(), 'node_modules', 'onnxruntime-web', 'dist');
+  const to = path.resolve(process.cwd(), 'public', 'vendor', 'ort');
+  await fs.mkdir(to, { recursive: true });
+
+  for (const file of FILES) {
+    const src = path.join(from, file);
+    const dst = path.join(to, file);
+    const [a, b] = await Promise.all([fs.stat(src), fs.stat(dst).catch(() => null)]);
+    if (b && b.size === a.size && b.mtimeMs >= a.mtimeMs) continue;
+    await fs.copyFile(src, dst);
+    console.log(`- ${file} -> ${path.relative(process.cwd(), dst)}`);
+  }
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exitCode = 1;
+});
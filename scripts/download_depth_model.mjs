@@ -1,52 +1,114 @@
+import { createHash } from 'node:crypto';
 import fs from 'node:fs/promises';
 import path from 'node:path';
 
-const MODEL_ID = 'Xenova/depth-anything-small-hf';
-const REVISION = 'main';
-
-// Keep this minimal for MVP: config + preprocessor + quantized onnx.
-const FILES = [
-  'config.json',
-  // Some pipelines may request this optional file. If missing, some dev servers return index.html (HTML),
-  // which then breaks JSON.parse on mobile. We generate an empty one below if it's not present.
-  'preprocessor_config.json',
-  'onnx/model_quantized.onnx',
-  // Optional but small:
-  'quantize_config.json',
-  // Optional (not present in this repo on HF), but safe as empty object:
-  'generation_config.json',
-];
+// The same manifest the app preflights against (src/depth/models.ts).
+const MANIFEST_PATH = path.resolve(process.cwd(), 'src', 'depth', 'models.json');
+
+// Usage:
+//   npm run download:depth-model                  -> the default model
+//   npm run download:depth-model -- <id> [<id>]   -> specific registered models
+//   npm run download:depth-model -- --all         -> every registered model
+//   add --force to re-download files that are already present and valid
+//   add --pin to write the size and sha256 of unpinned files into the manifest
 
 async function ensureDir(p) {
   await fs.mkdir(p, { recursive: true });
 }
 
-async function downloadTo(url, outFile) {
+async function readIfExists(file) {
+  try {
+    return await fs.readFile(file);
+  } catch {
+    return null;
+  }
+}
+
+function sha256(buf) {
+  return createHash('sha256').update(buf).digest('hex');
+}
+
+/** Null when `buf` matches what the manifest expects (unknown fields are not checked). */
+function mismatch(file, buf) {
+  if (file.bytes != null && buf.length !== file.bytes) return `size ${buf.length}, expected ${file.bytes}`;
+  if (file.sha256 && sha256(buf) !== file.sha256) return `sha256 ${sha256(buf)}, expected ${file.sha256}`;
+  return null;
+}
+
+async function download(url) {
   const res = await fetch(url);
   if (!res.ok) {
     throw new Error(`Download failed ${res.status} ${res.statusText}: ${url}`);
   }
-  const buf = Buffer.from(await res.arrayBuffer());
-  await ensureDir(path.dirname(outFile));
-  await fs.writeFile(outFile, buf);
+  return Buffer.from(await res.arrayBuffer());
 }
 
-async function main() {
-  const root = path.resolve(process.cwd(), 'public', 'models', MODEL_ID);
-  console.log(`Downloading model files to: ${root}`);
-
-  for (const file of FILES) {
-    const out = path.join(root, ...file.split('/'));
-    console.log(`- ${file}`);
-    if (file === 'generation_config.json') {
-      // Not provided by this model; write empty object.
-      await ensureDir(path.dirname(out));
-      await fs.writeFile(out, '{}\n');
+async function fetchModel(model, force, pins) {
+  const root = path.resolve(process.cwd(), 'public', 'models', model.id);
+  console.log(`${model.id} -> ${root}`);
+
+  for (const file of model.files) {
+    const out = path.join(root, ...file.path.split('/'));
+    const existing = force ? null : await readIfExists(out);
+    if (existing && !mismatch(file, existing)) {
+      console.log(`- ${file.path} (present)`);
+      if (file.content == null && (file.bytes == null || !file.sha256)) pins.push({ model, file, buf: existing });
       continue;
     }
-    const url = `https://huggingface.co/${MODEL_ID}/resolve/${REVISION}/${file}`;
-    await downloadTo(url, out);
+    let buf;
+    if (file.content != null) {
+      // Not provided by the hub; written locally so the loader does not get index.html for it.
+      buf = Buffer.from(file.content);
+    } else {
+      console.log(`- ${file.path}`);
+      buf = await download(`https://huggingface.co/${model.id}/resolve/${model.revision}/${file.path}`);
+    }
+    const bad = mismatch(file, buf);
+    if (bad) throw new Error(`${model.id}/${file.path}: ${bad}`);
+    await ensureDir(path.dirname(out));
+    await fs.writeFile(out, buf);
+    if (file.content == null && (file.bytes == null || !file.sha256)) {
+      // Pin these in the manifest (--pin) to catch a changed or truncated upstream file next time.
+      console.log(`  bytes ${buf.length} sha256 ${sha256(buf)}`);
+      pins.push({ model, file, buf });
+    }
   }
+}
+
+/** Writes the pins into the manifest text in place, keeping its one-line-per-file layout. */
+async function writePins(pins) {
+  let text = await fs.readFile(MANIFEST_PATH, 'utf8');
+  for (const { model, file, buf } of pins) {
+    const modelAt = text.indexOf(`"id": ${JSON.stringify(model.id)}`);
+    const entry = `{ "path": ${JSON.stringify(file.path)} }`;
+    const at = modelAt < 0 ? -1 : text.indexOf(entry, modelAt);
+    if (at < 0) {
+      console.warn(`Cannot pin ${model.id}/${file.path}: entry not found in the manifest`);
+      continue;
+    }
+    const pinned = `{ "path": ${JSON.stringify(file.path)}, "bytes": ${buf.length}, "sha256": "${sha256(buf)}" }`;
+    text = text.slice(0, at) + pinned + text.slice(at + entry.length);
+    console.log(`Pinned ${model.id}/${file.path}`);
+  }
+  await fs.writeFile(MANIFEST_PATH, text);
+}
+
+async function main() {
+  const manifest = JSON.parse(await fs.readFile(MANIFEST_PATH, 'utf8'));
+  const args = process.argv.slice(2);
+  const force = args.includes('--force');
+  const ids = args.filter((a) => !a.startsWith('--'));
+  const pins = [];
+  const wanted = args.includes('--all') ? manifest.models.map((m) => m.id) : ids.length > 0 ? ids : [manifest.default];
+
+  for (const id of wanted) {
+    const model = manifest.models.find((m) => m.id === id);
+    if (!model) {
+      throw new Error(`Unknown depth model "${id}". Registered: ${manifest.models.map((m) => m.id).join(', ')}`);
+    }
+    await fetchModel(model, force, pins);
+  }
+  if (args.includes('--pin') && pins.length > 0) await writePins(pins);
 
   console.log('Done.');
   console.log('You can now load the model from /models/... in the browser (no CORS).');
@@ -56,5 +118,3 @@ main().catch((e) => {
   console.error(e);
   process.exitCode = 1;
 });
-
-
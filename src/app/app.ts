@@ -1,20 +1,77 @@
 import '../style.css'
 import { registerServiceWorker } from '../pwa'
-import { startRearCamera, stopCamera } from '../camera'
 import { createScene } from '../scene/scene'
 import * as THREE from 'three'
 import { createTrackingController } from '../mr/tracking/tracker'
-import { PlaneMapper } from '../mr/mapping/plane-mapper'
+import type { TrackingPhase } from '../mr/tracking/recovery'
+import type { TrackingBackendKind, TrackingBackendPreference } from '../mr/tracking/backends/backend'
+import { PlaneMapper, type PlaneKind, type WorldSurface } from '../mr/mapping/plane-mapper'
+import { createTsdfMesh, createTsdfVolume } from '../mr/mapping/tsdf'
+import { createDepthOcclusion } from '../occlusion/depth-occlusion'
 import { PhysicsWorld } from '../physics/world'
 import { createRunner } from '../game/runner/runner'
 import { createAngryMode } from '../game/angry/angry'
 import { createTreasureMode } from '../game/treasure/treasure'
+import { createSnapshotMode, type SnapshotObjectKind } from '../game/snapshot/snapshot'
 import { renderApp } from '../ui/layout'
 import { createJoystick } from '../ui/joystick'
-import { estimateDepthSingleShot } from '../depth/depth'
+import { estimateDepthFromImageURL, estimateDepthSingleShot, type DepthResult } from '../depth/depth'
+import { alignDepth } from '../depth/depth-align'
+import type { DepthColormap } from '../depth/colormap'
+import { createDepthDebugView, probeDepth, type DepthDebugContent } from '../depth/depth-debug-view'
+import { CAPTURE_FILE_EXT, createCaptureBundle, openCaptureBundle } from '../depth/depth-export'
+import { createDepthMesh } from '../depth/depth-mesh'
+import { createDepthStream } from '../depth/depth-stream'
+import { DEPTH_MODELS, loadDepthModelId, saveDepthModelId } from '../depth/models'
+import {
+  collectImageSequence,
+  createCameraSource,
+  createImageSequenceSource,
+  createVideoFileSource,
+  type FrameSource,
+  type FrameSourceKind,
+} from '../mr/frames/frame-source'
+import { createSensorHub } from '../mr/sensors/sensors'
+import {
+  coverCrop,
+  intrinsicsFovDeg,
+  intrinsicsProfileKey,
+  resolveSourceIntrinsics,
+  saveIntrinsicsProfile,
+  type CameraIntrinsics,
+} from '../mr/camera/intrinsics'
+import { createCalibrationSession, type CalibrationSession } from '../mr/camera/calibration'
+import type { CheckerboardDetection } from '../mr/vision/checkerboard'
+import type { Point2 } from '../mr/vision/homography'
+import { createMarkerAnchor, type MarkerObservation } from '../mr/tracking/marker-anchor'
+import { createSessionRecorder } from '../session/recorder'
+import { createSessionReplay, type SessionReplay } from '../session/replay'
+import { decodeSessionArchive, downloadBlob, SESSION_FILE_EXT } from '../session/archive'
+import { createSeed } from '../session/clock'
 import * as CANNON from 'cannon-es'
 
-type GameMode = 'runner' | 'angry' | 'treasure'
+type GameMode = 'runner' | 'angry' | 'treasure' | 'snapshot'
+
+/** Everything the user can do that changes the simulation; recorded and replayed per tick. */
+type AppInput =
+  | { type: 'pointer'; phase: 'down' | 'move' | 'up' | 'cancel'; x01: number; y01: number }
+  | { type: 'controls'; moveX: number; jump: boolean }
+  | { type: 'mode'; mode: GameMode }
+  | { type: 'resetWorld' }
+  | { type: 'newMap' }
+  | { type: 'scale'; scaleMeters: number; source?: 'marker' | 'imu' | 'manual' }
+  | { type: 'scaleLock'; locked: boolean }
+  | { type: 'worldOrigin'; position: [number, number, number]; quaternion: [number, number, number, number] }
+
+type SessionMeta = {
+  mode: GameMode
+  scaleMeters: number
+  viewport: { width: number; height: number }
+  /** Backend that produced the recording; older archives lack it. */
+  tracking?: TrackingBackendKind | null
+  /** Camera intrinsics the session ran with; older archives lack them (default FOV). */
+  intrinsics?: CameraIntrinsics | null
+}
 
 export async function startApp() {
   const app = document.querySelector<HTMLDivElement>('#app')
@@ -29,7 +86,8 @@ export async function startApp() {
     statusNode.textContent = text
   }
 
-  let activeStream: MediaStream | null = null
+  let activeSource: FrameSource | null = null
+  let sourceKind: FrameSourceKind = 'camera'
   let mode: GameMode = 'runner'
   let runDepth = false
   let showSlamPoints = false
@@ -38,8 +96,6 @@ export async function startApp() {
   const maxPower = 6
   const aimScaleX = 2.2
   const aimScaleY = 2.8
-  let gyroQuat = new THREE.Quaternion()
-  let gyroActive = false
   const overlay2dMaybe = ui.overlayCanvas.getContext('2d')
   if (!overlay2dMaybe) throw new Error('2D overlay context missing')
   const overlay2d = overlay2dMaybe
@@ -65,9 +121,29 @@ export async function startApp() {
   })
   ui.chkRunDepth.addEventListener('change', () => {
     runDepth = ui.chkRunDepth.checked
+    if (!runDepth) {
+      depthStream.clear()
+      occlusion.clear()
+    }
+  })
+  ui.chkOcclusion.addEventListener('change', () => {
+    occlusionByMode[mode] = ui.chkOcclusion.checked
+    occlusion.setEnabled(ui.chkOcclusion.checked)
   })
+  ui.chkRoomMesh.addEventListener('change', () => {
+    roomMesh.object.visible = ui.chkRoomMesh.checked
+  })
+  ui.selSource.addEventListener('change', () => {
+    sourceKind = ui.selSource.value as FrameSourceKind
+    ui.fileSource.value = ''
+    ui.fileSource.multiple = sourceKind === 'images'
+    ui.fileSource.webkitdirectory = sourceKind === 'images'
+    ui.fileSource.accept = sourceKind === 'video' ? 'video/*' : 'image/*,.txt,.csv'
+    if (sourceKind !== 'camera') ui.fileSource.click()
+  })
+  // Manual scale changes are inputs like the automatic ones, so a replay sees the same scale.
   ui.scaleRange.addEventListener('input', () => {
-    scaleMeters = Number(ui.scaleRange.value) || 1
+    dispatchInput({ type: 'scale', scaleMeters: Number(ui.scaleRange.value) || 1, source: 'manual' })
   })
   ui.btnCalibrate.addEventListener('click', () => {
     const value = window.prompt('Enter world scale multiplier (meters):', String(scaleMeters))
@@ -77,12 +153,203 @@ export async function startApp() {
       setStatus('Invalid scale value')
       return
     }
-    scaleMeters = num
-    ui.scaleRange.value = String(num)
-    setStatus(`Scale set to ${num.toFixed(2)}×`)
+    dispatchInput({ type: 'scale', scaleMeters: num, source: 'manual' })
+  })
+
+  let intrinsics: CameraIntrinsics | null = null
+  let calibration: CalibrationSession | null = null
+  let calibrationDetection: CheckerboardDetection | null = null
+  let lastCalibrationT = 0
+
+  // Projection, depth back-projection and SLAM all share the same camera model.
+  function useIntrinsics(next: CameraIntrinsics | null) {
+    intrinsics = next
+    sceneBundle.setIntrinsics(next)
+    tracking.setIntrinsics(next)
+  }
+
+  function describeIntrinsics(k: CameraIntrinsics) {
+    const fov = intrinsicsFovDeg(k)
+    return `fx ${k.fx.toFixed(0)} fy ${k.fy.toFixed(0)} c ${k.cx.toFixed(0)},${k.cy.toFixed(0)} (${fov.horizontal.toFixed(0)}°×${fov.vertical.toFixed(0)}°)`
+  }
+
+  function stopCalibration() {
+    calibration = null
+    calibrationDetection = null
+    ui.btnCameraCalibration.textContent = 'Camera'
+  }
+
+  async function finishCalibration() {
+    const session = calibration
+    const source = activeSource
+    stopCalibration()
+    const result = session?.solve()
+    if (!session || !source || !result) {
+      setStatus('Camera calibration cancelled: no checkerboard views')
+      return
+    }
+    saveIntrinsicsProfile(intrinsicsProfileKey(source), result.intrinsics)
+    useIntrinsics(result.intrinsics)
+    console.info(`[intrinsics] calibrated (${result.model}, ${result.views} views) ${describeIntrinsics(result.intrinsics)}`)
+    // SLAM picks up the new camera model only on initialization.
+    await tracking.start(source)
+    setStatus(`Camera calibrated (${result.model}, ${result.views} views): ${describeIntrinsics(result.intrinsics)}`)
+  }
+
+  function calibrationPrompt() {
+    const board = calibration?.board
+    if (!board) return ''
+    return `Camera calibration: show a ${board.cols}×${board.rows} inner-corner checkerboard at different tilts (${calibration?.getViewCount() ?? 0} views). Tap Camera to finish.`
+  }
+
+  ui.btnCameraCalibration.addEventListener('click', () => {
+    if (calibration) {
+      void finishCalibration()
+      return
+    }
+    if (!activeSource || replay) {
+      setStatus('Start the camera before calibrating')
+      return
+    }
+    calibration = createCalibrationSession()
+    lastCalibrationT = 0
+    ui.btnCameraCalibration.textContent = 'Done'
+    setStatus(calibrationPrompt())
+  })
+
+  function updateCalibration(t: number) {
+    if (!calibration || !activeSource || t - lastCalibrationT < 300) return
+    lastCalibrationT = t
+    const res = calibration.addFrame(activeSource)
+    calibrationDetection = res.detection
+    if (res.accepted) setStatus(calibrationPrompt())
+    if (calibration.isComplete()) void finishCalibration()
+  }
+
+  // Detections are in pixels of the full (downscaled) frame; the video is shown cover-cropped.
+  function drawInFrameSpace(size: { width: number; height: number }, draw: (toView: (p: Point2) => Point2) => void) {
+    if (size.width <= 0 || size.height <= 0) return
+    const w = ui.overlayCanvas.clientWidth || window.innerWidth
+    const h = ui.overlayCanvas.clientHeight || window.innerHeight
+    const crop = coverCrop(size.width, size.height, w, h)
+    const dpr = ui.overlayCanvas.width / Math.max(1, w)
+    overlay2d.save()
+    overlay2d.setTransform(dpr, 0, 0, dpr, 0, 0)
+    draw((p) => ({ x: ((p.x - crop.sx) / crop.sw) * w, y: ((p.y - crop.sy) / crop.sh) * h }))
+    overlay2d.restore()
+  }
+
+  function drawCalibration() {
+    const det = calibrationDetection
+    if (!calibration || !det) return
+    drawInFrameSpace(calibration.getAnalysisSize(), (toView) => {
+      overlay2d.fillStyle = 'rgba(80,255,120,0.9)'
+      for (const p of det.corners) {
+        const v = toView(p)
+        overlay2d.fillRect(v.x - 2, v.y - 2, 4, 4)
+      }
+    })
+  }
+
+  // Printed fiducials set the metric scale and, optionally, the world origin.
+  const markerAnchor = createMarkerAnchor({ markerSizeMeters: markerSizeFromUi() })
+  let markersEnabled = ui.chkMarkers.checked
+  let markers: MarkerObservation[] = []
+  let markersT = 0
+  let markerOriginPinned = false
+
+  function markerSizeFromUi() {
+    const cm = Number(ui.numMarkerSize.value)
+    return Number.isFinite(cm) && cm > 0 ? cm / 100 : 0.1
+  }
+
+  ui.chkMarkers.addEventListener('change', () => {
+    markersEnabled = ui.chkMarkers.checked
+    markers = []
+  })
+  ui.numMarkerSize.addEventListener('change', () => markerAnchor.setMarkerSize(markerSizeFromUi()))
+  ui.chkMarkerOrigin.addEventListener('change', () => {
+    markerOriginPinned = false
   })
 
+  // Once locked, neither markers nor the IMU estimate move `scaleMeters` any more.
+  let scaleLocked = false
+  const imuScaleMinConfidence = 0.6
+  ui.chkScaleLock.addEventListener('change', () => {
+    dispatchInput({ type: 'scaleLock', locked: ui.chkScaleLock.checked })
+    // Ignored during replays; the handler syncs the checkbox otherwise.
+    ui.chkScaleLock.checked = scaleLocked
+  })
+
+  /** Follows the tracker's accelerometer-based scale while no marker provides a better one. */
+  function updateImuScale() {
+    if (scaleLocked || markerAnchor.getScale()) return
+    const estimate = tracking.getStats().scale
+    if (!estimate || estimate.locked || estimate.confidence < imuScaleMinConfidence) return
+    if (Math.abs(estimate.unitsPerMeter - scaleMeters) > scaleMeters * 0.02) {
+      dispatchInput({ type: 'scale', scaleMeters: estimate.unitsPerMeter, source: 'imu' })
+    }
+  }
+
+  function updateMarkers(t: number) {
+    if (!markersEnabled || !activeSource) return
+    const cameraPose = tracking.getPose()
+    const found = markerAnchor.update({
+      source: activeSource,
+      intrinsics,
+      cameraPose,
+      tracked: tracking.status === 'tracking',
+      now: t,
+    })
+    if (found) {
+      markers = found
+      markersT = t
+    } else if (t - markersT > 1000) {
+      markers = []
+    }
+    if (!found || found.length === 0) return
+
+    const estimate = markerAnchor.getScale()
+    if (estimate && !scaleLocked && Math.abs(estimate.scaleMeters - scaleMeters) > scaleMeters * 0.02) {
+      dispatchInput({ type: 'scale', scaleMeters: estimate.scaleMeters, source: 'marker' })
+      console.info(`[markers] scale ${estimate.scaleMeters.toFixed(3)} (${estimate.samples} samples, ±${(estimate.spread * 100).toFixed(0)}%)`)
+    }
+    const aligned = tracking.getStats().alignment !== 'pending'
+    if (ui.chkMarkerOrigin.checked && !markerOriginPinned && estimate && aligned && tracking.status === 'tracking') {
+      const origin = markerAnchor.originFromMarker(found[0], cameraPose, scaleMeters)
+      dispatchInput({
+        type: 'worldOrigin',
+        position: origin.position.toArray() as [number, number, number],
+        quaternion: origin.quaternion.toArray() as [number, number, number, number],
+      })
+    }
+  }
+
+  function drawMarkers() {
+    if (!markersEnabled || markers.length === 0) return
+    drawInFrameSpace(markerAnchor.getAnalysisSize(), (toView) => {
+      overlay2d.lineWidth = 2
+      overlay2d.strokeStyle = 'rgba(255,200,40,0.95)'
+      overlay2d.fillStyle = 'rgba(255,200,40,0.95)'
+      overlay2d.font = '14px system-ui, sans-serif'
+      for (const m of markers) {
+        const pts = m.corners.map(toView)
+        overlay2d.beginPath()
+        pts.forEach((p, i) => (i === 0 ? overlay2d.moveTo(p.x, p.y) : overlay2d.lineTo(p.x, p.y)))
+        overlay2d.closePath()
+        overlay2d.stroke()
+        // Top-left corner marks the marker's orientation.
+        overlay2d.fillRect(pts[0].x - 3, pts[0].y - 3, 6, 6)
+        const cx = pts.reduce((s, p) => s + p.x, 0) / pts.length
+        const cy = pts.reduce((s, p) => s + p.y, 0) / pts.length
+        overlay2d.fillText(`#${m.id}`, cx - 10, cy + 5)
+      }
+    })
+  }
+
   let jumpPressed = false
+  // Controls the simulation reads each tick; fed from the joystick live and from the archive in replay.
+  const controls = { moveX: 0, jump: false }
   const joy = createJoystick({
     base: ui.joyBase,
     knob: ui.joyKnob,
@@ -93,17 +360,8 @@ export async function startApp() {
   ui.btnJumpGame.addEventListener('pointercancel', () => (jumpPressed = false))
   ui.btnJumpGame.addEventListener('pointerleave', () => (jumpPressed = false))
 
-  function onDeviceOrientation(ev: DeviceOrientationEvent) {
-    const alpha = THREE.MathUtils.degToRad(ev.alpha ?? 0)
-    const beta = THREE.MathUtils.degToRad(ev.beta ?? 0)
-    const gamma = THREE.MathUtils.degToRad(ev.gamma ?? 0)
-    const euler = new THREE.Euler(beta, alpha, -gamma, 'YXZ')
-    gyroQuat = new THREE.Quaternion().setFromEuler(euler)
-    gyroActive = true
-  }
-  if (typeof window !== 'undefined' && 'DeviceOrientationEvent' in window) {
-    window.addEventListener('deviceorientation', onDeviceOrientation)
-  }
+  const sensors = createSensorHub()
+  sensors.attach()
 
   function resizeOverlay() {
     const dpr = Math.min(window.devicePixelRatio || 1, 2)
@@ -119,41 +377,133 @@ export async function startApp() {
 
   // Tracking + mapping + physics + modes
   const tracking = createTrackingController({
-    video: ui.video,
+    sensors,
     width: ui.overlayCanvas.width,
     height: ui.overlayCanvas.height,
+    backend: ui.selTracking.value as TrackingBackendPreference,
+    overlayRoot: ui.root,
     onStatus: (st, detail) => {
       if (st === 'tracking') baseStatus = `Tracking (${detail ?? 'ok'})`
       else if (st === 'lost') baseStatus = 'Tracking lost'
-      else if (st === 'unavailable') baseStatus = 'Tracking unavailable (place public/vendor/alva_ar.js)'
+      else if (st === 'unavailable') baseStatus = `Tracking unavailable (${detail ?? 'no backend'})`
       else if (st === 'initializing') baseStatus = 'Tracking initializing…'
       setStatus(baseStatus)
     },
+    onMapStatus: (st) => {
+      setStatus(`${baseStatus} | map ${st}`)
+    },
+    onRecovery: (event) => {
+      const lost = (event.lostMs / 1000).toFixed(1)
+      if (event.stage === 'waiting') baseStatus = 'Tracking lost — game paused'
+      else if (event.stage === 'relocalizing') baseStatus = `Relocalizing (${lost}s) — look back at a mapped area`
+      else if (event.stage === 'softReset') baseStatus = 'Tracking reset — new world frame'
+      else if (event.stage === 'hardReset') baseStatus = 'Tracking reset — map cleared'
+      else baseStatus = `Tracking recovered after ${lost}s`
+      if (event.stage === 'softReset' || event.stage === 'hardReset') onWorldFrameChanged(event.stage === 'hardReset')
+      setStatus(baseStatus)
+    },
+  })
+
+  ui.selTracking.addEventListener('change', () => {
+    tracking.setBackendPreference(ui.selTracking.value as TrackingBackendPreference)
   })
 
-  ui.btnResetWorld.addEventListener('click', () => tracking.resetWorld())
+  const recorder = createSessionRecorder<AppInput, SessionMeta>({ sensors })
+  let replay: SessionReplay<AppInput, SessionMeta> | null = null
+
+  ui.btnResetWorld.addEventListener('click', () => dispatchInput({ type: 'resetWorld' }))
+  ui.btnNewMap.addEventListener('click', () => dispatchInput({ type: 'newMap' }))
 
   const physics = new PhysicsWorld()
   let worldPlaneBody: import('cannon-es').Body | null = physics.addPlane(new THREE.Vector3(0, 1, 0), 0)
   let slamPlaneMesh: THREE.Mesh | null = null
-  let depthPlaneMesh: THREE.Mesh | null = null
+  // One mesh and one static slab per tracked depth surface, made and dropped on the mapper's events.
+  const surfaceViews = new Map<string, { mesh: THREE.Mesh; body: CANNON.Body }>()
   let currentPlaneSource: 'slam' | 'depth' | null = null
   let lastPlaneSwitchT = 0
-  const planeMapper = new PlaneMapper({
-    maxDepthMeters: 2.4,
-    minDepthMeters: 0.3,
-    sampleStride: 4,
+  const planeMapper = new PlaneMapper(
+    {
+      maxDepthMeters: 2.4,
+      minDepthMeters: 0.3,
+      sampleStride: 4,
+    },
+    (event) => {
+      if (event.type === 'added') addSurfaceView(event.surface)
+      else if (event.type === 'updated') updateSurfaceView(event.surface)
+      else removeSurfaceView(event.surface.id)
+    },
+  )
+  // Fused room geometry for free-space and surface queries, built from the aligned depth frames.
+  const roomModel = createTsdfVolume()
+  const roomMesh = createTsdfMesh(roomModel)
+  roomMesh.object.visible = false
+  sceneBundle.scene.add(roomMesh.object)
+  // Real surfaces from the aligned depth hide virtual objects behind them; each mode keeps its own toggle.
+  const occlusion = createDepthOcclusion(sceneBundle.renderer)
+  const occlusionByMode: Record<GameMode, boolean> = { runner: true, angry: true, treasure: true, snapshot: false }
+  // Latest depth result, for the Capture button and the depth debug view.
+  let lastDepth: DepthResult | null = null
+  let lastDepthInferenceMs = 0
+  const depthDebug = createDepthDebugView({ renderer: sceneBundle.renderer, histogramCanvas: ui.depthHistogram })
+  // Screen position (0..1) the probe tool reads the depth at.
+  let depthProbe: { x01: number; y01: number } | null = null
+  let capturePreview: ReturnType<typeof createDepthMesh> | null = null
+  const depthStream = createDepthStream((event) => {
+    if (event.type === 'error') {
+      console.warn('[depth] failed', event.message)
+      // Names the missing model file or runtime asset when depth cannot start.
+      setStatus(`${baseStatus} | depth: ${event.message}`)
+      return
+    }
+    const { timing, queue } = event
+    // Real distances from the triangulated SLAM features, when enough of them land in the frame.
+    const result = alignDepth(event.result, tracking.getFeaturePoints(), scaleMeters)
+    // Placed with the pose the frame was captured at; the camera has moved on since.
+    if (runDepth && result.frame) planeMapper.updateFromDepth(result, sceneBundle.camera, result.frame.pose, scaleMeters)
+    if (runDepth) {
+      lastDepth = result
+      lastDepthInferenceMs = timing.inferenceMs
+      // The surface map belongs to this frame only when the plane mapper just took it.
+      if (ui.selDepthView.value !== 'off') depthDebug.setDepth(result, result.frame ? planeMapper.getSurfaceMap() : null)
+      updateDepthReadout()
+    }
+    // Unaligned frames have no real distances to fuse.
+    if (runDepth && result.metric) {
+      roomModel.integrate(result, scaleMeters)
+      occlusion.setDepth(result, scaleMeters)
+    }
+    const aligned = result.alignment
+      ? `aligned ${result.alignment.inliers}/${result.alignment.samples} err ${(result.alignment.residual * 100).toFixed(1)}%`
+      : 'unaligned'
+    console.info(
+      `[depth] ${timing.inferenceMs.toFixed(0)}ms infer, ${timing.totalMs.toFixed(0)}ms total ${result.width}x${result.height} ${aligned} (${queue.backend}, queued ${queue.queued}, dropped ${queue.dropped}, skipped ${queue.skipped})`,
+    )
+  }, { modelId: loadDepthModelId() })
+  for (const model of DEPTH_MODELS) ui.selDepthModel.add(new Option(model.label, model.id))
+  ui.selDepthModel.value = depthStream.getModel()
+  ui.selDepthModel.addEventListener('change', () => {
+    depthStream.setModel(ui.selDepthModel.value)
+    saveDepthModelId(ui.selDepthModel.value)
   })
 
   const runner = createRunner({ scene: sceneBundle.scene, physics })
   const angry = createAngryMode({ scene: sceneBundle.scene, physics })
   const treasure = createTreasureMode({ scene: sceneBundle.scene })
+  // Renders its own scene: a frozen depth relief instead of the live AR view.
+  const snapshot = createSnapshotMode({ renderer: sceneBundle.renderer, domElement: ui.overlayCanvas })
+  let snapshotBusy = false
+  let snapshotTap: { x: number; y: number } | null = null
 
   function setMode(next: GameMode) {
     mode = next
     ui.btnModeRunner.classList.toggle('btnPrimary', next === 'runner')
     ui.btnModeAngry.classList.toggle('btnPrimary', next === 'angry')
     ui.btnModeTreasure.classList.toggle('btnPrimary', next === 'treasure')
+    ui.btnModeSnapshot.classList.toggle('btnPrimary', next === 'snapshot')
+    ui.snapshotControls.style.display = next === 'snapshot' ? 'flex' : 'none'
+    snapshot.setActive(next === 'snapshot')
+    ui.chkOcclusion.checked = occlusionByMode[next]
+    occlusion.setEnabled(occlusionByMode[next])
     ui.gameControls.style.display = next === 'runner' ? 'flex' : 'none'
     if (next === 'runner') {
       angry.clear()
@@ -163,6 +513,8 @@ export async function startApp() {
       angry.hideTrajectory()
       angry.reset()
       runDepth = false
+      depthStream.clear()
+      occlusion.clear()
       showSlamPoints = false
       ui.chkRunDepth.checked = false
       ui.chkSlamPoints.checked = false
@@ -170,30 +522,225 @@ export async function startApp() {
       ui.scoreHud.textContent = `Score: ${angry.getScore()}`
     }
     if (next === 'treasure') treasure.reset(new THREE.Vector3(0, 0.6, -1))
+    if (next === 'snapshot') {
+      angry.clear()
+      treasure.clear()
+    }
     ui.scoreHud.style.display = next === 'angry' ? 'block' : 'none'
     ui.powerHud.style.display = 'none'
-    ui.overlayCanvas.style.touchAction = next === 'angry' ? 'none' : 'manipulation'
+    ui.overlayCanvas.style.touchAction = next === 'angry' || next === 'snapshot' ? 'none' : 'manipulation'
     launchStart = null
   }
 
-  ui.btnModeRunner.addEventListener('click', () => setMode('runner'))
-  ui.btnModeAngry.addEventListener('click', () => setMode('angry'))
-  ui.btnModeTreasure.addEventListener('click', () => setMode('treasure'))
+  ui.btnModeRunner.addEventListener('click', () => dispatchInput({ type: 'mode', mode: 'runner' }))
+  ui.btnModeAngry.addEventListener('click', () => dispatchInput({ type: 'mode', mode: 'angry' }))
+  ui.btnModeTreasure.addEventListener('click', () => dispatchInput({ type: 'mode', mode: 'treasure' }))
+  ui.btnModeSnapshot.addEventListener('click', () => dispatchInput({ type: 'mode', mode: 'snapshot' }))
   setMode(mode)
 
-  function placeRunnerAtPointer(ev: PointerEvent) {
-    const targetPlane = slamPlaneMesh ?? depthPlaneMesh
-    if (!targetPlane || !targetPlane.visible) return
+  function dropOnSnapshot(clientX: number, clientY: number) {
+    const rect = ui.overlayCanvas.getBoundingClientRect()
+    const w = rect.width || window.innerWidth
+    const h = rect.height || window.innerHeight
+    const ndc = new THREE.Vector2(((clientX - rect.left) / w) * 2 - 1, -((clientY - rect.top) / h) * 2 + 1)
+    void snapshot.dropAt(ndc, ui.selSnapDrop.value as SnapshotObjectKind)
+  }
+
+  /** Runs depth once (on the main thread, outside the depth stream) and shows the result. */
+  async function runSnapshot(estimate: () => Promise<DepthResult>) {
+    if (snapshotBusy) return
+    snapshotBusy = true
+    setStatus('Snapshot: estimating depth…')
+    try {
+      const started = performance.now()
+      snapshot.show(await estimate())
+      setStatus(`Snapshot ready (${(performance.now() - started).toFixed(0)}ms)`)
+    } catch (err) {
+      console.warn('[snapshot] depth failed', err)
+      setStatus(`Snapshot failed: ${err instanceof Error ? err.message : String(err)}`)
+    } finally {
+      snapshotBusy = false
+    }
+  }
+
+  function snapshotViewport() {
+    return {
+      viewportW: ui.overlayCanvas.clientWidth || window.innerWidth,
+      viewportH: ui.overlayCanvas.clientHeight || window.innerHeight,
+      modelId: depthStream.getModel(),
+    }
+  }
+
+  ui.btnSnapTake.addEventListener('click', () => {
+    const source = activeSource
+    if (!source?.isReady()) {
+      setStatus('Start a source before taking a snapshot')
+      return
+    }
+    const frame = tracking.captureFrame()
+    void runSnapshot(async () => {
+      const result = await estimateDepthSingleShot(source, { ...snapshotViewport(), frame })
+      return alignDepth(result, tracking.getFeaturePoints(), scaleMeters)
+    })
+  })
+  ui.btnSnapPhoto.addEventListener('click', () => {
+    ui.fileSnapPhoto.value = ''
+    ui.fileSnapPhoto.click()
+  })
+  ui.fileSnapPhoto.addEventListener('change', () => {
+    const file = ui.fileSnapPhoto.files?.[0]
+    if (!file) return
+    const url = URL.createObjectURL(file)
+    void runSnapshot(() => estimateDepthFromImageURL(url, snapshotViewport())).finally(() => URL.revokeObjectURL(url))
+  })
+  ui.rngSnapRelief.addEventListener('change', () => {
+    snapshot.setMeshOptions({ zScale: Number(ui.rngSnapRelief.value) || 1.8 })
+  })
+  ui.selSnapDetail.addEventListener('change', () => {
+    snapshot.setMeshOptions({ stride: Number(ui.selSnapDetail.value) || 2 })
+  })
+  ui.chkSnapInvert.addEventListener('change', () => {
+    snapshot.setMeshOptions({ invert: ui.chkSnapInvert.checked })
+  })
+  ui.btnSnapClear.addEventListener('click', () => snapshot.clearObjects())
+
+  function depthViewShown() {
+    return runDepth && mode !== 'snapshot' && ui.selDepthView.value !== 'off' && depthDebug.hasDepth()
+  }
+
+  /** Histogram caption: value ranges, inference time and the probe reading. */
+  function updateDepthReadout() {
+    const depth = lastDepth
+    if (!depth || ui.selDepthView.value === 'off') return
+    const lines = [
+      `${depth.width}x${depth.height} ${depth.model ?? ''}`.trim(),
+      `raw ${depth.min.toFixed(2)}–${depth.max.toFixed(2)} · ${lastDepthInferenceMs.toFixed(0)}ms`,
+    ]
+    if (depth.metric) {
+      let lo = Infinity
+      let hi = 0
+      for (const m of depth.metric) {
+        if (!(m > 0)) continue
+        lo = Math.min(lo, m)
+        hi = Math.max(hi, m)
+      }
+      if (hi > 0) lines.push(`metric ${lo.toFixed(2)}–${hi.toFixed(2)} m`)
+    }
+    if (depthProbe && ui.chkDepthProbe.checked) {
+      const p = probeDepth(depth, depthProbe.x01, depthProbe.y01, scaleMeters)
+      let text = `probe ${p.depth01.toFixed(3)} (raw ${p.raw.toFixed(3)})`
+      if (p.meters !== null) text += ` · ${p.meters.toFixed(2)} m`
+      if (p.world) {
+        const w = p.world.clone().multiplyScalar(1 / scaleMeters)
+        text += `\nworld ${w.x.toFixed(2)}, ${w.y.toFixed(2)}, ${w.z.toFixed(2)} m`
+      }
+      lines.push(text)
+    }
+    ui.depthDebugText.textContent = lines.join('\n')
+  }
+
+  function drawDepthProbe() {
+    if (!depthProbe) return
+    const w = ui.overlayCanvas.clientWidth || window.innerWidth
+    const h = ui.overlayCanvas.clientHeight || window.innerHeight
+    const dpr = ui.overlayCanvas.width / Math.max(1, w)
+    const x = depthProbe.x01 * w
+    const y = depthProbe.y01 * h
+    overlay2d.save()
+    overlay2d.setTransform(dpr, 0, 0, dpr, 0, 0)
+    overlay2d.strokeStyle = 'rgba(255,255,255,0.95)'
+    overlay2d.lineWidth = 2
+    overlay2d.beginPath()
+    overlay2d.arc(x, y, 10, 0, Math.PI * 2)
+    overlay2d.moveTo(x - 16, y)
+    overlay2d.lineTo(x + 16, y)
+    overlay2d.moveTo(x, y - 16)
+    overlay2d.lineTo(x, y + 16)
+    overlay2d.stroke()
+    overlay2d.restore()
+  }
+
+  ui.selDepthView.addEventListener('change', () => {
+    const content = ui.selDepthView.value
+    if (content === 'off') return
+    depthDebug.setContent(content as DepthDebugContent)
+    // Frames are only uploaded while the view is on.
+    if (lastDepth) depthDebug.setDepth(lastDepth, lastDepth.frame ? planeMapper.getSurfaceMap() : null)
+    updateDepthReadout()
+  })
+  ui.selDepthColormap.addEventListener('change', () => {
+    depthDebug.setColormap(ui.selDepthColormap.value as DepthColormap)
+  })
+  ui.chkDepthProbe.addEventListener('change', () => {
+    depthProbe = null
+    updateDepthReadout()
+  })
+
+  const SURFACE_COLORS: Record<PlaneKind, number> = { up: 0x4cffb5, down: 0xffa94c, vertical: 0xb58cff }
+
+  function addSurfaceView(surface: WorldSurface) {
+    const mesh = new THREE.Mesh(
+      new THREE.PlaneGeometry(1, 1),
+      new THREE.MeshBasicMaterial({
+        color: SURFACE_COLORS[surface.kind],
+        opacity: 0.2,
+        transparent: true,
+        side: THREE.DoubleSide,
+      }),
+    )
+    mesh.name = surface.id
+    sceneBundle.scene.add(mesh)
+    const body = physics.addSlab(surface.center, surface.normal, surface.extent * 2)
+    surfaceViews.set(surface.id, { mesh, body })
+    updateSurfaceView(surface)
+  }
+
+  function updateSurfaceView(surface: WorldSurface) {
+    const view = surfaceViews.get(surface.id)
+    if (!view) return
+    view.mesh.position.copy(surface.center)
+    view.mesh.quaternion.setFromUnitVectors(new THREE.Vector3(0, 0, 1), surface.normal)
+    view.mesh.scale.set(surface.extent * 2, surface.extent * 2, 1)
+    physics.updateSlab(view.body, surface.center, surface.normal, surface.extent * 2)
+  }
+
+  function removeSurfaceView(id: string) {
+    const view = surfaceViews.get(id)
+    if (!view) return
+    view.mesh.removeFromParent()
+    view.mesh.geometry.dispose()
+    ;(view.mesh.material as THREE.Material).dispose()
+    physics.removeBody(view.body)
+    surfaceViews.delete(id)
+  }
+
+  /** Depth surfaces are shown and collide only where detected planes are in play. */
+  function setSurfaceViewsActive(active: boolean) {
+    for (const view of surfaceViews.values()) {
+      view.mesh.visible = active
+      view.body.collisionResponse = active
+    }
+  }
+
+  function placeRunnerAtPointer(clientX: number, clientY: number) {
+    // The ground plane and any floor-like depth surface (a table counts) can take the runner.
+    const targets: THREE.Mesh[] = []
+    if (slamPlaneMesh?.visible) targets.push(slamPlaneMesh)
+    for (const surface of planeMapper.getSurfaces()) {
+      const view = surfaceViews.get(surface.id)
+      if (surface.kind === 'up' && view?.mesh.visible) targets.push(view.mesh)
+    }
+    if (!targets.length) return
     const rect = ui.overlayCanvas.getBoundingClientRect()
     const w = rect.width || window.innerWidth
     const h = rect.height || window.innerHeight
-    const x = ((ev.clientX - rect.left) / w) * 2 - 1
-    const y = -((ev.clientY - rect.top) / h) * 2 + 1
+    const x = ((clientX - rect.left) / w) * 2 - 1
+    const y = -((clientY - rect.top) / h) * 2 + 1
     sceneBundle.raycaster.setFromCamera(new THREE.Vector2(x, y), sceneBundle.camera)
-    const hits = sceneBundle.raycaster.intersectObject(targetPlane, false)
+    const hits = sceneBundle.raycaster.intersectObjects(targets, false)
     if (!hits.length) return
     const hit = hits[0]
-    const normal = new THREE.Vector3(0, 0, 1).applyQuaternion(targetPlane.quaternion).normalize()
+    const normal = new THREE.Vector3(0, 0, 1).applyQuaternion(hit.object.quaternion).normalize()
     const pos = hit.point.clone().addScaledVector(normal, 0.15)
     runner.setPosition(pos)
   }
@@ -286,32 +833,43 @@ export async function startApp() {
     angry.launch(from, dir, power)
   }
 
-  ui.overlayCanvas.addEventListener('pointerdown', (ev) => {
+  function onPointerDown(clientX: number, clientY: number) {
     if (mode === 'runner') {
-      placeRunnerAtPointer(ev)
+      placeRunnerAtPointer(clientX, clientY)
       return
     }
     if (mode === 'angry') {
-      shootAtPointer(ev.clientX, ev.clientY)
+      shootAtPointer(clientX, clientY)
+      return
+    }
+    if (mode === 'snapshot') {
+      snapshotTap = { x: clientX, y: clientY }
       return
     }
     return
-  })
+  }
 
-  ui.overlayCanvas.addEventListener('pointermove', (ev) => {
+  function onPointerMove(clientX: number, clientY: number) {
     if (mode !== 'angry' || !launchStart) return
-    updateTrajectory(ev.clientX, ev.clientY)
-  })
+    updateTrajectory(clientX, clientY)
+  }
 
-  ui.overlayCanvas.addEventListener('pointerup', (ev) => {
+  function onPointerUp(clientX: number, clientY: number) {
+    if (mode === 'snapshot') {
+      // A drag orbits the view; only a tap drops an object.
+      const tap = snapshotTap
+      snapshotTap = null
+      if (tap && Math.hypot(clientX - tap.x, clientY - tap.y) < 8) dropOnSnapshot(clientX, clientY)
+      return
+    }
     if (mode !== 'angry' || !launchStart) return
 
     const rect = ui.overlayCanvas.getBoundingClientRect()
     const w = rect.width || window.innerWidth
     const h = rect.height || window.innerHeight
 
-    const dx = ev.clientX - launchStart.x
-    const dy = ev.clientY - launchStart.y
+    const dx = clientX - launchStart.x
+    const dy = clientY - launchStart.y
     const swipeLength = Math.hypot(dx, dy)
     const power = Math.min(maxPower, swipeLength / 40)
 
@@ -349,15 +907,120 @@ export async function startApp() {
     angry.launch(from, dir, power)
     launchStart = null
     ui.powerHud.style.display = 'none'
-  })
+  }
 
-  ui.overlayCanvas.addEventListener('pointercancel', () => {
+  function onPointerCancel() {
     if (mode === 'angry') {
       angry.hideTrajectory()
       launchStart = null
       ui.powerHud.style.display = 'none'
     }
+  }
+
+  // The tracker's world frame was reset or re-anchored: what was fused in the old one is out of place.
+  // `newUnits`: the SLAM map was dropped too, so marker scale samples no longer apply either.
+  function onWorldFrameChanged(newUnits = false) {
+    depthStream.clear()
+    roomModel.clear()
+    occlusion.clear()
+    // Its `removed` events drop the surface meshes and slabs.
+    planeMapper.clear()
+    if (newUnits) markerAnchor.reset()
+    else markerAnchor.resetViews()
+  }
+
+  // Live input goes through dispatchInput so the recorder sees exactly what the simulation saw.
+  // Pointer positions are stored relative to the overlay so replays survive a different window size.
+  function applyInput(input: AppInput) {
+    if (input.type === 'mode') {
+      setMode(input.mode)
+      return
+    }
+    if (input.type === 'resetWorld') {
+      tracking.resetWorld()
+      markerOriginPinned = false
+      onWorldFrameChanged()
+      return
+    }
+    if (input.type === 'newMap') {
+      tracking.forgetMap()
+      markerOriginPinned = false
+      return
+    }
+    if (input.type === 'scale') {
+      scaleMeters = input.scaleMeters
+      ui.scaleRange.value = String(input.scaleMeters)
+      if (input.source === 'manual') setStatus(`Scale set to ${input.scaleMeters.toFixed(2)}×`)
+      else setStatus(`Scale set to ${input.scaleMeters.toFixed(2)}× from ${input.source === 'imu' ? 'motion' : 'marker'}`)
+      return
+    }
+    if (input.type === 'scaleLock') {
+      scaleLocked = input.locked
+      ui.chkScaleLock.checked = input.locked
+      // The tracker keeps its own estimate only when one exists; the app value is locked either way.
+      tracking.setScaleLocked(input.locked)
+      setStatus(input.locked ? `Scale locked at ${scaleMeters.toFixed(2)}×` : 'Scale unlocked')
+      return
+    }
+    if (input.type === 'worldOrigin') {
+      const origin = {
+        position: new THREE.Vector3(...input.position),
+        quaternion: new THREE.Quaternion(...input.quaternion),
+      }
+      markerOriginPinned = tracking.setWorldOrigin(origin)
+      if (markerOriginPinned) {
+        onWorldFrameChanged()
+        setStatus('World origin pinned to marker')
+      }
+      return
+    }
+    if (input.type === 'controls') {
+      controls.moveX = input.moveX
+      controls.jump = input.jump
+      return
+    }
+    const rect = ui.overlayCanvas.getBoundingClientRect()
+    const clientX = rect.left + input.x01 * (rect.width || window.innerWidth)
+    const clientY = rect.top + input.y01 * (rect.height || window.innerHeight)
+    if (input.phase === 'down') onPointerDown(clientX, clientY)
+    else if (input.phase === 'move') onPointerMove(clientX, clientY)
+    else if (input.phase === 'up') onPointerUp(clientX, clientY)
+    else onPointerCancel()
+  }
+
+  function dispatchInput(input: AppInput) {
+    // While replaying, the archive is the only input.
+    if (replay) return
+    recorder.recordInput(input)
+    applyInput(input)
+  }
+
+  function pointerInput(phase: 'down' | 'move' | 'up' | 'cancel', ev: PointerEvent): AppInput {
+    const rect = ui.overlayCanvas.getBoundingClientRect()
+    const x01 = (ev.clientX - rect.left) / (rect.width || window.innerWidth)
+    const y01 = (ev.clientY - rect.top) / (rect.height || window.innerHeight)
+    return { type: 'pointer', phase, x01, y01 }
+  }
+
+  ui.overlayCanvas.addEventListener('pointerdown', (ev) => {
+    // Probing is a local debug tool: not recorded and not passed on to the game.
+    if (ui.chkDepthProbe.checked && depthViewShown()) {
+      const rect = ui.overlayCanvas.getBoundingClientRect()
+      depthProbe = {
+        x01: (ev.clientX - rect.left) / (rect.width || window.innerWidth),
+        y01: (ev.clientY - rect.top) / (rect.height || window.innerHeight),
+      }
+      updateDepthReadout()
+      return
+    }
+    dispatchInput(pointerInput('down', ev))
   })
+  ui.overlayCanvas.addEventListener('pointermove', (ev) => {
+    if (mode !== 'angry' || !launchStart) return
+    dispatchInput(pointerInput('move', ev))
+  })
+  ui.overlayCanvas.addEventListener('pointerup', (ev) => dispatchInput(pointerInput('up', ev)))
+  ui.overlayCanvas.addEventListener('pointercancel', (ev) => dispatchInput(pointerInput('cancel', ev)))
 
   function suppressSwipeRefresh(ev: TouchEvent) {
     if (mode !== 'angry') return
@@ -376,58 +1039,79 @@ export async function startApp() {
   }
 
   let lastT = performance.now()
-  let lastDepthT = lastT
   let perfLastLog = lastT
   let perfFrames = 0
   let perfDtSum = 0
   let perfSlow = 0
   let lastStatsUi = lastT
+  let lastTimelineUi = lastT
   const cameraForward = new THREE.Vector3()
-  function frame(t: number) {
-    const dt = Math.min((t - lastT) / 1000, 0.05)
+  let overlayDirty = false
+  function frame(frameT: number) {
+    let t = frameT
+    let dt = Math.min((t - lastT) / 1000, 0.05)
     lastT = t
+    if (replay) {
+      const tick = replay.takeTick()
+      if (!tick) {
+        // Waiting for the next recorded frame to decode (or the archive is done).
+        if (replay.isFinished()) finishReplay()
+        requestAnimationFrame(frame)
+        return
+      }
+      t = tick.t
+      dt = tick.dt
+      for (const input of tick.input) applyInput(input)
+    } else {
+      activeSource?.update(t)
+      if (joy.state.moveX !== controls.moveX || jumpPressed !== controls.jump) {
+        dispatchInput({ type: 'controls', moveX: joy.state.moveX, jump: jumpPressed })
+      }
+      recorder.recordTick(t, dt, activeSource)
+      if (recorder.isFull()) {
+        // Frames live in memory until the archive is written; stop before a phone runs out.
+        console.warn(`[session] size limit reached at ${(recorder.getByteSize() / 1e6).toFixed(0)} MB, stopping`)
+        void toggleRecording()
+      }
+    }
     perfFrames += 1
     perfDtSum += dt
     if (dt > 0.04) perfSlow += 1
 
     tracking.update(dt)
     const pose = tracking.getPose()
+    // The tracker's world frame is gravity-aligned with the floor at y = 0, shared by all modes.
+    sceneBundle.camera.position.copy(pose.position)
+    sceneBundle.camera.quaternion.copy(pose.quaternion)
+    roomMesh.update()
     if (mode === 'angry') {
-      // In Angry mode we keep a fixed horizontal world floor and use SLAM only for phone position.
-      sceneBundle.camera.position.set(pose.position.x, 1.6, pose.position.z)
-      sceneBundle.camera.quaternion.copy(gyroActive ? gyroQuat : pose.quaternion)
+      // Angry mode plays on the default floor rather than detected planes.
       if (slamPlaneMesh) slamPlaneMesh.visible = false
-      if (depthPlaneMesh) depthPlaneMesh.visible = false
+      setSurfaceViewsActive(false)
       if (worldPlaneBody) {
         worldPlaneBody.position.set(0, 0, 0)
         worldPlaneBody.quaternion.setFromVectors(new CANNON.Vec3(0, 0, 1), new CANNON.Vec3(0, 1, 0))
       }
     } else {
-      sceneBundle.camera.position.copy(pose.position)
-      sceneBundle.camera.quaternion.copy(pose.quaternion)
-
       const slamPlane = tracking.getPlane()
+      setSurfaceViewsActive(runDepth)
 
-      if (runDepth && activeStream && t - lastDepthT > 1500 && ui.video.videoWidth > 0) {
-        lastDepthT = t
-        const depthStart = performance.now()
-        estimateDepthSingleShot(ui.video, {
+      if (runDepth && activeSource?.isReady()) {
+        depthStream.submit(activeSource, tracking.captureFrame(), {
           viewportW: ui.overlayCanvas.clientWidth || window.innerWidth,
           viewportH: ui.overlayCanvas.clientHeight || window.innerHeight,
-          captureW: 256,
-          textureW: 384,
+          unitsPerMeter: scaleMeters,
         })
-          .then((res) => {
-            planeMapper.updateFromDepth(res, sceneBundle.camera, pose, scaleMeters)
-            const ms = performance.now() - depthStart
-            console.info(`[depth] ${ms.toFixed(0)}ms ${res.width}x${res.height}`)
-          })
-          .catch(() => {
-            // best-effort
-          })
       }
 
-      const dominant = runDepth ? planeMapper.getSurfaces()[0] : undefined
+      // The lowest confident floor-like surface stands in for the ground plane; a table is not the floor.
+      let dominant: WorldSurface | undefined
+      if (runDepth) {
+        for (const s of planeMapper.getSurfaces()) {
+          if (s.kind !== 'up' || s.confidence < 0.45) continue
+          if (!dominant || s.center.y < dominant.center.y) dominant = s
+        }
+      }
       const depthPlaneAvailable = Boolean(dominant && dominant.confidence >= 0.45)
       const slamAvailable = Boolean(slamPlane)
       const switchCooldown = 800
@@ -462,7 +1146,6 @@ export async function startApp() {
         slamPlaneMesh.position.copy(pos)
         slamPlaneMesh.quaternion.copy(slamPlane.quaternion)
         slamPlaneMesh.scale.set(1.2, 1.2, 1)
-        if (depthPlaneMesh) depthPlaneMesh.visible = false
 
         const normal = new THREE.Vector3(0, 0, 1).applyQuaternion(slamPlane.quaternion).normalize()
         const constant = -normal.dot(pos)
@@ -476,22 +1159,7 @@ export async function startApp() {
           )
         }
       } else if (currentPlaneSource === 'depth' && dominant) {
-        if (!depthPlaneMesh) {
-          const geom = new THREE.PlaneGeometry(1, 1)
-          const mat = new THREE.MeshBasicMaterial({
-            color: 0x4cffb5,
-            opacity: 0.2,
-            transparent: true,
-            side: THREE.DoubleSide,
-          })
-          depthPlaneMesh = new THREE.Mesh(geom, mat)
-          sceneBundle.scene.add(depthPlaneMesh)
-        }
-        depthPlaneMesh.visible = true
-        const quat = new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 0, 1), dominant.normal)
-        depthPlaneMesh.position.copy(dominant.center)
-        depthPlaneMesh.quaternion.copy(quat)
-        depthPlaneMesh.scale.set(dominant.extent * 2, dominant.extent * 2, 1)
+        // The dominant surface already has its own mesh (see `addSurfaceView`).
         if (slamPlaneMesh) slamPlaneMesh.visible = false
         if (!worldPlaneBody) {
           worldPlaneBody = physics.addPlane(dominant.normal, dominant.constant)
@@ -518,23 +1186,36 @@ export async function startApp() {
     )
     cameraSunLight.target.updateMatrixWorld()
 
-    if (mode === 'runner') {
-      runner.setInput({ moveX: joy.state.moveX, jumpPressed })
-      runner.update()
-    }
-    if (mode === 'treasure') {
-      treasure.update(sceneBundle.camera)
-    }
+    // Games freeze while the world frame is unreliable so nothing falls through a floor that moved.
+    const paused = tracking.getStats().recovery !== 'tracking'
+    if (!paused) {
+      if (mode === 'runner') {
+        runner.setInput({ moveX: controls.moveX, jumpPressed: controls.jump })
+        runner.update()
+      }
+      if (mode === 'treasure') {
+        treasure.update(sceneBundle.camera)
+      }
 
-    physics.step(dt)
+      physics.step(dt)
 
-    if (mode === 'angry') {
-      angry.update(dt, sceneBundle.camera.position)
-      ui.scoreHud.textContent = `Score: ${angry.getScore()}`
+      if (mode === 'angry') {
+        angry.update(dt, sceneBundle.camera.position)
+        ui.scoreHud.textContent = `Score: ${angry.getScore()}`
+      }
     }
 
+    updateCalibration(t)
+    updateMarkers(t)
+    updateImuScale()
+    const showDepthView = depthViewShown()
+    ui.depthDebugHud.style.display = showDepthView ? 'flex' : 'none'
+    const showProbe = showDepthView && ui.chkDepthProbe.checked && depthProbe !== null
+    const overlayInUse = showSlamPoints || Boolean(calibration) || markersEnabled || showProbe
+    if (overlayInUse || overlayDirty) overlay2d.clearRect(0, 0, ui.overlayCanvas.width, ui.overlayCanvas.height)
+    overlayDirty = overlayInUse
+    if (showProbe) drawDepthProbe()
     if (showSlamPoints) {
-      overlay2d.clearRect(0, 0, ui.overlayCanvas.width, ui.overlayCanvas.height)
       const pts = tracking.getFramePoints()
       if (pts && pts.points.length > 0) {
         const w = ui.overlayCanvas.clientWidth || window.innerWidth
@@ -552,20 +1233,38 @@ export async function startApp() {
       }
     }
 
-    sceneBundle.renderer.render(sceneBundle.scene, sceneBundle.camera)
+    drawCalibration()
+    drawMarkers()
+
+    if (mode === 'snapshot') snapshot.render(dt)
+    else occlusion.render(sceneBundle.scene, sceneBundle.camera)
+    if (showDepthView) depthDebug.render()
 
-    if (t - lastStatsUi > 800 && baseStatus.startsWith('Tracking')) {
+    if (t - lastStatsUi > 800 && baseStatus.startsWith('Tracking') && !calibration) {
       const stats = tracking.getStats()
       const total = stats.tracked + stats.lost
       const quality = total > 0 ? stats.tracked / total : 0
       const jitterPos = stats.jitterPos
       const jitterAng = THREE.MathUtils.radToDeg(stats.jitterAng)
+      const conf = stats.fusion.confidence * 100
+      const map = stats.map ? ` | map ${stats.map}` : ''
+      const scale = stats.scale
+        ? ` | scale ${stats.scale.unitsPerMeter.toFixed(2)} ${stats.scale.locked ? 'locked' : `${(stats.scale.confidence * 100).toFixed(0)}%`}`
+        : ''
+      const proc = stats.processing
+        ? ` | slam ${stats.processing.targetFps}fps ${stats.processing.width}x${stats.processing.height} ${stats.processing.costMs.toFixed(0)}ms`
+        : ''
       setStatus(
-        `${baseStatus} | q ${(quality * 100).toFixed(0)}% | jitter ${jitterPos.toFixed(2)}m/s ${jitterAng.toFixed(1)}deg/s`,
+        `${baseStatus} | q ${(quality * 100).toFixed(0)}% | conf ${conf.toFixed(0)}%${stats.fusion.imu ? '' : ' (no IMU)'}${map}${scale}${proc} | jitter ${jitterPos.toFixed(2)}m/s ${jitterAng.toFixed(1)}deg/s`,
       )
       lastStatsUi = t
     }
 
+    if (t - lastTimelineUi > 500) {
+      drawTrackingTimeline()
+      lastTimelineUi = t
+    }
+
     if (t - perfLastLog > 2000) {
       const elapsed = (t - perfLastLog) / 1000
       const fps = perfFrames / Math.max(0.001, elapsed)
@@ -584,21 +1283,318 @@ export async function startApp() {
   }
   requestAnimationFrame(frame)
 
+  const timelineColors: Record<TrackingPhase, string> = {
+    idle: 'rgba(255,255,255,0.15)',
+    initializing: 'rgba(255,255,255,0.35)',
+    unavailable: 'rgba(255,255,255,0.15)',
+    tracking: '#3ccf6e',
+    waiting: '#f2b233',
+    relocalizing: '#4a8cf0',
+    softReset: '#f07a2a',
+    hardReset: '#e5484d',
+  }
+  const timelineCtx = ui.trackingTimeline.getContext('2d')
+  function drawTrackingTimeline() {
+    if (!timelineCtx) return
+    const { width, height } = ui.trackingTimeline
+    timelineCtx.clearRect(0, 0, width, height)
+    const segments = tracking.getTimeline()
+    if (segments.length === 0) return
+    const end = segments[segments.length - 1].end
+    const span = tracking.getTimelineSpanMs()
+    for (const s of segments) {
+      const x0 = Math.floor(((s.start - (end - span)) / span) * width)
+      const x1 = Math.ceil(((s.end - (end - span)) / span) * width)
+      timelineCtx.fillStyle = timelineColors[s.phase]
+      timelineCtx.fillRect(x0, 0, Math.max(1, x1 - x0), height)
+    }
+  }
+
+  function setDepthLocked(locked: boolean) {
+    // Depth results arrive asynchronously, so they are kept out of recorded/replayed sessions.
+    if (locked) {
+      runDepth = false
+      depthStream.clear()
+      occlusion.clear()
+      ui.chkRunDepth.checked = false
+    }
+    ui.chkRunDepth.disabled = locked
+  }
+
+  function currentMeta(): SessionMeta {
+    return {
+      mode,
+      scaleMeters,
+      viewport: { width: ui.overlayCanvas.clientWidth, height: ui.overlayCanvas.clientHeight },
+      tracking: tracking.getStats().mode,
+      intrinsics,
+    }
+  }
+
+  // Brings every simulated system to the same starting point for recording and replay.
+  function resetSimulation(meta: SessionMeta) {
+    scaleMeters = meta.scaleMeters
+    ui.scaleRange.value = String(meta.scaleMeters)
+    controls.moveX = 0
+    controls.jump = false
+    planeMapper.clear()
+    roomModel.clear()
+    occlusion.clear()
+    depthDebug.clear()
+    depthProbe = null
+    markerAnchor.reset()
+    markerOriginPinned = false
+    scaleLocked = false
+    ui.chkScaleLock.checked = false
+    tracking.setScaleLocked(false)
+    currentPlaneSource = null
+    lastPlaneSwitchT = 0
+    if (slamPlaneMesh) slamPlaneMesh.visible = false
+    if (worldPlaneBody) {
+      worldPlaneBody.position.set(0, 0, 0)
+      worldPlaneBody.quaternion.setFromVectors(new CANNON.Vec3(0, 0, 1), new CANNON.Vec3(0, 1, 0))
+    }
+    angry.clear()
+    treasure.clear()
+    runner.reset()
+    physics.resetClock()
+    setMode(meta.mode)
+  }
+
+  function simulationDigest() {
+    const pose = tracking.getPose()
+    const fmt = (v: number) => v.toFixed(4)
+    const parts = [
+      `pose ${[pose.position.x, pose.position.y, pose.position.z].map(fmt).join(',')}`,
+      `quat ${[pose.quaternion.x, pose.quaternion.y, pose.quaternion.z, pose.quaternion.w].map(fmt).join(',')}`,
+      `score ${angry.getScore()}`,
+      ...physics.world.bodies.map(
+        (b) => `body ${b.id} ${[b.position.x, b.position.y, b.position.z, b.velocity.x, b.velocity.y, b.velocity.z].map(fmt).join(',')}`,
+      ),
+    ]
+    const text = parts.join('\n')
+    // FNV-1a so two replays can be compared at a glance.
+    let hash = 0x811c9dc5
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i)
+      hash = Math.imul(hash, 0x01000193) >>> 0
+    }
+    return { text, hash: hash.toString(16).padStart(8, '0') }
+  }
+
+  async function toggleRecording() {
+    if (recorder.isRecording()) {
+      ui.btnRecord.textContent = 'Record'
+      setDepthLocked(false)
+      try {
+        const blob = await recorder.stop()
+        const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+        downloadBlob(blob, `session-${stamp}${SESSION_FILE_EXT}`)
+        setStatus(`Session saved (${(blob.size / 1e6).toFixed(1)} MB)`)
+      } catch (err) {
+        console.warn('[session] save failed', err)
+        setStatus('Session save failed')
+      }
+      return
+    }
+    if (!activeSource || replay) {
+      setStatus('Start a camera or file source before recording')
+      return
+    }
+    setDepthLocked(true)
+    await angry.preload()
+    await tracking.start(activeSource)
+    const meta = currentMeta()
+    recorder.start(meta, createSeed())
+    resetSimulation(meta)
+    ui.btnRecord.textContent = 'Stop rec'
+    setStatus('Recording session…')
+  }
+
+  async function startReplay(file: File) {
+    let archive
+    try {
+      archive = await decodeSessionArchive<AppInput, SessionMeta>(file)
+    } catch (err) {
+      console.warn('[session] cannot open archive', err)
+      setStatus(err instanceof Error ? err.message : 'Cannot open session archive')
+      return
+    }
+    if (recorder.isRecording()) await toggleRecording()
+    stopReplay()
+    stopCalibration()
+    activeSource?.stop()
+    activeSource = null
+    tracking.stop()
+
+    const next = createSessionReplay({ archive, canvas: ui.frameCanvas, sensors })
+    const meta = archive.manifest.meta
+    if (meta.viewport.width !== ui.overlayCanvas.clientWidth || meta.viewport.height !== ui.overlayCanvas.clientHeight) {
+      console.warn(
+        `[session] recorded at ${meta.viewport.width}x${meta.viewport.height}, replaying at ${ui.overlayCanvas.clientWidth}x${ui.overlayCanvas.clientHeight}`,
+      )
+    }
+    setDepthLocked(true)
+    ui.video.hidden = true
+    ui.frameCanvas.hidden = false
+    await angry.preload()
+    next.begin()
+    useIntrinsics(meta.intrinsics ?? null)
+    // WebXR cannot run on recorded frames; anything else replays on the backend it was recorded with.
+    await tracking.start(next.source, meta.tracking && meta.tracking !== 'webxr' ? meta.tracking : 'auto')
+    resetSimulation(meta)
+    replay = next
+    setStatus(`Replaying ${archive.manifest.ticks.length} ticks…`)
+  }
+
+  function stopReplay() {
+    if (!replay) return
+    replay.end()
+    replay = null
+    tracking.stop()
+    setDepthLocked(false)
+  }
+
+  function finishReplay() {
+    if (!replay) return
+    const digest = simulationDigest()
+    console.info(`[session] replay done hash=${digest.hash}\n${digest.text}`)
+    stopReplay()
+    setStatus(`Replay finished (state ${digest.hash})`)
+  }
+
+  ui.btnRecord.addEventListener('click', () => void toggleRecording())
+  ui.btnReplay.addEventListener('click', () => {
+    ui.fileReplay.value = ''
+    ui.fileReplay.click()
+  })
+  ui.fileReplay.addEventListener('change', () => {
+    const file = ui.fileReplay.files?.[0]
+    if (file) void startReplay(file)
+  })
+
+  async function saveCapture() {
+    if (!lastDepth) {
+      setStatus('Run depth before capturing')
+      return
+    }
+    try {
+      const blob = await createCaptureBundle(lastDepth, scaleMeters)
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+      downloadBlob(blob, `capture-${stamp}${CAPTURE_FILE_EXT}`)
+      setStatus(`Capture saved (${(blob.size / 1e6).toFixed(1)} MB)`)
+    } catch (err) {
+      console.warn('[capture] save failed', err)
+      setStatus('Capture save failed')
+    }
+  }
+
+  function closeCapture() {
+    if (!capturePreview) return
+    sceneBundle.scene.remove(capturePreview.mesh)
+    capturePreview.geometry.dispose()
+    capturePreview.texture.dispose()
+    ;(capturePreview.mesh.material as THREE.Material).dispose()
+    capturePreview = null
+    ui.btnOpenCapture.textContent = 'Open capture…'
+  }
+
+  /** Shows a saved capture as its depth mesh, floating in front of the camera. */
+  async function openCapture(file: File) {
+    let opened
+    try {
+      opened = await openCaptureBundle(file)
+    } catch (err) {
+      console.warn('[capture] cannot open', err)
+      setStatus(err instanceof Error ? err.message : 'Cannot open capture')
+      return
+    }
+    closeCapture()
+    capturePreview = createDepthMesh(opened.depth)
+    const { mesh } = capturePreview
+    const forward = new THREE.Vector3(0, 0, -1).applyQuaternion(sceneBundle.camera.quaternion)
+    mesh.position.copy(sceneBundle.camera.position).addScaledVector(forward, 1.5 * scaleMeters)
+    mesh.quaternion.copy(sceneBundle.camera.quaternion)
+    mesh.scale.setScalar(scaleMeters)
+    sceneBundle.scene.add(mesh)
+    ui.btnOpenCapture.textContent = 'Close capture'
+    const { manifest } = opened
+    console.info('[capture] opened', manifest)
+    setStatus(`Capture ${manifest.width}x${manifest.height} from ${manifest.createdAt}`)
+  }
+
+  ui.btnCapture.addEventListener('click', () => void saveCapture())
+  ui.btnOpenCapture.addEventListener('click', () => {
+    if (capturePreview) {
+      closeCapture()
+      return
+    }
+    ui.fileCapture.value = ''
+    ui.fileCapture.click()
+  })
+  ui.fileCapture.addEventListener('change', () => {
+    const file = ui.fileCapture.files?.[0]
+    if (file) void openCapture(file)
+  })
+
+  async function createSelectedSource(): Promise<FrameSource | null> {
+    if (sourceKind === 'camera') return createCameraSource(ui.video)
+    const files = ui.fileSource.files
+    if (!files || files.length === 0) {
+      setStatus(sourceKind === 'video' ? 'Pick a video file first' : 'Pick an image folder first')
+      return null
+    }
+    if (sourceKind === 'video') return createVideoFileSource(ui.video, files[0])
+    const frames = await collectImageSequence(files)
+    return createImageSequenceSource(ui.frameCanvas, frames)
+  }
+
   ui.btnStart.addEventListener('click', async () => {
-    setStatus('Starting camera…')
-    const res = await startRearCamera(ui.video)
+    const source = await createSelectedSource()
+    if (!source) return
+    stopReplay()
+    setStatus(source.kind === 'camera' ? 'Starting camera…' : 'Opening recording…')
+    // The previous source keeps running until the new one is up, so a failed start leaves it in place.
+    const previous = activeSource
+    const res = await source.start()
     if (!res.ok) {
+      // Releases what the attempt took (object URL, element).
+      source.stop()
+      // A source on the same element lost it to the attempt; bring it back or stop cleanly.
+      if (previous && previous.element === source.element) {
+        const restored = await previous.start()
+        if (!restored.ok) {
+          previous.stop()
+          activeSource = null
+          tracking.stop()
+        }
+      }
       setStatus(res.error)
       return
     }
-    activeStream = res.stream
-    await tracking.start()
-    setStatus('Camera running. Tracking initialized.')
+    previous?.stop()
+    activeSource = source
+    ui.video.hidden = source.element !== ui.video
+    ui.frameCanvas.hidden = source.element !== ui.frameCanvas
+    await source.whenReady(1000)
+    const resolved = resolveSourceIntrinsics(source)
+    useIntrinsics(resolved.intrinsics)
+    console.info(`[intrinsics] ${resolved.calibrated ? 'profile' : 'default'} ${describeIntrinsics(resolved.intrinsics)}`)
+    await tracking.start(source)
+    const calibrated = resolved.calibrated ? ' (calibrated camera)' : ''
+    setStatus(
+      source.kind === 'camera'
+        ? `Camera running${calibrated}. Tracking initialized.`
+        : `Playback running${calibrated}. Tracking initialized.`,
+    )
   })
 
-  ui.btnStop.addEventListener('click', () => {
-    stopCamera(activeStream)
-    activeStream = null
+  ui.btnStop.addEventListener('click', async () => {
+    if (recorder.isRecording()) await toggleRecording()
+    stopReplay()
+    stopCalibration()
+    activeSource?.stop()
+    activeSource = null
     tracking.stop()
     setStatus('Stopped')
   })
@@ -1,54 +1,107 @@
 import type { DepthResult } from './depth'
 
+export type DepthColormap = 'turbo' | 'viridis' | 'grayscale'
+
+export const DEPTH_COLORMAPS: DepthColormap[] = ['turbo', 'viridis', 'grayscale']
+
+// RGB per `SURFACE_CLASSES` entry: unknown, up, down, vertical, clutter.
+export const SURFACE_CLASS_COLORS: [number, number, number][] = [
+  [0, 0, 0],
+  [60, 200, 90],
+  [220, 80, 200],
+  [70, 130, 255],
+  [240, 170, 40],
+]
+
 function clamp01(v: number) {
   return Math.max(0, Math.min(1, v))
 }
 
+// Polynomial fits of Turbo (Google, Apache 2.0) and Viridis (matplotlib, CC0); accurate to a few
+// 8-bit steps, which is plenty for a debug view.
+const TURBO = [
+  [0.13572138, 4.6153926, -42.66032258, 132.13108234, -152.94239396, 59.28637943],
+  [0.09140261, 2.19418839, 4.84296658, -14.18503333, 4.27729857, 2.82956604],
+  [0.1066733, 12.64194608, -60.58204836, 110.36276771, -89.90310912, 27.34824973],
+]
+const VIRIDIS = [
+  [0.2777273272234177, 0.1050930431085774, -0.3308618287255563, -4.634230498983486, 6.228269936347081, 4.776384997670288, -5.435455855934631],
+  [0.005407344544966578, 1.404613529898575, 0.214847559468213, -5.799100973351585, 14.17993336680509, -13.74514537774601, 4.645852612178535],
+  [0.3340998053353061, 1.384590162594685, 0.09509516302823659, -19.33244095627987, 56.69055260068105, -65.35303263337234, 26.3124352495832],
+]
+
+function polynomial(coeffs: number[], t: number) {
+  let v = 0
+  for (let i = coeffs.length - 1; i >= 0; i--) v = v * t + coeffs[i]
+  return v
+}
+
+/** Color of `t` (0..1) in the colormap as 0..255 RGB. */
+export function colormapRgb(name: DepthColormap, t: number): [number, number, number] {
+  const x = clamp01(t)
+  if (name === 'grayscale') {
+    const v = Math.round(255 * x)
+    return [v, v, v]
+  }
+  const fit = name === 'turbo' ? TURBO : VIRIDIS
+  return [
+    Math.round(255 * clamp01(polynomial(fit[0], x))),
+    Math.round(255 * clamp01(polynomial(fit[1], x))),
+    Math.round(255 * clamp01(polynomial(fit[2], x))),
+  ]
+}
+
+/** `size`×1 RGBA lookup table of the colormap, for upload as a texture. */
+export function createColormapLut(name: DepthColormap, size = 256) {
+  const lut = new Uint8Array(size * 4)
+  for (let i = 0; i < size; i++) {
+    const [r, g, b] = colormapRgb(name, i / (size - 1))
+    lut[i * 4] = r
+    lut[i * 4 + 1] = g
+    lut[i * 4 + 2] = b
+    lut[i * 4 + 3] = 255
+  }
+  return lut
+}
+
 export function sampleDepth01At(depth: DepthResult, x01: number, y01: number) {
   const x = Math.floor(clamp01(x01) * (depth.width - 1))
   const y = Math.floor(clamp01(y01) * (depth.height - 1))
   return depth.depth01[y * depth.width + x] ?? 0.5
 }
 
-export function drawDepthOverlay(
+/** Counts of `depth01` over `bins` equal bins; non-finite values are skipped. */
+export function depthHistogram(depth: DepthResult, bins = 64) {
+  const counts = new Uint32Array(bins)
+  for (const d of depth.depth01) {
+    if (!Number.isFinite(d)) continue
+    counts[Math.min(bins - 1, Math.floor(clamp01(d) * bins))]++
+  }
+  return counts
+}
+
+/**
+ * Bar chart of a histogram, bars colored like the depth view (`invert`: near, i.e. low `depth01`,
+ * takes the top of the colormap).
+ */
+export function drawDepthHistogram(
   ctx: CanvasRenderingContext2D,
-  overlayCanvas: HTMLCanvasElement,
-  depth: DepthResult,
+  counts: Uint32Array,
+  colormap: DepthColormap,
+  invert = true,
 ) {
-  const rect = overlayCanvas.getBoundingClientRect()
-  const w = rect.width || window.innerWidth
-  const h = rect.height || window.innerHeight
-
-  // Draw into CSS pixel space (mask controller uses DPR transform similarly).
-  const dpr = overlayCanvas.width / w
-  ctx.save()
-  ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
-
-  // Nearest neighbor upscale depth -> screen (debug)
-  const img = ctx.createImageData(w, h)
-  const out = img.data
-
-  for (let y = 0; y < h; y++) {
-    const sy = Math.floor((y / (h - 1)) * (depth.height - 1))
-    for (let x = 0; x < w; x++) {
-      const sx = Math.floor((x / (w - 1)) * (depth.width - 1))
-      const d = depth.depth01[sy * depth.width + sx] ?? 0.5
-      // Grayscale (easier to read than a colormap for debugging)
-      const v = Math.floor(255 * clamp01(1 - d)) // invert so near is brighter
-      const r = v
-      const g = v
-      const b = v
-
-      const idx = (y * w + x) * 4
-      out[idx + 0] = r
-      out[idx + 1] = g
-      out[idx + 2] = b
-      out[idx + 3] = 160 // alpha
-    }
+  const { width: w, height: h } = ctx.canvas
+  ctx.clearRect(0, 0, w, h)
+  let peak = 0
+  for (const c of counts) peak = Math.max(peak, c)
+  if (peak === 0) return
+  const barW = w / counts.length
+  for (let i = 0; i < counts.length; i++) {
+    const t = (i + 0.5) / counts.length
+    const [r, g, b] = colormapRgb(colormap, invert ? 1 - t : t)
+    // Square root keeps small bins visible next to a dominant one.
+    const barH = Math.sqrt(counts[i] / peak) * h
+    ctx.fillStyle = `rgb(${r},${g},${b})`
+    ctx.fillRect(i * barW, h - barH, Math.max(1, barW - 0.5), barH)
   }
-
-  ctx.putImageData(img, 0, 0)
-  ctx.restore()
 }
-
-
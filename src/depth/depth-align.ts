@@ -0,0 +1,174 @@
+import * as THREE from 'three'
+import { random } from '../session/clock'
+import type { DepthResult } from './depth'
+import { getDepthModel } from './models'
+
+/**
+ * Per-frame fit of the model output to metric depth. Disparity-like models are fitted in inverse
+ * depth (`1/z = scale·x + shift`, x the model's value), the others in depth (`z = scale·x + shift`).
+ */
+export type DepthAlignment = {
+  space: 'inverse' | 'depth'
+  scale: number
+  shift: number
+  /** RMS relative depth error over the inliers (0.1 = 10%). */
+  residual: number
+  inliers: number
+  /** Feature points that landed on the depth grid. */
+  samples: number
+}
+
+export type DepthAlignOptions = {
+  /** Fewer projected points than this leave the frame unaligned. */
+  minSamples: number
+  /** Fraction of the samples that has to agree with the fit. */
+  minInlierRatio: number
+  /** Relative depth error below which a sample agrees with a fit. */
+  inlierThreshold: number
+  iterations: number
+  /** Aligned depths outside this range are marked unknown (meters). */
+  minMeters: number
+  maxMeters: number
+}
+
+const DEFAULTS: DepthAlignOptions = {
+  minSamples: 8,
+  minInlierRatio: 0.5,
+  inlierThreshold: 0.15,
+  iterations: 64,
+  minMeters: 0.1,
+  maxMeters: 20,
+}
+
+type Sample = { x: number; z: number }
+
+function predict(space: DepthAlignment['space'], scale: number, shift: number, x: number) {
+  const v = scale * x + shift
+  if (space === 'depth') return v
+  return v > 1e-6 ? 1 / v : Infinity
+}
+
+function countInliers(samples: Sample[], space: DepthAlignment['space'], scale: number, shift: number, threshold: number) {
+  let n = 0
+  for (const s of samples) if (Math.abs(predict(space, scale, shift, s.x) - s.z) / s.z < threshold) n++
+  return n
+}
+
+/**
+ * Weighted least squares of `target = scale·x + shift` where the weights turn residuals into
+ * relative depth errors; null when degenerate.
+ */
+function fitLine(samples: Sample[], space: DepthAlignment['space']) {
+  let sw = 0
+  let sx = 0
+  let sy = 0
+  let sxx = 0
+  let sxy = 0
+  for (const s of samples) {
+    const y = space === 'inverse' ? 1 / s.z : s.z
+    // d(1/z) ≈ dz/z², so an inverse-depth residual times z is the relative depth error.
+    const w = space === 'inverse' ? s.z * s.z : 1 / (s.z * s.z)
+    sw += w
+    sx += w * s.x
+    sy += w * y
+    sxx += w * s.x * s.x
+    sxy += w * s.x * y
+  }
+  const det = sw * sxx - sx * sx
+  if (Math.abs(det) < 1e-12) return null
+  const scale = (sw * sxy - sx * sy) / det
+  const shift = (sy - scale * sx) / sw
+  return scale > 0 ? { scale, shift } : null
+}
+
+/**
+ * Projects world-space feature points (`TrackingController.getFeaturePoints`) into the depth frame
+ * through its capture pose and intrinsics and fits the model output to their distances (RANSAC over
+ * pairs, refined on the inliers). Returns the result with `metric` and `alignment` set, or unchanged
+ * when the frame cannot be aligned.
+ */
+export function alignDepth(
+  depth: DepthResult,
+  points: THREE.Vector3[],
+  unitsPerMeter: number,
+  opts?: Partial<DepthAlignOptions>,
+): DepthResult {
+  const o: DepthAlignOptions = { ...DEFAULTS, ...(opts ?? {}) }
+  const k = depth.intrinsics
+  const pose = depth.frame?.pose
+  if (!k || !pose || points.length < o.minSamples) return depth
+
+  const model = getDepthModel(depth.model)
+  const space: DepthAlignment['space'] = model.output.near === 'high' ? 'inverse' : 'depth'
+  // The model's own output, whatever normalization `depth01` went through.
+  const valueAt = (i: number) => depth.raw[i]
+  const minSpread = 1e-3 * Math.max(1e-6, depth.max - depth.min)
+
+  const toCamera = new THREE.Matrix4().compose(pose.position, pose.quaternion, new THREE.Vector3(1, 1, 1)).invert()
+  const c = new THREE.Vector3()
+  const samples: Sample[] = []
+  for (const p of points) {
+    c.copy(p).applyMatrix4(toCamera)
+    const z = -c.z
+    if (z <= 0) continue
+    const u = Math.floor(k.fx * (c.x / z) + k.cx)
+    const v = Math.floor(k.cy - k.fy * (c.y / z))
+    if (u < 0 || v < 0 || u >= depth.width || v >= depth.height) continue
+    const zm = z / Math.max(1e-6, unitsPerMeter)
+    if (zm < o.minMeters || zm > o.maxMeters) continue
+    samples.push({ x: valueAt(v * depth.width + u), z: zm })
+  }
+  if (samples.length < o.minSamples) return depth
+
+  let best: { scale: number; shift: number } | null = null
+  let bestInliers = 0
+  for (let it = 0; it < o.iterations; it++) {
+    const a = samples[Math.floor(random() * samples.length)]
+    const b = samples[Math.floor(random() * samples.length)]
+    if (a === b || Math.abs(a.x - b.x) < minSpread) continue
+    const fit = fitLine([a, b], space)
+    if (!fit) continue
+    const n = countInliers(samples, space, fit.scale, fit.shift, o.inlierThreshold)
+    if (n > bestInliers) {
+      bestInliers = n
+      best = fit
+    }
+  }
+  if (!best) return depth
+
+  // Refit on the inliers (twice: the refit can pick up a few more).
+  let inliers: Sample[] = []
+  for (let pass = 0; pass < 2; pass++) {
+    const fit: { scale: number; shift: number } = best
+    inliers = samples.filter((s) => Math.abs(predict(space, fit.scale, fit.shift, s.x) - s.z) / s.z < o.inlierThreshold)
+    const refit = inliers.length >= 2 ? fitLine(inliers, space) : null
+    if (!refit) break
+    best = refit
+  }
+  if (inliers.length < Math.max(o.minSamples, samples.length * o.minInlierRatio)) return depth
+
+  let sq = 0
+  for (const s of inliers) {
+    const e = (predict(space, best.scale, best.shift, s.x) - s.z) / s.z
+    sq += e * e
+  }
+
+  const metric = new Float32Array(depth.depth01.length)
+  for (let i = 0; i < metric.length; i++) {
+    const z = predict(space, best.scale, best.shift, valueAt(i))
+    metric[i] = z >= o.minMeters && z <= o.maxMeters ? z : 0
+  }
+
+  return {
+    ...depth,
+    metric,
+    alignment: {
+      space,
+      scale: best.scale,
+      shift: best.shift,
+      residual: Math.sqrt(sq / inliers.length),
+      inliers: inliers.length,
+      samples: samples.length,
+    },
+  }
+}
@@ -0,0 +1,264 @@
+import * as THREE from 'three'
+import type { DepthResult } from './depth'
+import type { DepthSurfaceMap } from './depth-surfaces'
+import {
+  createColormapLut,
+  depthHistogram,
+  drawDepthHistogram,
+  sampleDepth01At,
+  SURFACE_CLASS_COLORS,
+  type DepthColormap,
+} from './colormap'
+
+/** What the debug view shows: colormapped depth, the normal map, or the orientation classes. */
+export type DepthDebugContent = 'depth' | 'normals' | 'classes'
+
+export type DepthDebugOptions = {
+  opacity: number
+  histogramBins: number
+}
+
+const DEFAULTS: DepthDebugOptions = {
+  opacity: 0.63,
+  histogramBins: 64,
+}
+
+export type DepthProbe = {
+  depth01: number
+  /** Model output at the pixel, in the units of `DepthResult.raw`. */
+  raw: number
+  /** Aligned distance along the optical axis; null for unaligned frames. */
+  meters: number | null
+  /** Back-projected world position; null without metric depth, intrinsics or a capture pose. */
+  world: THREE.Vector3 | null
+}
+
+/** Value at a screen position (0..1, the depth grid covers the viewport) and where it lies in the world. */
+export function probeDepth(depth: DepthResult, x01: number, y01: number, unitsPerMeter: number): DepthProbe {
+  const x = Math.floor(THREE.MathUtils.clamp(x01, 0, 1) * (depth.width - 1))
+  const y = Math.floor(THREE.MathUtils.clamp(y01, 0, 1) * (depth.height - 1))
+  const i = y * depth.width + x
+  const m = depth.metric?.[i] ?? 0
+  const meters = m > 0 ? m : null
+  const k = depth.intrinsics
+  const frame = depth.frame
+  let world: THREE.Vector3 | null = null
+  if (meters !== null && k && frame) {
+    const z = meters * unitsPerMeter
+    world = new THREE.Vector3(((x + 0.5 - k.cx) / k.fx) * z, (-(y + 0.5 - k.cy) / k.fy) * z, -z)
+      .applyQuaternion(frame.pose.quaternion)
+      .add(frame.pose.position)
+  }
+  return { depth01: sampleDepth01At(depth, x01, y01), raw: depth.raw[i] ?? NaN, meters, world }
+}
+
+const vertexShader = /* glsl */ `
+varying vec2 vUv;
+void main() {
+  vUv = uv;
+  gl_Position = vec4(position.xy, 0.0, 1.0);
+}
+`
+
+// Depth goes through the colormap lookup table; normals and classes arrive already colored. No
+// colorspace conversion, so the colormaps keep their published sRGB values.
+const fragmentShader = /* glsl */ `
+uniform sampler2D tDepth;
+uniform sampler2D tColor;
+uniform sampler2D tLut;
+uniform bool colored;
+uniform float opacity;
+varying vec2 vUv;
+
+void main() {
+  // Row 0 of the depth grid is the top of the screen.
+  vec2 uv = vec2(vUv.x, 1.0 - vUv.y);
+  vec3 rgb;
+  if (colored) {
+    rgb = texture2D(tColor, uv).rgb;
+  } else {
+    float d = texture2D(tDepth, uv).r;
+    // Near (low depth01) takes the top of the colormap.
+    rgb = texture2D(tLut, vec2(clamp(1.0 - d, 0.0, 1.0), 0.5)).rgb;
+  }
+  gl_FragColor = vec4(rgb, opacity);
+}
+`
+
+/**
+ * Full-screen debug view of the latest depth frame, drawn as a textured quad over the rendered
+ * scene, plus a `depth01` histogram on a small 2D canvas. Uploads happen once per depth frame.
+ */
+export function createDepthDebugView(params: {
+  renderer: THREE.WebGLRenderer
+  histogramCanvas: HTMLCanvasElement
+  opts?: Partial<DepthDebugOptions>
+}) {
+  const { renderer, histogramCanvas } = params
+  const o: DepthDebugOptions = { ...DEFAULTS, ...(params.opts ?? {}) }
+  const histogram2d = histogramCanvas.getContext('2d')
+
+  let content: DepthDebugContent = 'depth'
+  let colormap: DepthColormap = 'turbo'
+  let depth: DepthResult | null = null
+  let surfaces: DepthSurfaceMap | null = null
+  let counts: Uint32Array | null = null
+  let depthTexture: THREE.DataTexture | null = null
+  let colorTexture: THREE.DataTexture | null = null
+
+  const lutTexture = new THREE.DataTexture(createColormapLut(colormap), 256, 1)
+  lutTexture.magFilter = THREE.LinearFilter
+  lutTexture.minFilter = THREE.LinearFilter
+  lutTexture.needsUpdate = true
+
+  const material = new THREE.ShaderMaterial({
+    vertexShader,
+    fragmentShader,
+    uniforms: {
+      tDepth: { value: null },
+      tColor: { value: null },
+      tLut: { value: lutTexture },
+      colored: { value: false },
+      opacity: { value: o.opacity },
+    },
+    transparent: true,
+    depthTest: false,
+    depthWrite: false,
+  })
+  const quadScene = new THREE.Scene()
+  const quadCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1)
+  const quad = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), material)
+  quad.frustumCulled = false
+  quadScene.add(quad)
+
+  /** Reuses `texture` when the grid size matches, otherwise replaces it. */
+  function sizedTexture(
+    texture: THREE.DataTexture | null,
+    width: number,
+    height: number,
+    create: () => THREE.DataTexture,
+  ) {
+    if (texture && texture.image.width === width && texture.image.height === height) return texture
+    texture?.dispose()
+    return create()
+  }
+
+  function uploadDepth() {
+    if (!depth) return
+    const { width: w, height: h } = depth
+    depthTexture = sizedTexture(depthTexture, w, h, () => {
+      const t = new THREE.DataTexture(new Float32Array(w * h), w, h, THREE.RedFormat, THREE.FloatType)
+      // Float textures are not filterable everywhere.
+      t.minFilter = THREE.NearestFilter
+      t.magFilter = THREE.NearestFilter
+      return t
+    })
+    ;(depthTexture.image.data as Float32Array).set(depth.depth01)
+    depthTexture.needsUpdate = true
+    material.uniforms.tDepth.value = depthTexture
+  }
+
+  /** Normals or class colors of the surface map as RGBA; needs a map of the same grid. */
+  function uploadColor() {
+    const map = surfaces
+    const usable = content !== 'depth' && map && depth && map.width === depth.width && map.height === depth.height
+    material.uniforms.colored.value = Boolean(usable)
+    if (!usable) return
+    const { width: w, height: h } = map
+    colorTexture = sizedTexture(colorTexture, w, h, () => {
+      const t = new THREE.DataTexture(new Uint8Array(w * h * 4), w, h)
+      t.minFilter = THREE.NearestFilter
+      t.magFilter = THREE.NearestFilter
+      return t
+    })
+    const out = colorTexture.image.data as Uint8Array
+    for (let i = 0; i < w * h; i++) {
+      let r: number
+      let g: number
+      let b: number
+      if (content === 'normals') {
+        // Camera-frame normal mapped to RGB; unknown pixels (zero normal) come out mid-gray.
+        r = Math.floor(127.5 * (map.normals[i * 3] + 1))
+        g = Math.floor(127.5 * (map.normals[i * 3 + 1] + 1))
+        b = Math.floor(127.5 * (map.normals[i * 3 + 2] + 1))
+      } else {
+        ;[r, g, b] = SURFACE_CLASS_COLORS[map.classes[i]] ?? SURFACE_CLASS_COLORS[0]
+      }
+      out[i * 4] = r
+      out[i * 4 + 1] = g
+      out[i * 4 + 2] = b
+      out[i * 4 + 3] = 255
+    }
+    colorTexture.needsUpdate = true
+    material.uniforms.tColor.value = colorTexture
+  }
+
+  function drawHistogram() {
+    if (histogram2d && counts) drawDepthHistogram(histogram2d, counts, colormap)
+  }
+
+  /** Takes a new depth frame (and the surface map the plane mapper built for it, if any). */
+  function setDepth(next: DepthResult, nextSurfaces: DepthSurfaceMap | null) {
+    depth = next
+    surfaces = nextSurfaces
+    counts = depthHistogram(next, o.histogramBins)
+    uploadDepth()
+    uploadColor()
+    drawHistogram()
+  }
+
+  function setContent(next: DepthDebugContent) {
+    if (next === content) return
+    content = next
+    uploadColor()
+  }
+
+  function setColormap(next: DepthColormap) {
+    if (next === colormap) return
+    colormap = next
+    ;(lutTexture.image.data as Uint8Array).set(createColormapLut(next))
+    lutTexture.needsUpdate = true
+    drawHistogram()
+  }
+
+  /** Draws the view over whatever is already on the canvas. */
+  function render() {
+    if (!depth) return
+    const autoClear = renderer.autoClear
+    renderer.autoClear = false
+    renderer.render(quadScene, quadCamera)
+    renderer.autoClear = autoClear
+  }
+
+  function clear() {
+    depth = null
+    surfaces = null
+    counts = null
+    depthTexture?.dispose()
+    colorTexture?.dispose()
+    depthTexture = null
+    colorTexture = null
+    material.uniforms.tDepth.value = null
+    material.uniforms.tColor.value = null
+    histogram2d?.clearRect(0, 0, histogramCanvas.width, histogramCanvas.height)
+  }
+
+  function dispose() {
+    clear()
+    lutTexture.dispose()
+    material.dispose()
+    quad.geometry.dispose()
+  }
+
+  return {
+    setDepth,
+    setContent,
+    setColormap,
+    render,
+    hasDepth: () => depth !== null,
+    clear,
+    dispose,
+  }
+}
+
+export type DepthDebugView = ReturnType<typeof createDepthDebugView>
@@ -0,0 +1,320 @@
+import * as THREE from 'three'
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js'
+import { OBJExporter } from 'three/examples/jsm/exporters/OBJExporter.js'
+import type { CameraIntrinsics } from '../mr/camera/intrinsics'
+import type { FrameBundle } from '../mr/frames/frame-bundle'
+import { crc32, decodeZip, encodeZip, type ZipEntry } from '../session/zip'
+import type { DepthResult } from './depth'
+import type { DepthAlignment } from './depth-align'
+import { createDepthMesh } from './depth-mesh'
+
+export const CAPTURE_FILE_EXT = '.zip'
+
+export type CaptureExportOptions = {
+  /** Depth pixels per point along each axis in the PLY. */
+  plyStride: number
+  jpegQuality: number
+  /** Also export `createDepthMesh` as OBJ (+MTL) and GLB. */
+  mesh: boolean
+}
+
+const DEFAULTS: CaptureExportOptions = {
+  plyStride: 2,
+  jpegQuality: 0.92,
+  mesh: true,
+}
+
+/** Horizontal field of view assumed for the point cloud when the capture had no intrinsics. */
+const ASSUMED_HFOV_DEG = 60
+
+/** `capture.json`: everything besides pixels needed to interpret (and reopen) a capture. */
+export type CaptureManifest = {
+  version: 1
+  createdAt: string
+  width: number
+  height: number
+  model?: string
+  normalization: DepthResult['normalization']
+  min: number
+  max: number
+  /** Depth-grid pinhole model; assumed (see `intrinsicsAssumed`) when the capture had none. */
+  intrinsics: CameraIntrinsics
+  intrinsicsAssumed: boolean
+  /** Capture time and pose in the app's world frame (world units, see `unitsPerMeter`). */
+  frame?: Omit<FrameBundle, 'pose'> & { pose: { position: number[]; quaternion: number[] } }
+  unitsPerMeter: number
+  alignment?: DepthAlignment
+  crop: DepthResult['crop']
+  sourceWidth: number
+  sourceHeight: number
+  timestamp: number
+  /**
+   * `depth.png` is 16-bit grayscale: millimeters along the camera axis (0 = unknown) for aligned
+   * captures, otherwise `depth01 * 65535`.
+   */
+  depthPng: { encoding: 'millimeters' | 'depth01' }
+  /** `points.ply` is in the capture camera frame (x right, y up, looking down -z). */
+  points: { count: number; units: 'meters' | 'relative' }
+  files: string[]
+}
+
+function nominalIntrinsics(width: number, height: number): CameraIntrinsics {
+  const f = width / 2 / Math.tan(THREE.MathUtils.degToRad(ASSUMED_HFOV_DEG / 2))
+  return { width, height, fx: f, fy: f, cx: width / 2, cy: height / 2 }
+}
+
+function pngChunk(type: string, data: Uint8Array) {
+  const chunk = new Uint8Array(12 + data.length)
+  const view = new DataView(chunk.buffer)
+  view.setUint32(0, data.length)
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i)
+  chunk.set(data, 8)
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)))
+  return chunk
+}
+
+/** 16-bit grayscale PNG; canvases only produce 8 bits per channel, so this encodes it directly. */
+export async function encodePng16(values: Uint16Array, width: number, height: number): Promise<Blob> {
+  // Each row: filter type 0 then big-endian samples.
+  const rowBytes = 1 + width * 2
+  const raw = new Uint8Array(rowBytes * height)
+  const view = new DataView(raw.buffer)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) view.setUint16(y * rowBytes + 1 + x * 2, values[y * width + x])
+  }
+  const zlib = new Uint8Array(
+    await new Response(new Blob([raw]).stream().pipeThrough(new CompressionStream('deflate'))).arrayBuffer(),
+  )
+
+  const header = new Uint8Array(13)
+  const hv = new DataView(header.buffer)
+  hv.setUint32(0, width)
+  hv.setUint32(4, height)
+  header[8] = 16 // bit depth
+  header[9] = 0 // grayscale
+  const signature = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+  return new Blob([signature, pngChunk('IHDR', header), pngChunk('IDAT', zlib), pngChunk('IEND', new Uint8Array())], {
+    type: 'image/png',
+  })
+}
+
+export function encodeDepthPng(depth: DepthResult) {
+  const n = depth.width * depth.height
+  const values = new Uint16Array(n)
+  if (depth.metric) {
+    for (let i = 0; i < n; i++) values[i] = Math.min(65535, Math.round(depth.metric[i] * 1000))
+  } else {
+    for (let i = 0; i < n; i++) values[i] = Math.round(THREE.MathUtils.clamp(depth.depth01[i], 0, 1) * 65535)
+  }
+  return encodePng16(values, depth.width, depth.height)
+}
+
+/** The capture's RGB resampled onto the depth grid, for per-point colors. */
+function colorsOnDepthGrid(depth: DepthResult) {
+  const canvas = document.createElement('canvas')
+  canvas.width = depth.width
+  canvas.height = depth.height
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  if (!ctx) throw new Error('2D context unavailable for export')
+  ctx.drawImage(depth.rgbCanvas, 0, 0, depth.width, depth.height)
+  return ctx.getImageData(0, 0, depth.width, depth.height).data
+}
+
+/**
+ * Binary PLY of the back-projected depth grid with colors, in the capture camera frame: meters for
+ * aligned captures, `depth01` as relative depth otherwise.
+ */
+export function encodePointCloudPly(depth: DepthResult, k: CameraIntrinsics, stride = DEFAULTS.plyStride) {
+  const rgba = colorsOnDepthGrid(depth)
+  const step = Math.max(1, Math.floor(stride))
+  const w = depth.width
+  const points: number[] = []
+  for (let v = 0; v < depth.height; v += step) {
+    for (let u = 0; u < w; u += step) {
+      const i = v * w + u
+      const z = depth.metric ? depth.metric[i] : depth.depth01[i]
+      if (!(z > 0)) continue
+      points.push(i, z)
+    }
+  }
+
+  const count = points.length / 2
+  const header = [
+    'ply',
+    'format binary_little_endian 1.0',
+    `element vertex ${count}`,
+    'property float x',
+    'property float y',
+    'property float z',
+    'property uchar red',
+    'property uchar green',
+    'property uchar blue',
+    'end_header',
+    '',
+  ].join('\n')
+  const body = new DataView(new ArrayBuffer(count * 15))
+  for (let n = 0; n < count; n++) {
+    const i = points[n * 2]
+    const z = points[n * 2 + 1]
+    const u = i % w
+    const v = Math.floor(i / w)
+    const o = n * 15
+    body.setFloat32(o, ((u + 0.5 - k.cx) / k.fx) * z, true)
+    body.setFloat32(o + 4, (-(v + 0.5 - k.cy) / k.fy) * z, true)
+    body.setFloat32(o + 8, -z, true)
+    body.setUint8(o + 12, rgba[i * 4])
+    body.setUint8(o + 13, rgba[i * 4 + 1])
+    body.setUint8(o + 14, rgba[i * 4 + 2])
+  }
+  return { blob: new Blob([header, body.buffer], { type: 'application/octet-stream' }), count }
+}
+
+/** OBJ with an MTL that textures it with `textureFile` (written next to it). */
+export function exportMeshObj(mesh: THREE.Mesh, textureFile: string, baseName = 'mesh') {
+  const obj = `mtllib ${baseName}.mtl\nusemtl capture\n${new OBJExporter().parse(mesh)}`
+  const mtl = ['newmtl capture', 'Ka 1 1 1', 'Kd 1 1 1', 'Ks 0 0 0', 'illum 1', `map_Kd ${textureFile}`, ''].join('\n')
+  return { obj: new Blob([obj], { type: 'text/plain' }), mtl: new Blob([mtl], { type: 'text/plain' }) }
+}
+
+/** Binary glTF with the texture embedded. */
+export async function exportMeshGlb(mesh: THREE.Mesh): Promise<Blob> {
+  const out = await new GLTFExporter().parseAsync(mesh, { binary: true })
+  if (!(out instanceof ArrayBuffer)) throw new Error('GLB export returned JSON')
+  return new Blob([out], { type: 'model/gltf-binary' })
+}
+
+function canvasToJpeg(canvas: HTMLCanvasElement, quality: number) {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('JPEG encoding failed'))), 'image/jpeg', quality)
+  })
+}
+
+function floatBlob(values: Float32Array) {
+  // Copy: the buffer may be larger than the view, and its byte order is the platform's (little-endian everywhere we run).
+  return new Blob([values.slice()], { type: 'application/octet-stream' })
+}
+
+/**
+ * One ZIP with a depth capture: `depth.png` (16-bit), `rgb.jpg`, `capture.json` (pose, intrinsics,
+ * alignment, crop), `points.ply`, the depth mesh as `mesh.obj`/`mesh.mtl` and `mesh.glb`, and the
+ * float grids (`depth01.f32`, `raw.f32`, `metric.f32`) that `openCaptureBundle` reads back.
+ */
+export async function createCaptureBundle(
+  depth: DepthResult,
+  unitsPerMeter: number,
+  opts?: Partial<CaptureExportOptions>,
+): Promise<Blob> {
+  const o: CaptureExportOptions = { ...DEFAULTS, ...(opts ?? {}) }
+  const k = depth.intrinsics ?? nominalIntrinsics(depth.width, depth.height)
+  const entries: ZipEntry[] = []
+
+  entries.push({ name: 'depth.png', data: await encodeDepthPng(depth) })
+  entries.push({ name: 'rgb.jpg', data: await canvasToJpeg(depth.rgbCanvas, o.jpegQuality) })
+  const ply = encodePointCloudPly(depth, k, o.plyStride)
+  entries.push({ name: 'points.ply', data: ply.blob })
+  entries.push({ name: 'depth01.f32', data: floatBlob(depth.depth01) })
+  entries.push({ name: 'raw.f32', data: floatBlob(depth.raw) })
+  if (depth.metric) entries.push({ name: 'metric.f32', data: floatBlob(depth.metric) })
+
+  if (o.mesh) {
+    const { mesh, texture, geometry } = createDepthMesh(depth)
+    try {
+      const { obj, mtl } = exportMeshObj(mesh, 'rgb.jpg')
+      entries.push({ name: 'mesh.obj', data: obj }, { name: 'mesh.mtl', data: mtl })
+      entries.push({ name: 'mesh.glb', data: await exportMeshGlb(mesh) })
+    } finally {
+      geometry.dispose()
+      texture.dispose()
+      ;(mesh.material as THREE.Material).dispose()
+    }
+  }
+
+  const manifest: CaptureManifest = {
+    version: 1,
+    createdAt: new Date().toISOString(),
+    width: depth.width,
+    height: depth.height,
+    model: depth.model,
+    normalization: depth.normalization,
+    min: depth.min,
+    max: depth.max,
+    intrinsics: k,
+    intrinsicsAssumed: !depth.intrinsics,
+    frame: depth.frame && {
+      ...depth.frame,
+      pose: { position: depth.frame.pose.position.toArray(), quaternion: depth.frame.pose.quaternion.toArray() },
+    },
+    unitsPerMeter,
+    alignment: depth.alignment,
+    crop: depth.crop,
+    sourceWidth: depth.sourceWidth,
+    sourceHeight: depth.sourceHeight,
+    timestamp: depth.timestamp,
+    depthPng: { encoding: depth.metric ? 'millimeters' : 'depth01' },
+    points: { count: ply.count, units: depth.metric ? 'meters' : 'relative' },
+    files: ['capture.json', ...entries.map((e) => e.name)],
+  }
+  entries.unshift({ name: 'capture.json', data: new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }) })
+  return encodeZip(entries)
+}
+
+async function readFloats(files: Map<string, Blob>, name: string, length: number) {
+  const blob = files.get(name)
+  if (!blob) return undefined
+  const values = new Float32Array(await blob.arrayBuffer())
+  if (values.length !== length) throw new Error(`${name} has ${values.length} values, expected ${length}`)
+  return values
+}
+
+/** Reads a bundle written by `createCaptureBundle` back into a `DepthResult`. */
+export async function openCaptureBundle(blob: Blob): Promise<{ depth: DepthResult; manifest: CaptureManifest }> {
+  const files = await decodeZip(blob)
+  const manifestBlob = files.get('capture.json')
+  if (!manifestBlob) throw new Error('Not a depth capture (capture.json missing)')
+  const manifest = JSON.parse(await manifestBlob.text()) as CaptureManifest
+  if (manifest.version !== 1) throw new Error(`Unsupported capture version ${manifest.version}`)
+
+  const n = manifest.width * manifest.height
+  const depth01 = await readFloats(files, 'depth01.f32', n)
+  const raw = await readFloats(files, 'raw.f32', n)
+  if (!depth01 || !raw) throw new Error('Capture has no depth grid')
+  const metric = await readFloats(files, 'metric.f32', n)
+
+  const rgb = files.get('rgb.jpg')
+  if (!rgb) throw new Error('Capture has no rgb.jpg')
+  const bitmap = await createImageBitmap(rgb)
+  const rgbCanvas = document.createElement('canvas')
+  rgbCanvas.width = bitmap.width
+  rgbCanvas.height = bitmap.height
+  rgbCanvas.getContext('2d')?.drawImage(bitmap, 0, 0)
+  bitmap.close()
+
+  const frame: FrameBundle | undefined = manifest.frame && {
+    ...manifest.frame,
+    pose: {
+      position: new THREE.Vector3().fromArray(manifest.frame.pose.position),
+      quaternion: new THREE.Quaternion().fromArray(manifest.frame.pose.quaternion),
+    },
+  }
+
+  const depth: DepthResult = {
+    width: manifest.width,
+    height: manifest.height,
+    depth01,
+    raw,
+    normalization: manifest.normalization,
+    rgbCanvas,
+    min: manifest.min,
+    max: manifest.max,
+    intrinsics: manifest.intrinsicsAssumed ? undefined : manifest.intrinsics,
+    frame,
+    model: manifest.model,
+    metric,
+    alignment: manifest.alignment,
+    crop: manifest.crop,
+    sourceWidth: manifest.sourceWidth,
+    sourceHeight: manifest.sourceHeight,
+    timestamp: manifest.timestamp,
+  }
+  return { depth, manifest }
+}
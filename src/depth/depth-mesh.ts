@@ -33,12 +33,30 @@ export function createDepthMesh(depth: DepthResult, opts?: Partial<DepthMeshOpti
   const geom = new THREE.PlaneGeometry(1, aspect, gw - 1, gh - 1)
   const pos = geom.getAttribute('position') as THREE.BufferAttribute
 
+  // Aligned frames relieve by metric depth (linear in distance) rather than the model's value.
+  const metric = depth.metric
+  let near = Infinity
+  let far = 0
+  if (metric) {
+    for (const z of metric) {
+      if (z <= 0) continue
+      if (z < near) near = z
+      if (z > far) far = z
+    }
+  }
+  const span = far > near ? far - near : 0
+  const depthAt = (i: number) => {
+    if (!metric || span === 0) return depth.depth01[i] ?? 0.5
+    const z = metric[i]
+    return z > 0 ? (z - near) / span : 1
+  }
+
   // Map plane vertices to depth pixels
   for (let iy = 0; iy < gh; iy++) {
     const py = Math.min(h - 1, Math.floor((iy / (gh - 1)) * (h - 1)))
     for (let ix = 0; ix < gw; ix++) {
       const px = Math.min(w - 1, Math.floor((ix / (gw - 1)) * (w - 1)))
-      const d = depth.depth01[py * w + px] ?? 0.5
+      const d = depthAt(py * w + px)
       const dz = (o.invert ? 1 - d : d) * o.zScale
       const i = iy * gw + ix
       pos.setZ(i, dz)
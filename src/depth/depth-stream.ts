@@ -0,0 +1,321 @@
+import * as THREE from 'three'
+import type { FrameBundle } from '../mr/frames/frame-bundle'
+import type { FrameSource } from '../mr/frames/frame-source'
+import type { TrackingPose } from '../mr/tracking/tracker'
+import {
+  captureDepthInput,
+  completeDepthResult,
+  inferDepth,
+  resolveDepthAssetPaths,
+  type DepthCapture,
+  type DepthMap,
+  type DepthResult,
+} from './depth'
+import type { DepthWorkerRequest, DepthWorkerResponse } from './depth.worker'
+import { DEFAULT_DEPTH_MODEL_ID } from './models'
+
+export type DepthStreamOptions = {
+  /** Shortest gap between two depth requests (ms). */
+  minIntervalMs: number
+  /** Longest gap: a request goes out even when the camera holds still (ms). */
+  maxIntervalMs: number
+  /** Camera travel since the last depth request that makes a new one worth it (meters). */
+  minTranslationMeters: number
+  /** Camera rotation since the last depth request that makes a new one worth it (degrees). */
+  minRotationDeg: number
+  /** Waiting requests beyond this are dropped, oldest first. */
+  maxQueue: number
+  /** A request that waited longer than this is dropped when its turn comes (ms). */
+  maxAgeMs: number
+  /** Model input width (`DepthCaptureOptions.captureW`). */
+  captureW: number
+  /** Texture canvas width (`DepthCaptureOptions.textureW`). */
+  textureW: number
+  /** Registered depth model (`DEPTH_MODELS`). */
+  modelId: string
+}
+
+const DEFAULTS: DepthStreamOptions = {
+  minIntervalMs: 300,
+  maxIntervalMs: 4000,
+  minTranslationMeters: 0.12,
+  minRotationDeg: 8,
+  maxQueue: 2,
+  maxAgeMs: 1200,
+  captureW: 256,
+  textureW: 384,
+  modelId: DEFAULT_DEPTH_MODEL_ID,
+}
+
+export type DepthQueueStats = {
+  /** Where inference runs; null until the first request starts it. */
+  backend: 'worker' | 'main' | null
+  queued: number
+  inFlight: boolean
+  requested: number
+  /** Frames the keyframe policy passed over (camera did not move enough). */
+  skipped: number
+  /** Requests dropped from the queue: overflow or stale. */
+  dropped: number
+  completed: number
+  failed: number
+}
+
+export type DepthTiming = {
+  /** Time from capture to the start of inference (ms). */
+  queueMs: number
+  inferenceMs: number
+  /** Time from capture to the result (ms). */
+  totalMs: number
+}
+
+export type DepthStreamEvent =
+  | { type: 'result'; result: DepthResult; timing: DepthTiming; queue: DepthQueueStats }
+  | { type: 'error'; message: string; queue: DepthQueueStats }
+
+export type DepthSubmitOptions = {
+  viewportW?: number
+  viewportH?: number
+  /** World units per meter, to read the translation threshold in world units. */
+  unitsPerMeter?: number
+}
+
+type PendingRequest = { capture: DepthCapture; requestedAt: number }
+
+const WORKER_INIT_TIMEOUT_MS = 60000
+
+function canUseDepthWorker() {
+  return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined'
+}
+
+/** Decides whether the camera moved or turned enough since the last depth frame to need a new one. */
+export function createDepthKeyframePolicy(opts?: Partial<DepthStreamOptions>) {
+  const o: DepthStreamOptions = { ...DEFAULTS, ...(opts ?? {}) }
+  let lastT: number | null = null
+  const lastPosition = new THREE.Vector3()
+  const lastQuaternion = new THREE.Quaternion()
+
+  function check(pose: TrackingPose, now: number, unitsPerMeter = 1) {
+    if (lastT === null) return true
+    const elapsed = now - lastT
+    if (elapsed < o.minIntervalMs) return false
+    if (elapsed >= o.maxIntervalMs) return true
+    const moved = pose.position.distanceTo(lastPosition) / Math.max(1e-6, unitsPerMeter)
+    const turned = THREE.MathUtils.radToDeg(pose.quaternion.angleTo(lastQuaternion))
+    return moved >= o.minTranslationMeters || turned >= o.minRotationDeg
+  }
+
+  function accept(pose: TrackingPose, now: number) {
+    lastT = now
+    lastPosition.copy(pose.position)
+    lastQuaternion.copy(pose.quaternion)
+  }
+
+  function reset() {
+    lastT = null
+  }
+
+  return { check, accept, reset }
+}
+
+export type DepthKeyframePolicy = ReturnType<typeof createDepthKeyframePolicy>
+
+/**
+ * Continuous depth estimation: frames pass a keyframe policy, wait in a short queue and run one at a
+ * time in a worker (the main thread when workers are unavailable). Results and failures arrive as
+ * events carrying timing and queue metrics.
+ */
+export function createDepthStream(onEvent: (event: DepthStreamEvent) => void, opts?: Partial<DepthStreamOptions>) {
+  const o: DepthStreamOptions = { ...DEFAULTS, ...(opts ?? {}) }
+  const policy = createDepthKeyframePolicy(o)
+  const queue: PendingRequest[] = []
+  let worker: Worker | null = null
+  let backend: DepthQueueStats['backend'] = null
+  let starting: Promise<void> | null = null
+  let generation = 0
+  let inFlight: (PendingRequest & { id: number; startedAt: number }) | null = null
+  let nextId = 0
+  const counts = { requested: 0, skipped: 0, dropped: 0, completed: 0, failed: 0 }
+
+  function getStats(): DepthQueueStats {
+    return { backend, queued: queue.length, inFlight: inFlight !== null, ...counts }
+  }
+
+  /** Spawns the worker and waits for the model to load in it; null when that fails. */
+  async function startWorker(): Promise<Worker | null> {
+    if (!canUseDepthWorker()) return null
+    let w: Worker
+    try {
+      w = new Worker(new URL('./depth.worker.ts', import.meta.url), { type: 'module' })
+    } catch (err) {
+      console.warn('[depth] worker unavailable', err)
+      return null
+    }
+    const ok = await new Promise<boolean>((resolve) => {
+      const timer = setTimeout(() => resolve(false), WORKER_INIT_TIMEOUT_MS)
+      w.onmessage = (ev: MessageEvent<DepthWorkerResponse>) => {
+        if (ev.data.type === 'ready') {
+          clearTimeout(timer)
+          resolve(true)
+        } else if (ev.data.type === 'error') {
+          console.warn('[depth] worker init failed', ev.data.message)
+          clearTimeout(timer)
+          resolve(false)
+        }
+      }
+      w.onerror = (ev) => {
+        console.warn('[depth] worker error', ev.message)
+        clearTimeout(timer)
+        resolve(false)
+      }
+      postToWorker(w, { type: 'init', paths: resolveDepthAssetPaths(), modelId: o.modelId })
+    })
+    if (!ok) {
+      w.terminate()
+      return null
+    }
+    w.onmessage = onWorkerMessage
+    w.onerror = (ev) => {
+      // The worker died mid-session; finish on the main thread.
+      console.warn('[depth] worker error', ev.message)
+      w.terminate()
+      if (worker === w) worker = null
+      backend = 'main'
+      if (inFlight) fail(inFlight.id, ev.message || 'Depth worker error')
+    }
+    return w
+  }
+
+  function postToWorker(w: Worker, msg: DepthWorkerRequest, transfer: Transferable[] = []) {
+    w.postMessage(msg, transfer)
+  }
+
+  function ensureStarted() {
+    if (backend || starting) return
+    const started = generation
+    starting = startWorker().then((w) => {
+      if (started !== generation) {
+        w?.terminate()
+        return
+      }
+      worker = w
+      backend = w ? 'worker' : 'main'
+      starting = null
+      console.info(`[depth] ${o.modelId} on ${backend === 'worker' ? 'worker' : 'main thread'}`)
+      pump()
+    })
+  }
+
+  function onWorkerMessage(ev: MessageEvent<DepthWorkerResponse>) {
+    const msg = ev.data
+    if (msg.type === 'result') finish(msg.id, msg, msg.ms)
+    else if (msg.type === 'error' && msg.id !== null) fail(msg.id, msg.message)
+  }
+
+  function finish(id: number, map: DepthMap, inferenceMs: number) {
+    if (!inFlight || inFlight.id !== id) return
+    const req = inFlight
+    inFlight = null
+    counts.completed += 1
+    const now = performance.now()
+    const { width, height, depth01, raw, normalization, min, max, model } = map
+    const result = completeDepthResult({ width, height, depth01, raw, normalization, min, max, model }, req.capture)
+    const timing = { queueMs: req.startedAt - req.requestedAt, inferenceMs, totalMs: now - req.requestedAt }
+    onEvent({ type: 'result', result, timing, queue: getStats() })
+    pump()
+  }
+
+  function fail(id: number, message: string) {
+    if (!inFlight || inFlight.id !== id) return
+    inFlight = null
+    counts.failed += 1
+    onEvent({ type: 'error', message, queue: getStats() })
+    pump()
+  }
+
+  /** Starts the oldest request that is still fresh, dropping the stale ones ahead of it. */
+  function pump() {
+    if (inFlight || !backend) return
+    const now = performance.now()
+    let req: PendingRequest | undefined
+    while ((req = queue.shift())) {
+      if (now - req.requestedAt <= o.maxAgeMs) break
+      counts.dropped += 1
+    }
+    if (!req) return
+    const id = ++nextId
+    inFlight = { ...req, id, startedAt: now }
+    const w = worker
+    if (w) {
+      const { image } = req.capture
+      postToWorker(w, { type: 'frame', id, image }, [image.data.buffer])
+      return
+    }
+    const started = performance.now()
+    inferDepth(req.capture.image, o.modelId)
+      .then((map) => finish(id, map, performance.now() - started))
+      .catch((err) => fail(id, err instanceof Error ? err.message : String(err)))
+  }
+
+  /**
+   * Offers the source's current frame. It is captured and queued only when the keyframe policy wants
+   * it; true when it was.
+   */
+  function submit(source: FrameSource, frame: FrameBundle, submitOpts?: DepthSubmitOptions) {
+    const now = performance.now()
+    if (!policy.check(frame.pose, now, submitOpts?.unitsPerMeter)) {
+      counts.skipped += 1
+      return false
+    }
+    let capture: DepthCapture
+    try {
+      capture = captureDepthInput(source, {
+        frame,
+        viewportW: submitOpts?.viewportW,
+        viewportH: submitOpts?.viewportH,
+        captureW: o.captureW,
+        textureW: o.textureW,
+      })
+    } catch {
+      return false
+    }
+    policy.accept(frame.pose, now)
+    counts.requested += 1
+    queue.push({ capture, requestedAt: now })
+    while (queue.length > o.maxQueue) {
+      queue.shift()
+      counts.dropped += 1
+    }
+    ensureStarted()
+    pump()
+    return true
+  }
+
+  /** Drops waiting requests and forgets the last keyframe; a result already in flight still arrives. */
+  function clear() {
+    counts.dropped += queue.length
+    queue.length = 0
+    policy.reset()
+  }
+
+  function dispose() {
+    clear()
+    generation += 1
+    worker?.terminate()
+    worker = null
+    backend = null
+    starting = null
+    inFlight = null
+  }
+
+  /** Switches models: the running backend is dropped and the next request loads the new model. */
+  function setModel(modelId: string) {
+    if (modelId === o.modelId) return
+    o.modelId = modelId
+    dispose()
+  }
+
+  return { submit, clear, dispose, setModel, getModel: () => o.modelId, getStats }
+}
+
+export type DepthStream = ReturnType<typeof createDepthStream>
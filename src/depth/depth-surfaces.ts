@@ -0,0 +1,179 @@
+import * as THREE from 'three'
+import type { DepthResult } from './depth'
+
+/**
+ * Coarse per-pixel segmentation by surface orientation relative to gravity: `up` faces up
+ * (floor, table), `down` faces down (ceiling), `vertical` is a wall, `clutter` is anything in
+ * between and `unknown` has no usable depth or sits on a depth edge.
+ */
+export type SurfaceClass = 'unknown' | 'up' | 'down' | 'vertical' | 'clutter'
+
+/** `DepthSurfaceMap.classes` stores the index into this list. */
+export const SURFACE_CLASSES: SurfaceClass[] = ['unknown', 'up', 'down', 'vertical', 'clutter']
+
+export type DepthSurfaceMap = {
+  width: number
+  height: number
+  /** Camera-frame points in meters (xyz per pixel, camera looks down -Z); NaN where unknown. */
+  points: Float32Array
+  /** Unit camera-frame normals facing the camera (xyz per pixel); zero where unknown. */
+  normals: Float32Array
+  /** Index into `SURFACE_CLASSES` per pixel. */
+  classes: Uint8Array
+  /** Gravity up in the camera frame the classes were computed against. */
+  up: THREE.Vector3
+}
+
+export type DepthSurfaceOptions = {
+  /** Unaligned frames spread `depth01` over this range (meters), like `PlaneMapper`. */
+  minDepthMeters: number
+  maxDepthMeters: number
+  /** Unaligned pixels outside this `depth01` range are unknown. */
+  minDepth01: number
+  maxDepth01: number
+  /** Vertical field of view (degrees) and aspect for frames without intrinsics. */
+  fovDeg: number
+  aspect: number
+  /** Half-width of the central differences (pixels); larger is smoother but blurs edges. */
+  normalStep: number
+  /** Relative depth change across a difference above which the pixel counts as a depth edge. */
+  maxDepthStep: number
+  /** Normals within this angle of up/down are horizontal surfaces (degrees). */
+  horizontalDeg: number
+  /** Normals within this angle of the horizon are walls (degrees). */
+  verticalDeg: number
+}
+
+const DEFAULTS: DepthSurfaceOptions = {
+  minDepthMeters: 0.3,
+  maxDepthMeters: 2.4,
+  minDepth01: 0.02,
+  maxDepth01: 0.98,
+  fovDeg: 60,
+  aspect: 4 / 3,
+  normalStep: 2,
+  maxDepthStep: 0.08,
+  horizontalDeg: 20,
+  verticalDeg: 20,
+}
+
+const CLASS_UP = SURFACE_CLASSES.indexOf('up')
+const CLASS_DOWN = SURFACE_CLASSES.indexOf('down')
+const CLASS_VERTICAL = SURFACE_CLASSES.indexOf('vertical')
+const CLASS_CLUTTER = SURFACE_CLASSES.indexOf('clutter')
+
+/** Gravity up in the camera frame: from the capture pose when the frame has one, else the camera's own up. */
+export function cameraUp(depth: DepthResult) {
+  const up = new THREE.Vector3(0, 1, 0)
+  if (depth.frame) up.applyQuaternion(depth.frame.pose.quaternion.clone().invert())
+  return up
+}
+
+/** Back-projects every depth pixel into the camera frame (meters); NaN where the depth is unusable. */
+function backProject(depth: DepthResult, o: DepthSurfaceOptions) {
+  const { width: w, height: h } = depth
+  const points = new Float32Array(w * h * 3).fill(NaN)
+  const k = depth.intrinsics
+  const metric = depth.metric
+  const tanFov = Math.tan(THREE.MathUtils.degToRad(o.fovDeg) / 2)
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const i = y * w + x
+      let z: number
+      if (metric) {
+        z = metric[i]
+        if (!(z > 0)) continue
+      } else {
+        const d01 = depth.depth01[i]
+        if (!Number.isFinite(d01) || d01 < o.minDepth01 || d01 > o.maxDepth01) continue
+        z = THREE.MathUtils.lerp(o.minDepthMeters, o.maxDepthMeters, d01)
+      }
+      let vx: number
+      let vy: number
+      if (k) {
+        vx = (x + 0.5 - k.cx) / k.fx
+        vy = -(y + 0.5 - k.cy) / k.fy
+      } else {
+        vx = ((x / Math.max(1, w - 1)) * 2 - 1) * tanFov * o.aspect
+        vy = -((y / Math.max(1, h - 1)) * 2 - 1) * tanFov
+      }
+      points[i * 3] = vx * z
+      points[i * 3 + 1] = vy * z
+      points[i * 3 + 2] = -z
+    }
+  }
+  return points
+}
+
+/**
+ * Normal map and orientation classes for one depth frame. Normals come from central differences of
+ * the back-projected points; pixels whose neighbours jump in depth (object silhouettes) stay unknown
+ * rather than getting a normal that bridges two surfaces.
+ */
+export function computeDepthSurfaces(
+  depth: DepthResult,
+  opts?: Partial<DepthSurfaceOptions> & { up?: THREE.Vector3 },
+): DepthSurfaceMap {
+  const o: DepthSurfaceOptions = { ...DEFAULTS, ...(opts ?? {}) }
+  const { width: w, height: h } = depth
+  const up = (opts?.up ?? cameraUp(depth)).clone().normalize()
+  const points = backProject(depth, o)
+  const normals = new Float32Array(w * h * 3)
+  const classes = new Uint8Array(w * h)
+  const s = Math.max(1, Math.floor(o.normalStep))
+  const cosHorizontal = Math.cos(THREE.MathUtils.degToRad(o.horizontalDeg))
+  const sinVertical = Math.sin(THREE.MathUtils.degToRad(o.verticalDeg))
+
+  // Depth (positive) at pixel i, and whether neighbour j lies on the same surface.
+  const zAt = (i: number) => -points[i * 3 + 2]
+  const continuous = (z: number, j: number) => {
+    const zj = zAt(j)
+    return zj > 0 && Math.abs(zj - z) <= o.maxDepthStep * z
+  }
+
+  for (let y = s; y < h - s; y++) {
+    for (let x = s; x < w - s; x++) {
+      const i = y * w + x
+      const z = zAt(i)
+      if (!(z > 0)) continue
+      const l = i - s
+      const r = i + s
+      const t = i - s * w
+      const b = i + s * w
+      if (!continuous(z, l) || !continuous(z, r) || !continuous(z, t) || !continuous(z, b)) continue
+
+      // Right-pointing and up-pointing tangents; their cross product faces the camera.
+      const ax = points[r * 3] - points[l * 3]
+      const ay = points[r * 3 + 1] - points[l * 3 + 1]
+      const az = points[r * 3 + 2] - points[l * 3 + 2]
+      const bx = points[t * 3] - points[b * 3]
+      const by = points[t * 3 + 1] - points[b * 3 + 1]
+      const bz = points[t * 3 + 2] - points[b * 3 + 2]
+      let nx = ay * bz - az * by
+      let ny = az * bx - ax * bz
+      let nz = ax * by - ay * bx
+      const len = Math.hypot(nx, ny, nz)
+      if (len < 1e-12) continue
+      nx /= len
+      ny /= len
+      nz /= len
+      // Face the camera: the normal points against the viewing ray.
+      if (nx * points[i * 3] + ny * points[i * 3 + 1] + nz * points[i * 3 + 2] > 0) {
+        nx = -nx
+        ny = -ny
+        nz = -nz
+      }
+      normals[i * 3] = nx
+      normals[i * 3 + 1] = ny
+      normals[i * 3 + 2] = nz
+
+      const dot = nx * up.x + ny * up.y + nz * up.z
+      if (dot >= cosHorizontal) classes[i] = CLASS_UP
+      else if (dot <= -cosHorizontal) classes[i] = CLASS_DOWN
+      else if (Math.abs(dot) <= sinVertical) classes[i] = CLASS_VERTICAL
+      else classes[i] = CLASS_CLUTTER
+    }
+  }
+
+  return { width: w, height: h, points, normals, classes, up }
+}
@@ -1,51 +1,79 @@
 import { env, pipeline, RawImage } from '@xenova/transformers'
+import {
+  coverCrop,
+  cropIntrinsics,
+  scaleIntrinsics,
+  type CameraIntrinsics,
+  type CoverCrop,
+} from '../mr/camera/intrinsics'
+import type { FrameBundle } from '../mr/frames/frame-bundle'
+import type { FrameSource } from '../mr/frames/frame-source'
+import { now } from '../session/clock'
+import type { DepthAlignment } from './depth-align'
+import { clearModelCache, DEFAULT_DEPTH_MODEL_ID, getDepthModel, preflightDepthModel, type DepthModel } from './models'
 
 export type DepthResult = {
   width: number
   height: number
-  /** Normalized depth in [0..1], row-major (y * width + x). 0 = near, 1 = far (best-effort). */
+  /**
+   * Normalized depth in [0..1], row-major (y * width + x). 0 = near, 1 = far, whatever the
+   * normalization.
+   */
   depth01: Float32Array
+  /**
+   * Model output on the same grid, in the model's own units (`DepthModel.output`): the float
+   * `predicted_depth` when the pipeline returns it, otherwise the 8-bit preview as 0..1.
+   */
+  raw: Float32Array
+  normalization: DepthNormalization
   /** Captured RGB frame used for inference (same aspect as depth). Useful for 3D mesh texturing. */
   rgbCanvas: HTMLCanvasElement
-  /** For debug/analysis */
+  /** Range of `raw` in this frame. */
   min: number
   max: number
+  /** Pinhole model of the depth grid (depth pixels), when the capture intrinsics were known. */
+  intrinsics?: CameraIntrinsics
+  /** Capture time, pose and intrinsics of the frame the depth was estimated from. */
+  frame?: FrameBundle
+  /** Registry id of the model that produced it (`DEPTH_MODELS`). */
+  model?: string
+  /**
+   * Depth in meters along the camera axis, row-major like `depth01`; 0 where unknown. Set once the
+   * frame is aligned to tracked feature points (`alignDepth`).
+   */
+  metric?: Float32Array
+  alignment?: DepthAlignment
+  /** Part of the source frame the depth covers (source pixels). */
+  crop: CoverCrop
+  sourceWidth: number
+  sourceHeight: number
+  /** Clock time of the capture (ms, `session/clock`): the frame's `t` when it was given. */
+  timestamp: number
 }
 
 export type DepthCaptureOptions = {
   /** Viewport size (used to mimic object-fit: cover cropping) */
   viewportW?: number
   viewportH?: number
-  /** Capture width used for depth inference input */
+  /** Capture width used for depth inference input (768 by default; the model resizes it either way) */
   captureW?: number
-  /** Higher-res canvas for texture quality */
+  /** Higher-res canvas for texture quality; never narrower than the capture */
   textureW?: number
+  /**
+   * The frame being captured (`TrackingController.captureFrame`). Its intrinsics are carried over to
+   * the depth grid through the cover crop, and the bundle is returned with the result.
+   */
+  frame?: FrameBundle
+  /** Registered depth model to run; the default one when omitted. */
+  modelId?: string
+  /** How `depth01` is derived from the model output; per-frame stretch by default. */
+  normalization?: DepthNormalization
 }
 
 type DepthPipeline = Awaited<ReturnType<typeof pipeline>>
 
-let depthPipe: DepthPipeline | null = null
-let depthPipePromise: Promise<DepthPipeline> | null = null
-
-async function clearTransformersBrowserCacheForModel(modelId: string) {
-  // transformers.js uses Cache API cache named 'transformers-cache'.
-  // If a previous run cached `index.html` under a model JSON URL, subsequent loads can fail with:
-  //   SyntaxError: Unexpected token '<' ... is not valid JSON
-  // even after the path is fixed. Clearing the affected entries avoids this “sticky” failure.
-  try {
-    if (typeof caches === 'undefined') return
-    const cache = await caches.open('transformers-cache')
-    const keys = await cache.keys()
-    for (const req of keys) {
-      const u = req.url || ''
-      if (u.includes(`/${modelId}/`) || u.includes(modelId)) {
-        await cache.delete(req)
-      }
-    }
-  } catch {
-    // Best-effort: if Cache API isn't accessible (private mode / iframe / policy), ignore.
-  }
-}
+/** One model is kept loaded; asking for another one releases it. */
+let loaded: { modelId: string; promise: Promise<DepthPipeline> } | null = null
 
 async function withModelFetchDebug<T>(fn: () => Promise<T>): Promise<T> {
   if (typeof window === 'undefined') return await fn()
@@ -95,15 +123,20 @@ async function withModelFetchDebug<T>(fn: () => Promise<T>): Promise<T> {
   }
 }
 
-async function getDepthPipe(): Promise<DepthPipeline> {
-  if (depthPipe) return depthPipe
-  if (depthPipePromise) return depthPipePromise
+/** Where the depth runtime loads its files from: `public/models` and the ORT wasm binaries. */
+export type DepthAssetPaths = {
+  models: string
+  ortWasm: string
+}
 
+/** ORT picks the SIMD build when the browser supports it; threaded builds are unused (numThreads = 1). */
+const ORT_WASM_FILES = ['ort-wasm-simd.wasm', 'ort-wasm.wasm']
 
-  // Hugging Face model files are not CORS-friendly for arbitrary origins.
-  // For local dev / phone testing, we host model files under /public/models and load them locally.
-  env.allowLocalModels = true
-  env.allowRemoteModels = false
+/**
+ * Resolved on the main thread: a worker's location is its script URL, not the page, so workers get
+ * these passed in.
+ */
+export function resolveDepthAssetPaths(): DepthAssetPaths {
   // IMPORTANT: do NOT hardcode `/models/` at domain root.
   // If the app is hosted under a subpath (e.g. GitHub Pages `/game-demo/`),
   // then `/models/...` points to the wrong location and many hosts return `index.html`,
@@ -114,101 +147,123 @@ async function getDepthPipe(): Promise<DepthPipeline> {
     typeof window !== 'undefined'
       ? new URL(import.meta.env.BASE_URL || '/', window.location.origin).toString()
       : '/'
-  env.localModelPath = new URL('models/', baseUrl).toString()
+  return {
+    models: new URL('models/', baseUrl).toString(),
+    ortWasm: new URL('vendor/ort/', baseUrl).toString(),
+  }
+}
+
+/**
+ * Checks that the ORT wasm binaries are served. ORT itself only reports a failed wasm compile, so
+ * this names the missing file instead.
+ */
+async function preflightOrtRuntime(ortWasm: string) {
+  for (const file of ORT_WASM_FILES) {
+    const url = new URL(file, ortWasm).toString()
+    const res = await fetch(url, { method: 'HEAD' })
+    const ct = res.headers.get('content-type') || ''
+    if (!res.ok || ct.includes('text/html')) {
+      throw new Error(`ONNX runtime asset missing (${res.status}${ct ? ` ${ct}` : ''}): ${url} — run \`npm run copy:ort\``)
+    }
+  }
+}
+
+export async function getDepthPipe(
+  modelId = DEFAULT_DEPTH_MODEL_ID,
+  paths = resolveDepthAssetPaths(),
+): Promise<DepthPipeline> {
+  if (loaded?.modelId === modelId) return loaded.promise
+  const previous = loaded
+  loaded = null
+  if (previous) {
+    void previous.promise.then((p) => p.dispose()).catch(() => {})
+  }
+  const model = getDepthModel(modelId)
+
+  // Hugging Face model files are not CORS-friendly for arbitrary origins.
+  // For local dev / phone testing, we host model files under /public/models and load them locally.
+  env.allowLocalModels = true
+  env.allowRemoteModels = false
+  env.localModelPath = paths.models
   // NOTE: transformers.js browser cache can “poison” model JSON URLs with HTML if a previous request
   // accidentally returned index.html. We keep cache enabled for performance, but clear bad entries first.
   env.useBrowserCache = true
 
-  // Vite + mobile Safari often fail to locate ORT wasm assets unless wasmPaths is set.
+  // The ORT wasm binaries ship with the app (scripts/copy_ort_wasm.mjs), so depth works offline;
+  // without wasmPaths, Vite + mobile Safari fail to locate them.
   // Also disable threading for broad compatibility (iOS Safari has limitations).
-  env.backends.onnx.wasm.wasmPaths = 'https://cdn.jsdelivr.net/npm/onnxruntime-web@1.14.0/dist/'
+  env.backends.onnx.wasm.wasmPaths = paths.ortWasm
   env.backends.onnx.wasm.numThreads = 1
 
-  // Preflight: verify that the model JSON files resolve to JSON (not Vite HTML 404).
-  // This turns the opaque JSON.parse("<!doctype...") error into a clear URL+status.
-  if (typeof window !== 'undefined') {
-    await clearTransformersBrowserCacheForModel('Xenova/depth-anything-small-hf')
-    const base = env.localModelPath.replace(/\/+$/, '')
-    const modelBase = `${base}/Xenova/depth-anything-small-hf`
-    const urls = [
-      `${modelBase}/config.json`,
-      `${modelBase}/preprocessor_config.json`,
-      `${modelBase}/quantize_config.json`,
-      `${modelBase}/generation_config.json`,
-      `${modelBase}/onnx/model_quantized.onnx`,
-    ]
-
-    for (const url of urls) {
-      const res = await fetch(url, { cache: 'no-store' })
-      if (!res.ok) {
-        throw new Error(`Model file not reachable (${res.status}): ${url}`)
-      }
-      const ct = res.headers.get('content-type') || ''
-      // Only JSON files should be parsed as text; onnx is binary.
-      if (url.endsWith('.json')) {
-        const text = await res.clone().text()
-        const head = text.slice(0, 96).replace(/\s+/g, ' ')
-        const trimmed = text.trimStart()
-        if (trimmed.startsWith('<') || ct.includes('text/html')) {
-          const trimmedHead = trimmed.slice(0, 96).replace(/\s+/g, ' ')
-          throw new Error(
-            `Model file returned HTML: ${url} (content-type: ${ct}) head="${head}" trimmedHead="${trimmedHead}"`,
-          )
-        }
-      } else if (ct.includes('text/html')) {
-        throw new Error(`Model file returned HTML: ${url} (content-type: ${ct})`)
-      }
-    }
-  }
-
-  // Depth Anything models are available via Xenova/transformers.js
-  // Prefer small model for MVP latency.
-  depthPipePromise = withModelFetchDebug(() =>
-    pipeline('depth-estimation', 'Xenova/depth-anything-small-hf', {
-      quantized: true,
-      local_files_only: true,
-    }),
-  )
-    .then((p) => {
-      depthPipe = p
-      return p
-    })
-    .catch((e) => {
-      // Allow retry after failures (network/cors/wasm/model download).
-      depthPipePromise = null
-      throw e
-    })
-
-  return depthPipePromise
+  const promise = (async () => {
+    await preflightOrtRuntime(paths.ortWasm)
+    await clearModelCache(model)
+    await preflightDepthModel(model, paths.models)
+    return await withModelFetchDebug(() =>
+      pipeline('depth-estimation', model.id, {
+        quantized: model.quantized,
+        revision: model.revision,
+        local_files_only: true,
+      }),
+    )
+  })()
+  loaded = { modelId: model.id, promise }
+  promise.catch(() => {
+    // Allow retry after failures (network/cors/wasm/model download).
+    if (loaded?.promise === promise) loaded = null
+  })
+  return promise
 }
 
 function clamp(v: number, a: number, b: number) {
   return Math.max(a, Math.min(b, v))
 }
 
-function drawVideoToCanvasCover(
-  video: HTMLVideoElement,
-  targetW: number,
-  targetH: number,
-) {
-  const vw = video.videoWidth
-  const vh = video.videoHeight
-  const w = Math.max(2, Math.round(targetW))
-  const h = Math.max(2, Math.round(targetH))
+/** Frames the depth API draws from directly. */
+export type DepthImageSource =
+  | HTMLVideoElement
+  | HTMLImageElement
+  | HTMLCanvasElement
+  | OffscreenCanvas
+  | ImageBitmap
+  | ImageData
+
+/** Anything `estimateDepth` accepts; blobs (files, fetched images) are decoded first. */
+export type DepthInput = DepthImageSource | Blob | FrameSource
+
+/**
+ * How model output becomes `depth01`. `stretch`: this frame's min..max to 0..1 (good contrast, not
+ * comparable across frames). `fixed`: a constant range of model output values, comparable across
+ * frames. `raw`: the caller reads the model values from `DepthResult.raw`; `depth01` is stretched per
+ * frame as with `stretch`, since its consumers all expect 0..1 with 0 = near.
+ */
+export type DepthNormalization = { kind: 'stretch' } | { kind: 'fixed'; min: number; max: number } | { kind: 'raw' }
+
+const STRETCH: DepthNormalization = { kind: 'stretch' }
+
+function isFrameSource(input: DepthInput): input is FrameSource {
+  return typeof (input as FrameSource).getSize === 'function'
+}
+
+function sourceSize(src: DepthImageSource) {
+  if (typeof HTMLVideoElement !== 'undefined' && src instanceof HTMLVideoElement) {
+    return { width: src.videoWidth, height: src.videoHeight }
+  }
+  if (typeof HTMLImageElement !== 'undefined' && src instanceof HTMLImageElement) {
+    return { width: src.naturalWidth || src.width, height: src.naturalHeight || src.height }
+  }
+  return { width: src.width, height: src.height }
+}
 
+/** `drawImage` takes everything but ImageData. */
+function toDrawable(src: DepthImageSource): CanvasImageSource {
+  if (!(src instanceof ImageData)) return src
   const canvas = document.createElement('canvas')
-  canvas.width = w
-  canvas.height = h
-  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  canvas.width = src.width
+  canvas.height = src.height
+  const ctx = canvas.getContext('2d')
   if (!ctx) throw new Error('2D context unavailable for capture')
-
-  // Mimic CSS object-fit: cover for consistency with what's displayed on screen.
-  const scale = Math.max(w / vw, h / vh)
-  const srcW = w / scale
-  const srcH = h / scale
-  const sx = (vw - srcW) / 2
-  const sy = (vh - srcH) / 2
-  ctx.drawImage(video, sx, sy, srcW, srcH, 0, 0, w, h)
+  ctx.putImageData(src, 0, 0)
   return canvas
 }
 
@@ -223,171 +278,222 @@ function drawImageToCanvasCover(img: CanvasImageSource, srcW: number, srcH: numb
   if (!ctx) throw new Error('2D context unavailable for capture')
 
   // Mimic CSS object-fit: cover.
-  const scale = Math.max(w / srcW, h / srcH)
-  const cropW = w / scale
-  const cropH = h / scale
-  const sx = (srcW - cropW) / 2
-  const sy = (srcH - cropH) / 2
-  ctx.drawImage(img, sx, sy, cropW, cropH, 0, 0, w, h)
+  const crop = coverCrop(srcW, srcH, w, h)
+  ctx.drawImage(img, crop.sx, crop.sy, crop.sw, crop.sh, 0, 0, w, h)
   return canvas
 }
 
-async function loadHtmlImage(url: string): Promise<HTMLImageElement> {
-  const img = new Image()
-  img.decoding = 'async'
-  // NOTE: do not set crossOrigin here; for blob: URLs it's not needed, and for remote URLs
-  // it can fail if server doesn't send CORS headers.
-  await new Promise<void>((resolve, reject) => {
-    img.onload = () => resolve()
-    img.onerror = () => reject(new Error('Failed to load image'))
-    img.src = url
-  })
-  return img
-}
+/** Normalized depth as it comes out of the model, before it is tied to a capture. */
+export type DepthMap = Pick<DepthResult, 'width' | 'height' | 'depth01' | 'raw' | 'normalization' | 'min' | 'max' | 'model'>
 
-async function canvasToRawImage(canvas: HTMLCanvasElement) {
-  // transformers.js does not expose RawImage.fromCanvas in current API,
-  // so we roundtrip through a Blob and use RawImage.fromURL().
-  const blob: Blob = await new Promise((resolve, reject) => {
-    canvas.toBlob((b) => (b ? resolve(b) : reject(new Error('Failed to capture frame'))), 'image/jpeg', 0.9)
-  })
-  const url = URL.createObjectURL(blob)
-  try {
-    return await RawImage.fromURL(url)
-  } finally {
-    URL.revokeObjectURL(url)
-  }
+/** What goes into the model for one frame, plus what is needed to place the result. */
+export type DepthCapture = {
+  /** Model input pixels (RGBA), cover-cropped to the viewport aspect. */
+  image: ImageData
+  rgbCanvas: HTMLCanvasElement
+  srcW: number
+  srcH: number
+  /** Part of the source frame that `image` shows (source pixels). */
+  crop: CoverCrop
+  /** Clock time of the capture (`session/clock`). */
+  timestamp: number
+  frame?: FrameBundle
 }
 
-export async function estimateDepthSingleShot(video: HTMLVideoElement, opts?: DepthCaptureOptions): Promise<DepthResult> {
-  const pipe = await getDepthPipe()
+/**
+ * Draws the model input and the texture canvas from a frame source or image. Nothing is awaited, so
+ * both show the frame `opts.frame` describes.
+ */
+export function captureDepthInput(input: FrameSource | DepthImageSource, opts?: DepthCaptureOptions): DepthCapture {
+  const frameSource = isFrameSource(input) ? input : null
+  const { width: srcW, height: srcH } = frameSource ? frameSource.getSize() : sourceSize(input as DepthImageSource)
+  if (srcW <= 0 || srcH <= 0) throw new Error('Frame source has no frame yet')
+  const img = frameSource ? frameSource.element : toDrawable(input as DepthImageSource)
 
   const viewportW = opts?.viewportW
   const viewportH = opts?.viewportH
   const aspect =
     viewportW && viewportH && viewportW > 0 && viewportH > 0
       ? viewportW / viewportH
-      : video.videoWidth / Math.max(1, video.videoHeight)
+      : srcW / Math.max(1, srcH)
 
-  // Capture bigger than 518 so edge/detail doesn't get mushy; preprocessing will resize for the model anyway.
-  const captureW = Math.max(518, Math.floor(opts?.captureW ?? 768))
+  // By default capture bigger than 518 so edge/detail doesn't get mushy; preprocessing resizes for the
+  // model anyway, so a smaller `captureW` (the keyframe stream) only trades detail for a cheaper capture.
+  const captureW = Math.max(2, Math.floor(opts?.captureW ?? 768))
   const captureH = Math.max(2, Math.round(captureW / Math.max(1e-6, aspect)))
-  const modelCanvas = drawVideoToCanvasCover(video, captureW, captureH)
-  const image = await canvasToRawImage(modelCanvas)
-
-  // TS types for pipelines are very wide; cast to any for RawImage input.
-  const res: any = await (pipe as any)(image)
-
-  // depth-anything-web returns: { predicted_depth, depth }, where depth is RawImage created
-  // from a uint8 tensor normalized to [0..255]. We'll treat it as relative depth.
-  const depthImg = res?.depth ?? res
-  const w = Number(depthImg?.width)
-  const h = Number(depthImg?.height)
-  const data: unknown = depthImg?.data
+  const modelCanvas = drawImageToCanvasCover(img, srcW, srcH, captureW, captureH)
+  const modelCtx = modelCanvas.getContext('2d', { willReadFrequently: true })
+  if (!modelCtx) throw new Error('2D context unavailable for capture')
+  const image = modelCtx.getImageData(0, 0, captureW, captureH)
+  // Higher-res texture for the 3D mesh (same aspect to align with depth)
+  const textureW = Math.max(captureW, Math.floor(opts?.textureW ?? 1280))
+  const textureH = Math.max(2, Math.round(textureW / Math.max(1e-6, aspect)))
+  const rgbCanvas = drawImageToCanvasCover(img, srcW, srcH, textureW, textureH)
+
+  return {
+    image,
+    rgbCanvas,
+    srcW,
+    srcH,
+    crop: coverCrop(srcW, srcH, captureW, captureH),
+    timestamp: opts?.frame?.t ?? now(),
+    frame: opts?.frame,
+  }
+}
 
-  if (!Number.isFinite(w) || !Number.isFinite(h) || !data) {
-    throw new Error('Unexpected depth output shape')
+/** Ties a depth map back to the capture it was estimated from. */
+export function completeDepthResult(map: DepthMap, capture: DepthCapture): DepthResult {
+  // The model output covers the same crop as the capture canvas, just resampled.
+  const { srcW, srcH, crop } = capture
+  const k = capture.frame?.intrinsics
+  const intrinsics = k ? cropIntrinsics(scaleIntrinsics(k, srcW, srcH), crop, map.width, map.height) : undefined
+  return {
+    ...map,
+    rgbCanvas: capture.rgbCanvas,
+    intrinsics,
+    frame: capture.frame,
+    crop,
+    sourceWidth: srcW,
+    sourceHeight: srcH,
+    timestamp: capture.timestamp,
   }
+}
 
-  const expected = w * h
-
-  // Handle both grayscale (w*h) and RGBA (w*h*4) representations.
-  let depth01 = new Float32Array(expected)
-  if (data instanceof Uint8Array || data instanceof Uint8ClampedArray) {
-    if (data.length === expected) {
-      for (let i = 0; i < expected; i++) depth01[i] = data[i] / 255
-    } else if (data.length >= expected * 4) {
-      for (let i = 0; i < expected; i++) depth01[i] = (data[i * 4] ?? 128) / 255
-    } else {
-      throw new Error('Unexpected depth buffer size')
+/** Bilinear resample of a row-major grid, sampling pixel centers like the pipeline's own `interpolate`. */
+function resample(src: ArrayLike<number>, sw: number, sh: number, dw: number, dh: number) {
+  const out = new Float32Array(dw * dh)
+  for (let y = 0; y < dh; y++) {
+    const fy = clamp(((y + 0.5) * sh) / dh - 0.5, 0, sh - 1)
+    const y0 = Math.floor(fy)
+    const y1 = Math.min(sh - 1, y0 + 1)
+    const ty = fy - y0
+    for (let x = 0; x < dw; x++) {
+      const fx = clamp(((x + 0.5) * sw) / dw - 0.5, 0, sw - 1)
+      const x0 = Math.floor(fx)
+      const x1 = Math.min(sw - 1, x0 + 1)
+      const tx = fx - x0
+      const top = src[y0 * sw + x0] * (1 - tx) + src[y0 * sw + x1] * tx
+      const bottom = src[y1 * sw + x0] * (1 - tx) + src[y1 * sw + x1] * tx
+      out[y * dw + x] = top * (1 - ty) + bottom * ty
     }
-  } else {
-    throw new Error('Unexpected depth buffer type')
   }
+  return out
+}
 
-  // Compute min/max for debugging / potential remap.
-  let min = 1
-  let max = 0
-  for (let i = 0; i < depth01.length; i++) {
-    const v = depth01[i]
-    if (v < min) min = v
-    if (v > max) max = v
+/** The 8-bit `depth` image as 0..1 values (grayscale or RGBA). */
+function readDepthImage(depthImg: any, expected: number) {
+  const data: unknown = depthImg?.data
+  const out = new Float32Array(expected)
+  if (!(data instanceof Uint8Array || data instanceof Uint8ClampedArray)) {
+    throw new Error('Unexpected depth buffer type')
   }
-  // Stretch to full 0..1 for nicer overlay and stable mapping.
-  const span = Math.max(1e-6, max - min)
-  for (let i = 0; i < depth01.length; i++) {
-    depth01[i] = clamp((depth01[i] - min) / span, 0, 1)
+  if (data.length === expected) {
+    for (let i = 0; i < expected; i++) out[i] = data[i] / 255
+  } else if (data.length >= expected * 4) {
+    for (let i = 0; i < expected; i++) out[i] = (data[i * 4] ?? 128) / 255
+  } else {
+    throw new Error('Unexpected depth buffer size')
   }
-
-  // Higher-res texture for the 3D mesh (same aspect to align with depth)
-  const textureW = Math.max(captureW, Math.floor(opts?.textureW ?? 1280))
-  const textureH = Math.max(2, Math.round(textureW / Math.max(1e-6, aspect)))
-  const rgbCanvas = drawVideoToCanvasCover(video, textureW, textureH)
-
-  return { width: w, height: h, depth01, rgbCanvas, min, max }
+  return out
 }
 
-export async function estimateDepthFromImageURL(imageUrl: string, opts?: DepthCaptureOptions): Promise<DepthResult> {
-  const pipe = await getDepthPipe()
-
-  const img = await loadHtmlImage(imageUrl)
-  const iw = Math.max(1, img.naturalWidth || img.width || 1)
-  const ih = Math.max(1, img.naturalHeight || img.height || 1)
-
-  const viewportW = opts?.viewportW
-  const viewportH = opts?.viewportH
-  const aspect =
-    viewportW && viewportH && viewportW > 0 && viewportH > 0 ? viewportW / viewportH : iw / ih
-
-  const captureW = Math.max(518, Math.floor(opts?.captureW ?? 768))
-  const captureH = Math.max(2, Math.round(captureW / Math.max(1e-6, aspect)))
-  drawImageToCanvasCover(img, iw, ih, captureW, captureH)
-
-  // Feed the original URL to transformers (blob: is fine). This avoids re-encoding quality loss.
-  const image = await RawImage.fromURL(imageUrl)
-  const res: any = await (pipe as any)(image)
-
+/**
+ * Reads the pipeline output into a depth map. The depth-estimation pipeline returns
+ * { predicted_depth, depth }: the float tensor at the model's resolution, and an 8-bit image at the
+ * input size scaled to the frame's maximum. The tensor is kept (resampled to the image size) as
+ * `raw`; the 8-bit image is only used when there is no tensor. `depth01` is `raw` normalized, with
+ * models whose near surfaces come out high flipped to near = 0 in every normalization.
+ */
+export function decodeDepthOutput(
+  res: any,
+  model: DepthModel = getDepthModel(),
+  normalization: DepthNormalization = STRETCH,
+): DepthMap {
   const depthImg = res?.depth ?? res
-  const w = Number(depthImg?.width)
-  const h = Number(depthImg?.height)
-  const data: unknown = depthImg?.data
-
-  if (!Number.isFinite(w) || !Number.isFinite(h) || !data) {
+  const tensor = res?.predicted_depth
+  const dims: number[] | undefined = tensor?.dims
+  const hasTensor = Boolean(tensor?.data && dims && dims.length >= 2)
+  const tw = hasTensor && dims ? dims[dims.length - 1] : 0
+  const th = hasTensor && dims ? dims[dims.length - 2] : 0
+  const w = Number(depthImg?.width) || tw
+  const h = Number(depthImg?.height) || th
+
+  if (!Number.isFinite(w) || !Number.isFinite(h) || w <= 0 || h <= 0 || (!hasTensor && !depthImg?.data)) {
     throw new Error('Unexpected depth output shape')
   }
 
-  const expected = w * h
-
-  let depth01 = new Float32Array(expected)
-  if (data instanceof Uint8Array || data instanceof Uint8ClampedArray) {
-    if (data.length === expected) {
-      for (let i = 0; i < expected; i++) depth01[i] = data[i] / 255
-    } else if (data.length >= expected * 4) {
-      for (let i = 0; i < expected; i++) depth01[i] = (data[i * 4] ?? 128) / 255
-    } else {
-      throw new Error('Unexpected depth buffer size')
-    }
+  let raw: Float32Array
+  if (hasTensor) {
+    raw = tw === w && th === h ? Float32Array.from(tensor.data as ArrayLike<number>) : resample(tensor.data, tw, th, w, h)
   } else {
-    throw new Error('Unexpected depth buffer type')
+    raw = readDepthImage(depthImg, w * h)
   }
 
-  let min = 1
-  let max = 0
-  for (let i = 0; i < depth01.length; i++) {
-    const v = depth01[i]
+  let min = Infinity
+  let max = -Infinity
+  for (let i = 0; i < raw.length; i++) {
+    const v = raw[i]
     if (v < min) min = v
     if (v > max) max = v
   }
-  const span = Math.max(1e-6, max - min)
-  for (let i = 0; i < depth01.length; i++) {
-    depth01[i] = clamp((depth01[i] - min) / span, 0, 1)
+
+  const lo = normalization.kind === 'fixed' ? normalization.min : min
+  const hi = normalization.kind === 'fixed' ? normalization.max : max
+  const span = Math.max(1e-6, hi - lo)
+  const flip = model.output.near === 'high'
+  const depth01 = new Float32Array(raw.length)
+  for (let i = 0; i < raw.length; i++) {
+    const v = clamp((raw[i] - lo) / span, 0, 1)
+    depth01[i] = flip ? 1 - v : v
   }
 
-  const textureW = Math.max(captureW, Math.floor(opts?.textureW ?? 1440))
-  const textureH = Math.max(2, Math.round(textureW / Math.max(1e-6, aspect)))
-  const rgbCanvas = drawImageToCanvasCover(img, iw, ih, textureW, textureH)
+  return { width: w, height: h, depth01, raw, normalization, min, max, model: model.id }
+}
+
+/**
+ * Runs the model on raw RGBA pixels. Works in workers too; there `paths` has to come from the page
+ * (`resolveDepthAssetPaths`).
+ */
+export async function inferDepth(
+  image: ImageData,
+  modelId?: string,
+  paths?: DepthAssetPaths,
+  normalization?: DepthNormalization,
+): Promise<DepthMap> {
+  const model = getDepthModel(modelId)
+  const pipe = await getDepthPipe(model.id, paths)
+  const raw = new RawImage(image.data, image.width, image.height, 4)
+  // TS types for pipelines are very wide; cast to any for RawImage input.
+  const res: any = await (pipe as any)(raw)
+  return decodeDepthOutput(res, model, normalization)
+}
 
-  return { width: w, height: h, depth01, rgbCanvas, min, max }
+/**
+ * Depth for one frame from any supported input: the frame is cover-cropped to the viewport aspect,
+ * run through the model and returned with its crop, source size and capture time.
+ */
+export async function estimateDepth(input: DepthInput, opts?: DepthCaptureOptions): Promise<DepthResult> {
+  let capture: DepthCapture
+  if (input instanceof Blob) {
+    const bitmap = await createImageBitmap(input)
+    try {
+      capture = captureDepthInput(bitmap, opts)
+    } finally {
+      bitmap.close()
+    }
+  } else {
+    capture = captureDepthInput(input, opts)
+  }
+  return completeDepthResult(await inferDepth(capture.image, opts?.modelId, undefined, opts?.normalization), capture)
 }
 
+export async function estimateDepthSingleShot(source: FrameSource, opts?: DepthCaptureOptions): Promise<DepthResult> {
+  return estimateDepth(source, opts)
+}
 
+export async function estimateDepthFromImageURL(imageUrl: string, opts?: DepthCaptureOptions): Promise<DepthResult> {
+  // blob: URLs (picked files) and same-origin images; remote ones need CORS.
+  const res = await fetch(imageUrl)
+  if (!res.ok) throw new Error(`Failed to load image (${res.status}): ${imageUrl}`)
+  return estimateDepth(await res.blob(), { ...opts, textureW: opts?.textureW ?? 1440 })
+}
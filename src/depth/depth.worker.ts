@@ -0,0 +1,72 @@
+// Runs depth inference off the main thread. The page captures and crops the frame itself and
+// transfers the model input pixels in; normalized depth comes back with its inference time.
+import { getDepthPipe, inferDepth, type DepthAssetPaths, type DepthMap } from './depth'
+
+export type DepthWorkerRequest =
+  | { type: 'init'; paths: DepthAssetPaths; modelId: string }
+  | { type: 'frame'; id: number; image: ImageData | ImageBitmap }
+
+export type DepthWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'error'; id: number | null; message: string }
+  | ({ type: 'result'; id: number; ms: number } & DepthMap)
+
+let paths: DepthAssetPaths | null = null
+let modelId: string | null = null
+let canvas: OffscreenCanvas | null = null
+let ctx: OffscreenCanvasRenderingContext2D | null = null
+
+function post(msg: DepthWorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(msg, { transfer })
+}
+
+function errorMessage(err: unknown) {
+  return err instanceof Error ? err.message : String(err)
+}
+
+async function init(msg: Extract<DepthWorkerRequest, { type: 'init' }>) {
+  paths = msg.paths
+  modelId = msg.modelId
+  try {
+    await getDepthPipe(modelId, paths)
+    post({ type: 'ready' })
+  } catch (err) {
+    post({ type: 'error', id: null, message: errorMessage(err) })
+  }
+}
+
+function toImageData(image: ImageData | ImageBitmap): ImageData {
+  if (image instanceof ImageData) return image
+  const { width, height } = image
+  if (!canvas || canvas.width !== width || canvas.height !== height) {
+    canvas = new OffscreenCanvas(width, height)
+    ctx = canvas.getContext('2d', { willReadFrequently: true })
+  }
+  if (!ctx) {
+    image.close()
+    throw new Error('OffscreenCanvas 2D context unavailable')
+  }
+  ctx.drawImage(image, 0, 0)
+  image.close()
+  return ctx.getImageData(0, 0, width, height)
+}
+
+async function processFrame(msg: Extract<DepthWorkerRequest, { type: 'frame' }>) {
+  try {
+    if (paths === null || modelId === null) throw new Error('Depth worker not initialized')
+    const start = performance.now()
+    const map = await inferDepth(toImageData(msg.image), modelId, paths)
+    post({ type: 'result', id: msg.id, ms: performance.now() - start, ...map }, [
+      map.depth01.buffer,
+      map.raw.buffer,
+    ])
+  } catch (err) {
+    post({ type: 'error', id: msg.id, message: errorMessage(err) })
+  }
+}
+
+self.onmessage = (ev: MessageEvent<DepthWorkerRequest>) => {
+  const msg = ev.data
+  if (msg.type === 'init') void init(msg)
+  else if (msg.type === 'frame') void processFrame(msg)
+}
@@ -0,0 +1,123 @@
+import manifest from './models.json'
+
+/**
+ * One file of a model under `public/models/<id>/`. `bytes`/`sha256` are checked when known (the
+ * download script verifies both, preflight only the size); `content` marks a file the hub does not
+ * have, written locally so the loader's request for it does not fall through to index.html.
+ */
+export type DepthModelFile = {
+  path: string
+  bytes?: number | null
+  sha256?: string | null
+  content?: string
+}
+
+/**
+ * What the model's output means: `relative` is up to an unknown scale (and shift), `metric` is in
+ * meters. `near` says whether near surfaces come out as high values (disparity-like) or low ones.
+ */
+export type DepthModelOutput = {
+  kind: 'relative' | 'metric'
+  near: 'high' | 'low'
+}
+
+export type DepthModel = {
+  id: string
+  label: string
+  revision: string
+  quantized: boolean
+  /** Side the processor resizes to; null when it keeps the input size. */
+  inputSize: number | null
+  output: DepthModelOutput
+  files: DepthModelFile[]
+}
+
+/** Shared with `scripts/download_depth_model.mjs`, which fetches the files listed here. */
+export const DEPTH_MODELS = manifest.models as DepthModel[]
+export const DEFAULT_DEPTH_MODEL_ID: string = manifest.default
+
+const STORAGE_KEY = 'mr.depthModel.v1'
+
+/** The registered model with this id, or the default one. */
+export function getDepthModel(id?: string | null): DepthModel {
+  return DEPTH_MODELS.find((m) => m.id === id) ?? DEPTH_MODELS.find((m) => m.id === DEFAULT_DEPTH_MODEL_ID) ?? DEPTH_MODELS[0]
+}
+
+export function loadDepthModelId(): string {
+  try {
+    return getDepthModel(localStorage.getItem(STORAGE_KEY)).id
+  } catch {
+    return getDepthModel().id
+  }
+}
+
+export function saveDepthModelId(id: string) {
+  try {
+    localStorage.setItem(STORAGE_KEY, id)
+  } catch (err) {
+    console.warn('[depth] model save failed', err)
+  }
+}
+
+/**
+ * transformers.js uses Cache API cache named 'transformers-cache'.
+ * If a previous run cached `index.html` under a model JSON URL, subsequent loads can fail with:
+ *   SyntaxError: Unexpected token '<' ... is not valid JSON
+ * even after the path is fixed. Clearing the model's entries avoids this “sticky” failure.
+ */
+export async function clearModelCache(model: DepthModel) {
+  try {
+    if (typeof caches === 'undefined') return
+    const cache = await caches.open('transformers-cache')
+    const keys = await cache.keys()
+    for (const req of keys) {
+      const u = req.url || ''
+      if (u.includes(`/${model.id}/`) || u.includes(model.id)) {
+        await cache.delete(req)
+      }
+    }
+  } catch {
+    // Best-effort: if Cache API isn't accessible (private mode / iframe / policy), ignore.
+  }
+}
+
+/**
+ * Verifies that every manifest file resolves under `localModelPath`: reachable, JSON files really
+ * JSON (not a Vite HTML 404), binaries the expected size. Turns the opaque
+ * JSON.parse("<!doctype...") error into a clear URL+status.
+ */
+export async function preflightDepthModel(model: DepthModel, localModelPath: string) {
+  const modelBase = `${localModelPath.replace(/\/+$/, '')}/${model.id}`
+  for (const file of model.files) {
+    const url = `${modelBase}/${file.path}`
+    const isJson = file.path.endsWith('.json')
+    // Binaries are only sized: a GET would pull the whole model past the cache on every start.
+    const res = await fetch(url, { cache: 'no-store', method: isJson ? 'GET' : 'HEAD' })
+    if (!res.ok) {
+      throw new Error(`Model file not reachable (${res.status}): ${url} — run \`npm run download:depth-model -- ${model.id}\``)
+    }
+    const ct = res.headers.get('content-type') || ''
+    if (isJson) {
+      const text = await res.clone().text()
+      const head = text.slice(0, 96).replace(/\s+/g, ' ')
+      const trimmed = text.trimStart()
+      if (trimmed.startsWith('<') || ct.includes('text/html')) {
+        const trimmedHead = trimmed.slice(0, 96).replace(/\s+/g, ' ')
+        throw new Error(
+          `Model file returned HTML: ${url} (content-type: ${ct}) head="${head}" trimmedHead="${trimmedHead}"`,
+        )
+      }
+      continue
+    }
+    if (ct.includes('text/html')) {
+      throw new Error(`Model file returned HTML: ${url} (content-type: ${ct})`)
+    }
+    if (!file.bytes) {
+      console.warn(`[depth] ${model.id}/${file.path} has no pinned size; run \`npm run download:depth-model -- ${model.id} --pin\``)
+    }
+    const length = Number(res.headers.get('content-length'))
+    if (file.bytes && length > 0 && length !== file.bytes) {
+      throw new Error(`Model file has unexpected size ${length} (expected ${file.bytes}): ${url}`)
+    }
+  }
+}
@@ -2,6 +2,7 @@ import * as THREE from 'three'
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
 import * as SkeletonUtils from 'three/examples/jsm/utils/SkeletonUtils.js'
 import type { PhysicsWorld } from '../../physics/world'
+import { now as clockNow, random } from '../../session/clock'
 
 export type DogTarget = {
   root: THREE.Object3D
@@ -105,7 +106,7 @@ export function createAngryMode(params: { scene: THREE.Scene; physics: PhysicsWo
     clearDogs()
     clearProjectiles()
     state.score = 0
-    state.lastSpawnT = performance.now()
+    state.lastSpawnT = clockNow()
   }
 
   function ensureDogTemplate() {
@@ -142,6 +143,13 @@ export function createAngryMode(params: { scene: THREE.Scene; physics: PhysicsWo
       })
   }
 
+  /** Loads models up front so spawning does not depend on network timing (used by replay). */
+  async function preload() {
+    ensureDogTemplate()
+    ensureProjectileTemplate()
+    await Promise.all([dogTemplatePromise, projectileTemplatePromise])
+  }
+
   function applyDogShading(root: THREE.Object3D) {
     root.traverse((obj) => {
       const mesh = obj as THREE.Mesh
@@ -177,11 +185,11 @@ export function createAngryMode(params: { scene: THREE.Scene; physics: PhysicsWo
   function spawnDog(playerPos: THREE.Vector3) {
     if (state.dogs.length >= MAX_DOGS) return
     if (!dogTemplates.length) return
-    const dogTemplate = dogTemplates[Math.floor(Math.random() * dogTemplates.length)]
+    const dogTemplate = dogTemplates[Math.floor(random() * dogTemplates.length)]
     if (!dogTemplate) return
-    const angle = Math.random() * Math.PI * 2
-    const dist = THREE.MathUtils.lerp(MIN_SPAWN_DIST, MAX_SPAWN_DIST, Math.random())
-    const yOffset = THREE.MathUtils.lerp(DOG_MIN_Y_OFFSET, DOG_MAX_Y_OFFSET, Math.random())
+    const angle = random() * Math.PI * 2
+    const dist = THREE.MathUtils.lerp(MIN_SPAWN_DIST, MAX_SPAWN_DIST, random())
+    const yOffset = THREE.MathUtils.lerp(DOG_MIN_Y_OFFSET, DOG_MAX_Y_OFFSET, random())
     const pos = new THREE.Vector3(
       playerPos.x + Math.cos(angle) * dist,
       Math.max(0.2, playerPos.y + yOffset),
@@ -191,7 +199,7 @@ export function createAngryMode(params: { scene: THREE.Scene; physics: PhysicsWo
     const root = SkeletonUtils.clone(dogTemplate.scene) as THREE.Object3D
     root.position.copy(pos)
     root.scale.setScalar(DOG_SCALE)
-    root.rotation.y = Math.random() * Math.PI * 2
+    root.rotation.y = random() * Math.PI * 2
     applyDogShading(root)
     scene.add(root)
     const bounds = new THREE.Box3().setFromObject(root)
@@ -201,16 +209,16 @@ export function createAngryMode(params: { scene: THREE.Scene; physics: PhysicsWo
       (clip): clip is THREE.AnimationClip => Boolean(clip),
     )
     const idleClip =
-      idleCandidates.length > 0 ? idleCandidates[Math.floor(Math.random() * idleCandidates.length)] : null
+      idleCandidates.length > 0 ? idleCandidates[Math.floor(random() * idleCandidates.length)] : null
     const hitClip = dogTemplate.animations[DOG_HIT_ANIMATION_INDEX] ?? null
     if (idleClip) {
       mixer = new THREE.AnimationMixer(root)
       mixer.clipAction(idleClip).play()
     }
     const offset = new THREE.Vector3(
-      THREE.MathUtils.lerp(-0.6, 0.6, Math.random()),
-      THREE.MathUtils.lerp(-0.4, 0.5, Math.random()),
-      THREE.MathUtils.lerp(-0.6, 0.6, Math.random()),
+      THREE.MathUtils.lerp(-0.6, 0.6, random()),
+      THREE.MathUtils.lerp(-0.4, 0.5, random()),
+      THREE.MathUtils.lerp(-0.6, 0.6, random()),
     )
     state.dogs.push({
       root,
@@ -221,14 +229,14 @@ export function createAngryMode(params: { scene: THREE.Scene; physics: PhysicsWo
       hitRadius: Math.max(DOG_RADIUS, DOG_MIN_HIT_RADIUS, sphere.radius * DOG_HIT_RADIUS_SCALE),
       hitCenterOffset: sphere.center.clone().sub(root.position),
       offset,
-      spawnedAt: performance.now(),
+      spawnedAt: clockNow(),
       isDying: false,
       removeAt: 0,
     })
   }
 
   function updateDogs(dt: number, playerPos: THREE.Vector3) {
-    const now = performance.now()
+    const now = clockNow()
     for (let i = state.dogs.length - 1; i >= 0; i -= 1) {
       const d = state.dogs[i]
       if (!d) continue
@@ -264,7 +272,7 @@ export function createAngryMode(params: { scene: THREE.Scene; physics: PhysicsWo
         const minDist = (a.hitRadius + b.hitRadius) * DOG_COLLISION_RADIUS_SCALE
         if (dist >= minDist) continue
         if (dist < 1e-4) {
-          delta.set(Math.random() - 0.5, 0, Math.random() - 0.5).normalize()
+          delta.set(random() - 0.5, 0, random() - 0.5).normalize()
           dist = 1
         } else {
           delta.multiplyScalar(1 / dist)
@@ -282,7 +290,7 @@ export function createAngryMode(params: { scene: THREE.Scene; physics: PhysicsWo
   }
 
   function checkHits(playerPos: THREE.Vector3) {
-    const now = performance.now()
+    const now = clockNow()
     for (let i = state.projectiles.length - 1; i >= 0; i -= 1) {
       const proj = state.projectiles[i]
       if (now - proj.spawnedAt > PROJECTILE_TTL_MS) {
@@ -297,7 +305,7 @@ export function createAngryMode(params: { scene: THREE.Scene; physics: PhysicsWo
         const center = dog.root.position.clone().add(dog.hitCenterOffset)
         const hitDist = distancePointToSegment(center, proj.prevPosition, curr)
         if (hitDist <= dog.hitRadius + proj.radius) {
-          const nowHit = performance.now()
+          const nowHit = clockNow()
           dog.isDying = true
           if (dog.mixer && dog.hitClip) {
             dog.mixer.stopAllAction()
@@ -330,7 +338,7 @@ export function createAngryMode(params: { scene: THREE.Scene; physics: PhysicsWo
   }
 
   function update(dt: number, playerPos: THREE.Vector3) {
-    const now = performance.now()
+    const now = clockNow()
     ensureDogTemplate()
     ensureProjectileTemplate()
     if (now - state.lastSpawnT >= SPAWN_INTERVAL_MS) {
@@ -466,7 +474,7 @@ export function createAngryMode(params: { scene: THREE.Scene; physics: PhysicsWo
     const body = physics.addSphere(mesh, radius, 0.9)
     const impulse = dir.clone().normalize().multiplyScalar(power)
     body.velocity.set(impulse.x, impulse.y, impulse.z)
-    state.projectiles.push({ body, radius, prevPosition: from.clone(), spawnedAt: performance.now() })
+    state.projectiles.push({ body, radius, prevPosition: from.clone(), spawnedAt: clockNow() })
   }
 
   function distancePointToSegment(point: THREE.Vector3, a: THREE.Vector3, b: THREE.Vector3) {
@@ -482,6 +490,7 @@ export function createAngryMode(params: { scene: THREE.Scene; physics: PhysicsWo
   return {
     state,
     reset,
+    preload,
     update,
     launch,
     showTrajectory,
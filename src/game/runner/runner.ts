@@ -54,5 +54,15 @@ export function createRunner(params: {
     body.velocity.set(0, 0, 0)
   }
 
-  return { mesh, body, setInput, update, setPosition }
+  function reset() {
+    input.moveX = 0
+    input.jumpPressed = false
+    body.position.set(start.x, start.y, start.z)
+    body.quaternion.set(0, 0, 0, 1)
+    body.velocity.set(0, 0, 0)
+    body.angularVelocity.set(0, 0, 0)
+    body.wakeUp()
+  }
+
+  return { mesh, body, setInput, update, setPosition, reset }
 }
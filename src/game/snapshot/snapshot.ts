@@ -0,0 +1,203 @@
+import * as THREE from 'three'
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js'
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
+import * as SkeletonUtils from 'three/examples/jsm/utils/SkeletonUtils.js'
+import type { DepthResult } from '../../depth/depth'
+import { createDepthMesh, type DepthMeshOptions } from '../../depth/depth-mesh'
+import { random } from '../../session/clock'
+
+export type SnapshotObjectKind = 'treasure' | 'dog'
+
+/** The `createDepthMesh` settings the viewer exposes. */
+export type SnapshotMeshOptions = Pick<DepthMeshOptions, 'zScale' | 'stride' | 'invert'>
+
+type DroppedObject = {
+  root: THREE.Object3D
+  /** Position on the relief plane; the height follows the relief when it is rebuilt. */
+  x: number
+  y: number
+  mixer: THREE.AnimationMixer | null
+}
+
+const DOG_MODEL_URL = 'models3D/dogdog.glb'
+// Sizes relative to the relief, which is one unit wide.
+const DOG_HEIGHT = 0.14
+const TREASURE_RADIUS = 0.035
+const BACKGROUND = 0x111317
+
+/**
+ * Freeze-frame viewer: one depth result shown as a textured relief (`createDepthMesh`) in its own
+ * scene, orbited with touch or mouse, with treasures and dogs dropped onto it by tapping.
+ */
+export function createSnapshotMode(params: { renderer: THREE.WebGLRenderer; domElement: HTMLElement }) {
+  const { renderer, domElement } = params
+  const scene = new THREE.Scene()
+  scene.background = new THREE.Color(BACKGROUND)
+  scene.add(new THREE.AmbientLight(0xffffff, 0.8))
+  const sun = new THREE.DirectionalLight(0xffffff, 1.2)
+  sun.position.set(0.5, 1, 1.5)
+  scene.add(sun)
+
+  const camera = new THREE.PerspectiveCamera(50, 1, 0.01, 50)
+  const controls = new OrbitControls(camera, domElement)
+  controls.enabled = false
+  controls.enableDamping = true
+
+  const meshOptions: SnapshotMeshOptions = { zScale: 1.8, stride: 2, invert: true }
+  let depth: DepthResult | null = null
+  let relief: ReturnType<typeof createDepthMesh> | null = null
+  const dropped: DroppedObject[] = []
+  const raycaster = new THREE.Raycaster()
+  const size = new THREE.Vector2()
+
+  let dogTemplate: { scene: THREE.Object3D; animations: THREE.AnimationClip[] } | null = null
+  let dogTemplatePromise: Promise<void> | null = null
+  const treasureMaterial = new THREE.MeshStandardMaterial({ color: 0x56ff8a })
+
+  function ensureDogTemplate() {
+    if (dogTemplate || dogTemplatePromise) return dogTemplatePromise
+    const url = new URL(DOG_MODEL_URL, window.location.href).toString()
+    dogTemplatePromise = new GLTFLoader()
+      .loadAsync(url)
+      .then((gltf) => {
+        dogTemplate = { scene: gltf.scene, animations: gltf.animations }
+      })
+      .catch((err) => {
+        console.warn('[snapshot] dog model load failed', err)
+        dogTemplatePromise = null
+      })
+    return dogTemplatePromise
+  }
+
+  function disposeRelief() {
+    if (!relief) return
+    scene.remove(relief.mesh)
+    relief.geometry.dispose()
+    relief.texture.dispose()
+    ;(relief.mesh.material as THREE.Material).dispose()
+    relief = null
+  }
+
+  /** Highest relief point above (x, y) on the relief plane. */
+  function surfaceAt(x: number, y: number) {
+    if (!relief) return null
+    raycaster.set(new THREE.Vector3(x, y, meshOptions.zScale + 1), new THREE.Vector3(0, 0, -1))
+    return raycaster.intersectObject(relief.mesh, false)[0]?.point ?? null
+  }
+
+  function rebuild() {
+    disposeRelief()
+    if (!depth) return
+    relief = createDepthMesh(depth, { ...meshOptions, anisotropy: renderer.capabilities.getMaxAnisotropy() })
+    scene.add(relief.mesh)
+    relief.mesh.updateMatrixWorld()
+    for (const item of dropped) {
+      const p = surfaceAt(item.x, item.y)
+      if (p) item.root.position.copy(p)
+    }
+  }
+
+  /** Shows a new depth result; dropped objects are cleared and the view is reset. */
+  function show(next: DepthResult) {
+    clearObjects()
+    depth = next
+    rebuild()
+    camera.position.set(0, 0, meshOptions.zScale + 1.3)
+    controls.target.set(0, 0, meshOptions.zScale * 0.5)
+    controls.update()
+  }
+
+  function setMeshOptions(next: Partial<SnapshotMeshOptions>) {
+    Object.assign(meshOptions, next)
+    rebuild()
+  }
+
+  function createObject(kind: SnapshotObjectKind) {
+    if (kind === 'treasure') {
+      const mesh = new THREE.Mesh(new THREE.IcosahedronGeometry(TREASURE_RADIUS, 0), treasureMaterial)
+      mesh.position.y = TREASURE_RADIUS
+      const root = new THREE.Group()
+      root.add(mesh)
+      return { root, mixer: null }
+    }
+    if (!dogTemplate) return null
+    const dog = SkeletonUtils.clone(dogTemplate.scene) as THREE.Object3D
+    const bounds = new THREE.Box3().setFromObject(dog)
+    const height = Math.max(1e-6, bounds.max.y - bounds.min.y)
+    dog.scale.setScalar(DOG_HEIGHT / height)
+    // Feet on the surface point.
+    dog.position.y = -bounds.min.y * (DOG_HEIGHT / height)
+    const root = new THREE.Group()
+    root.add(dog)
+    root.rotation.y = random() * Math.PI * 2
+    const idle = dogTemplate.animations[0]
+    const mixer = idle ? new THREE.AnimationMixer(dog) : null
+    if (mixer && idle) mixer.clipAction(idle).play()
+    return { root, mixer }
+  }
+
+  /** Drops an object where the tap (normalized device coordinates) hits the relief; objects stand upright. */
+  async function dropAt(ndc: THREE.Vector2, kind: SnapshotObjectKind) {
+    if (!relief) return false
+    raycaster.setFromCamera(ndc, camera)
+    const hit = raycaster.intersectObject(relief.mesh, false)[0]
+    if (!hit) return false
+    if (kind === 'dog') await ensureDogTemplate()
+    const created = createObject(kind)
+    if (!created || !relief) return false
+    created.root.position.copy(hit.point)
+    scene.add(created.root)
+    dropped.push({ ...created, x: hit.point.x, y: hit.point.y })
+    return true
+  }
+
+  function clearObjects() {
+    for (const item of dropped) {
+      item.mixer?.stopAllAction()
+      item.root.removeFromParent()
+    }
+    dropped.length = 0
+  }
+
+  /** Orbit input is only taken while the mode is active, so it does not fight the AR modes. */
+  function setActive(active: boolean) {
+    controls.enabled = active
+    if (active) void ensureDogTemplate()
+  }
+
+  function render(dt: number) {
+    renderer.getSize(size)
+    const aspect = size.x / Math.max(1, size.y)
+    if (camera.aspect !== aspect) {
+      camera.aspect = aspect
+      camera.updateProjectionMatrix()
+    }
+    controls.update()
+    for (const item of dropped) item.mixer?.update(dt)
+    renderer.render(scene, camera)
+  }
+
+  function hasSnapshot() {
+    return depth !== null
+  }
+
+  function clear() {
+    clearObjects()
+    disposeRelief()
+    depth = null
+  }
+
+  return {
+    show,
+    setMeshOptions,
+    getMeshOptions: () => ({ ...meshOptions }),
+    dropAt,
+    clearObjects,
+    setActive,
+    render,
+    hasSnapshot,
+    clear,
+  }
+}
+
+export type SnapshotMode = ReturnType<typeof createSnapshotMode>
@@ -1,4 +1,5 @@
 import * as THREE from 'three'
+import { random } from '../../session/clock'
 
 export type TreasureItem = {
   id: string
@@ -15,7 +16,7 @@ export function createTreasureMode(params: { scene: THREE.Scene }) {
     const mat = new THREE.MeshStandardMaterial({ color: 0x56ff8a })
     for (let i = 0; i < 3; i++) {
       const mesh = new THREE.Mesh(new THREE.IcosahedronGeometry(0.12, 0), mat)
-      mesh.position.set(center.x + (Math.random() - 0.5) * 1.2, center.y + 0.1, center.z + (Math.random() - 0.5) * 1.2)
+      mesh.position.set(center.x + (random() - 0.5) * 1.2, center.y + 0.1, center.z + (random() - 0.5) * 1.2)
       scene.add(mesh)
       items.push({ id: `treasure_${i}`, mesh, found: false })
     }
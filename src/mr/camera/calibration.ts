@@ -0,0 +1,228 @@
+import type { FrameSource } from '../frames/frame-source'
+import { detectCheckerboard, type CheckerboardDetection, type CheckerboardSize } from '../vision/checkerboard'
+import { applyHomography, multiplyHomography, smallestEigenvector, type Homography } from '../vision/homography'
+import { scaleIntrinsics, type CameraIntrinsics } from './intrinsics'
+
+/**
+ * - `full`: focal lengths and principal point (Zhang, zero skew), from enough varied views.
+ * - `focal`: one focal length with the principal point at the image center.
+ */
+export type CalibrationModel = 'full' | 'focal'
+
+export type CalibrationResult = {
+  intrinsics: CameraIntrinsics
+  model: CalibrationModel
+  views: number
+}
+
+export type CalibrationOptions = {
+  board: CheckerboardSize
+  /** Views collected before the session reports itself complete. */
+  targetViews: number
+  /** Views needed for the full model; fewer fall back to `focal`. */
+  minFullViews: number
+  /** Longest side of the analysed frame (px). */
+  maxAnalysisSize: number
+  /** A new view must move the board corners by this fraction of the image diagonal. */
+  minViewChange: number
+}
+
+const DEFAULTS: CalibrationOptions = {
+  board: { cols: 9, rows: 6 },
+  targetViews: 10,
+  minFullViews: 5,
+  maxAnalysisSize: 640,
+  minViewChange: 0.08,
+}
+
+// Sanity bounds for the full model; outside them the focal-only model is more trustworthy.
+const MAX_ASPECT_ERROR = 0.1
+const MAX_PRINCIPAL_OFFSET = 0.2
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+/**
+ * Focal length from each homography with the principal point fixed at the image center: the first
+ * two columns of K⁻¹H must be orthogonal and of equal length, each giving one estimate of f².
+ */
+function solveFocal(homographies: Homography[], width: number, height: number): CameraIntrinsics | null {
+  const cx = width / 2
+  const cy = height / 2
+  const shift = [1, 0, -cx, 0, 1, -cy, 0, 0, 1]
+  const estimates: number[] = []
+  for (const h of homographies) {
+    const m = multiplyHomography(shift, h)
+    const [a1, b1, a2, b2, c1, c2] = [m[0], m[3], m[1], m[4], m[6], m[7]]
+    if (Math.abs(c1 * c2) > 1e-12) {
+      const f2 = -(a1 * a2 + b1 * b2) / (c1 * c2)
+      if (f2 > 0) estimates.push(f2)
+    }
+    const d = c1 * c1 - c2 * c2
+    if (Math.abs(d) > 1e-12) {
+      const f2 = -(a1 * a1 + b1 * b1 - a2 * a2 - b2 * b2) / d
+      if (f2 > 0) estimates.push(f2)
+    }
+  }
+  if (estimates.length === 0) return null
+  const f = Math.sqrt(median(estimates))
+  return { width, height, fx: f, fy: f, cx, cy }
+}
+
+/** Zhang's closed form with zero skew, in coordinates normalized for conditioning. */
+function solveFull(homographies: Homography[], width: number, height: number): CameraIntrinsics | null {
+  const s = 2 / (width + height)
+  const norm = [s, 0, -s * width * 0.5, 0, s, -s * height * 0.5, 0, 0, 1]
+  const ata = Array.from({ length: 5 }, () => new Array<number>(5).fill(0))
+  const add = (row: number[]) => {
+    for (let i = 0; i < 5; i++) for (let j = 0; j < 5; j++) ata[i][j] += row[i] * row[j]
+  }
+  for (const raw of homographies) {
+    const h = multiplyHomography(norm, raw)
+    const col = (c: number) => [h[c], h[3 + c], h[6 + c]]
+    // v_ij for b = [B11, B22, B13, B23, B33] (B12 = 0 without skew).
+    const v = (hi: number[], hj: number[]) => [
+      hi[0] * hj[0],
+      hi[1] * hj[1],
+      hi[2] * hj[0] + hi[0] * hj[2],
+      hi[2] * hj[1] + hi[1] * hj[2],
+      hi[2] * hj[2],
+    ]
+    const h1 = col(0)
+    const h2 = col(1)
+    const v11 = v(h1, h1)
+    const v22 = v(h2, h2)
+    add(v(h1, h2))
+    add(v11.map((x, i) => x - v22[i]))
+  }
+  let [b11, b22, b13, b23, b33] = smallestEigenvector(ata)
+  if (b11 < 0) [b11, b22, b13, b23, b33] = [-b11, -b22, -b13, -b23, -b33]
+  if (b11 <= 0 || b22 <= 0) return null
+  const v0 = -b23 / b22
+  const u0 = -b13 / b11
+  const lambda = b33 - (b13 * b13) / b11 - (b23 * b23) / b22
+  if (lambda <= 0) return null
+  const alpha = Math.sqrt(lambda / b11)
+  const beta = Math.sqrt(lambda / b22)
+  return {
+    width,
+    height,
+    fx: alpha / s,
+    fy: beta / s,
+    cx: u0 / s + width * 0.5,
+    cy: v0 / s + height * 0.5,
+  }
+}
+
+function plausible(k: CameraIntrinsics) {
+  return (
+    Math.abs(k.fx / k.fy - 1) < MAX_ASPECT_ERROR &&
+    Math.abs(k.cx / k.width - 0.5) < MAX_PRINCIPAL_OFFSET &&
+    Math.abs(k.cy / k.height - 0.5) < MAX_PRINCIPAL_OFFSET
+  )
+}
+
+/** Estimates intrinsics of a `width`x`height` image from board→image homographies. */
+export function solveIntrinsics(homographies: Homography[], width: number, height: number, minFullViews = DEFAULTS.minFullViews): CalibrationResult | null {
+  if (homographies.length >= minFullViews) {
+    const full = solveFull(homographies, width, height)
+    if (full && plausible(full)) return { intrinsics: full, model: 'full', views: homographies.length }
+  }
+  const focal = solveFocal(homographies, width, height)
+  return focal ? { intrinsics: focal, model: 'focal', views: homographies.length } : null
+}
+
+/**
+ * Collects checkerboard views from a live source. Frames are analysed at a reduced size; the result is
+ * expressed at the source resolution. Views too similar to an accepted one are ignored, since Zhang's
+ * method needs the board at several different tilts.
+ */
+export function createCalibrationSession(opts?: Partial<CalibrationOptions>) {
+  const o: CalibrationOptions = { ...DEFAULTS, ...(opts ?? {}) }
+  const canvas = document.createElement('canvas')
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  const views: Homography[] = []
+  const outlines: { x: number; y: number }[][] = []
+  let analysisW = 0
+  let analysisH = 0
+  let sourceW = 0
+  let sourceH = 0
+
+  function outline(h: Homography) {
+    const { cols, rows } = o.board
+    return [
+      applyHomography(h, { x: 0, y: 0 }),
+      applyHomography(h, { x: cols - 1, y: 0 }),
+      applyHomography(h, { x: cols - 1, y: rows - 1 }),
+      applyHomography(h, { x: 0, y: rows - 1 }),
+    ]
+  }
+
+  function isNewView(h: Homography) {
+    const next = outline(h)
+    const diag = Math.hypot(analysisW, analysisH)
+    for (const prev of outlines) {
+      // Corner order may differ when the board was found transposed; compare the closest pairing.
+      let moved = 0
+      for (const p of next) moved += Math.min(...prev.map((q) => Math.hypot(p.x - q.x, p.y - q.y)))
+      if (moved / next.length < o.minViewChange * diag) return false
+    }
+    return true
+  }
+
+  /**
+   * Analyses the current frame. `detection` is in analysis pixels (`analysisSize`) for drawing;
+   * `accepted` tells whether it was added as a new view.
+   */
+  function addFrame(source: FrameSource): { detection: CheckerboardDetection | null; accepted: boolean } {
+    const size = source.getSize()
+    if (!ctx || !source.isReady() || size.width <= 0 || size.height <= 0) return { detection: null, accepted: false }
+    if (size.width !== sourceW || size.height !== sourceH) {
+      // Resolution changed: earlier views no longer describe this image.
+      views.length = 0
+      outlines.length = 0
+      sourceW = size.width
+      sourceH = size.height
+      const scale = Math.min(1, o.maxAnalysisSize / Math.max(sourceW, sourceH))
+      analysisW = Math.max(1, Math.round(sourceW * scale))
+      analysisH = Math.max(1, Math.round(sourceH * scale))
+      canvas.width = analysisW
+      canvas.height = analysisH
+    }
+    ctx.drawImage(source.element, 0, 0, analysisW, analysisH)
+    const detection = detectCheckerboard(ctx.getImageData(0, 0, analysisW, analysisH), o.board)
+    if (!detection || !isNewView(detection.homography)) return { detection, accepted: false }
+    views.push(detection.homography)
+    outlines.push(outline(detection.homography))
+    return { detection, accepted: true }
+  }
+
+  /** Solves with the views so far; null when there are none or the solve is degenerate. */
+  function solve(): CalibrationResult | null {
+    if (views.length === 0) return null
+    const res = solveIntrinsics(views, analysisW, analysisH, o.minFullViews)
+    if (!res) return null
+    return { ...res, intrinsics: scaleIntrinsics(res.intrinsics, sourceW, sourceH) }
+  }
+
+  function reset() {
+    views.length = 0
+    outlines.length = 0
+    sourceW = 0
+    sourceH = 0
+  }
+
+  return {
+    addFrame,
+    solve,
+    reset,
+    getViewCount: () => views.length,
+    isComplete: () => views.length >= o.targetViews,
+    getAnalysisSize: () => ({ width: analysisW, height: analysisH }),
+    board: o.board,
+  }
+}
+
+export type CalibrationSession = ReturnType<typeof createCalibrationSession>
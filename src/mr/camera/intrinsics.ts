@@ -0,0 +1,154 @@
+import * as THREE from 'three'
+import type { FrameSource } from '../frames/frame-source'
+
+/**
+ * Pinhole intrinsics of a `width`x`height` image, in pixels. Image coordinates are continuous with
+ * the origin at the top-left corner of the first pixel (pixel centers at +0.5), y pointing down.
+ */
+export type CameraIntrinsics = {
+  width: number
+  height: number
+  fx: number
+  fy: number
+  cx: number
+  cy: number
+}
+
+/** Source-pixel rectangle that `object-fit: cover` shows in the viewport. */
+export type CoverCrop = {
+  sx: number
+  sy: number
+  sw: number
+  sh: number
+}
+
+// Typical phone main camera (~26 mm equivalent) across the long side of the sensor.
+const DEFAULT_LONG_SIDE_FOV_DEG = 68
+
+const PROFILES_KEY = 'mr.intrinsics.v1'
+
+/** Best guess without calibration: square pixels, centered principal point. */
+export function guessIntrinsics(width: number, height: number): CameraIntrinsics {
+  const f = Math.max(width, height) / 2 / Math.tan(THREE.MathUtils.degToRad(DEFAULT_LONG_SIDE_FOV_DEG) / 2)
+  return { width, height, fx: f, fy: f, cx: width / 2, cy: height / 2 }
+}
+
+/** Same camera at another resolution (resampled, not cropped). */
+export function scaleIntrinsics(k: CameraIntrinsics, width: number, height: number): CameraIntrinsics {
+  const sx = width / k.width
+  const sy = height / k.height
+  return { width, height, fx: k.fx * sx, fy: k.fy * sy, cx: k.cx * sx, cy: k.cy * sy }
+}
+
+export function coverCrop(srcW: number, srcH: number, viewW: number, viewH: number): CoverCrop {
+  const scale = Math.max(viewW / srcW, viewH / srcH)
+  const sw = viewW / scale
+  const sh = viewH / scale
+  return { sx: (srcW - sw) / 2, sy: (srcH - sh) / 2, sw, sh }
+}
+
+/** Intrinsics of the `crop` of a `k`-sized image, resampled to `outW`x`outH`. */
+export function cropIntrinsics(k: CameraIntrinsics, crop: CoverCrop, outW: number, outH: number): CameraIntrinsics {
+  const sx = outW / crop.sw
+  const sy = outH / crop.sh
+  return {
+    width: outW,
+    height: outH,
+    fx: k.fx * sx,
+    fy: k.fy * sy,
+    cx: (k.cx - crop.sx) * sx,
+    cy: (k.cy - crop.sy) * sy,
+  }
+}
+
+/** Intrinsics of what the viewport shows when the source is displayed with `object-fit: cover`. */
+export function viewportIntrinsics(k: CameraIntrinsics, viewW: number, viewH: number) {
+  return cropIntrinsics(k, coverCrop(k.width, k.height, viewW, viewH), viewW, viewH)
+}
+
+export function intrinsicsFovDeg(k: CameraIntrinsics) {
+  return {
+    horizontal: THREE.MathUtils.radToDeg(2 * Math.atan(k.width / 2 / k.fx)),
+    vertical: THREE.MathUtils.radToDeg(2 * Math.atan(k.height / 2 / k.fy)),
+  }
+}
+
+/**
+ * Sets an off-axis projection matching `k` as displayed in a `viewW`x`viewH` cover-cropped viewport.
+ * `fov`/`aspect` are kept consistent for code that reads them, but `updateProjectionMatrix()` would
+ * drop the principal point, so call this again instead after resizes.
+ */
+export function applyIntrinsicsToCamera(camera: THREE.PerspectiveCamera, k: CameraIntrinsics, viewW: number, viewH: number) {
+  const v = viewportIntrinsics(k, viewW, viewH)
+  const n = camera.near
+  const f = camera.far
+  camera.fov = intrinsicsFovDeg(v).vertical
+  camera.aspect = (v.fy * viewW) / (v.fx * viewH)
+  camera.projectionMatrix.set(
+    (2 * v.fx) / viewW, 0, 1 - (2 * v.cx) / viewW, 0,
+    0, (2 * v.fy) / viewH, (2 * v.cy) / viewH - 1, 0,
+    0, 0, -(f + n) / (f - n), (-2 * f * n) / (f - n),
+    0, 0, -1, 0,
+  )
+  camera.projectionMatrixInverse.copy(camera.projectionMatrix).invert()
+}
+
+/**
+ * Profiles are stored per camera and aspect ratio, normalized to the calibrated resolution; any
+ * stream with the same aspect reuses them via `scaleIntrinsics`.
+ */
+export function intrinsicsProfileKey(source: FrameSource) {
+  const { width, height } = source.getSize()
+  const aspect = height > 0 ? (width / height).toFixed(2) : '0'
+  let device: string = source.kind
+  const stream = source.element instanceof HTMLVideoElement ? source.element.srcObject : null
+  if (stream instanceof MediaStream) {
+    const track = stream.getVideoTracks()[0]
+    device = `camera:${track?.label || track?.getSettings().deviceId || 'default'}`
+  }
+  return `${device}|${aspect}`
+}
+
+function readProfiles(): Record<string, CameraIntrinsics> {
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY)
+    const parsed = raw ? JSON.parse(raw) : null
+    return parsed && typeof parsed === 'object' ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+export function loadIntrinsicsProfile(key: string): CameraIntrinsics | null {
+  const k = readProfiles()[key]
+  if (!k || !(k.width > 0 && k.height > 0 && k.fx > 0 && k.fy > 0)) return null
+  return k
+}
+
+export function saveIntrinsicsProfile(key: string, k: CameraIntrinsics) {
+  const profiles = readProfiles()
+  profiles[key] = k
+  try {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles))
+  } catch (err) {
+    console.warn('[intrinsics] profile save failed', err)
+  }
+}
+
+export function deleteIntrinsicsProfile(key: string) {
+  const profiles = readProfiles()
+  delete profiles[key]
+  try {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles))
+  } catch {
+    // Ignore: storage unavailable.
+  }
+}
+
+/** Calibrated profile for the running source, or the generic guess at the source's resolution. */
+export function resolveSourceIntrinsics(source: FrameSource): { intrinsics: CameraIntrinsics; calibrated: boolean } {
+  const { width, height } = source.getSize()
+  const profile = loadIntrinsicsProfile(intrinsicsProfileKey(source))
+  if (profile) return { intrinsics: scaleIntrinsics(profile, width, height), calibrated: true }
+  return { intrinsics: guessIntrinsics(width, height), calibrated: false }
+}
@@ -0,0 +1,78 @@
+import * as THREE from 'three'
+import type { CameraIntrinsics } from '../camera/intrinsics'
+import type { TrackingPose } from '../tracking/tracker'
+
+/**
+ * Everything an asynchronous consumer (depth, mapping) needs about one captured frame, frozen at
+ * capture time so results that arrive later are placed where the camera was, not where it is now.
+ */
+export type FrameBundle = {
+  /** Clock time (ms) of the capture. */
+  t: number
+  /** Source timestamp of the captured frame (`FrameSource.getTimestamp`). */
+  sourceT: number
+  /** World camera pose at `t`. */
+  pose: TrackingPose
+  /** Intrinsics at the source resolution; null when uncalibrated and unknown. */
+  intrinsics: CameraIntrinsics | null
+}
+
+export type PoseSample = TrackingPose & { t: number }
+
+export type PoseHistoryOptions = {
+  /** How far back poses are kept (ms). */
+  spanMs: number
+  maxSamples: number
+}
+
+const DEFAULTS: PoseHistoryOptions = {
+  spanMs: 3000,
+  maxSamples: 360,
+}
+
+/** Ring of recent world poses that answers "where was the camera at time t". */
+export function createPoseHistory(opts?: Partial<PoseHistoryOptions>) {
+  const o: PoseHistoryOptions = { ...DEFAULTS, ...(opts ?? {}) }
+  let samples: PoseSample[] = []
+
+  function push(t: number, pose: TrackingPose) {
+    const last = samples[samples.length - 1]
+    // Out-of-order or duplicate times would break the interpolation search.
+    if (last && t <= last.t) samples.pop()
+    samples.push({ t, position: pose.position.clone(), quaternion: pose.quaternion.clone() })
+    while (samples.length > o.maxSamples || (samples.length > 1 && t - samples[0].t > o.spanMs)) samples.shift()
+  }
+
+  /**
+   * Pose at `t`, interpolated between the surrounding samples. Times after the newest sample get the
+   * newest pose; times before the oldest one are unknown (null).
+   */
+  function at(t: number): TrackingPose | null {
+    if (samples.length === 0 || t < samples[0].t) return null
+    const last = samples[samples.length - 1]
+    if (t >= last.t) return { position: last.position.clone(), quaternion: last.quaternion.clone() }
+    let lo = 0
+    let hi = samples.length - 1
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1
+      if (samples[mid].t <= t) lo = mid
+      else hi = mid
+    }
+    const a = samples[lo]
+    const b = samples[hi]
+    const f = b.t > a.t ? (t - a.t) / (b.t - a.t) : 0
+    return {
+      position: new THREE.Vector3().lerpVectors(a.position, b.position, f),
+      quaternion: a.quaternion.clone().slerp(b.quaternion, f),
+    }
+  }
+
+  /** The world frame changed; older poses are in the old one. */
+  function clear() {
+    samples = []
+  }
+
+  return { push, at, clear }
+}
+
+export type PoseHistory = ReturnType<typeof createPoseHistory>
@@ -0,0 +1,303 @@
+import { startRearCamera, stopCamera } from '../../camera'
+
+export type FrameSourceKind = 'camera' | 'video' | 'images' | 'replay'
+
+export type FrameSourceStartResult = { ok: true } | { ok: false; error: string; cause?: unknown }
+
+export type FrameSize = {
+  width: number
+  height: number
+}
+
+export type FrameSource = {
+  kind: FrameSourceKind
+  /** Element that shows the current frame. Consumers draw from it with `drawImage`. */
+  element: HTMLVideoElement | HTMLCanvasElement
+  start: () => Promise<FrameSourceStartResult>
+  stop: () => void
+  /** Advances time-driven sources (image sequences). Live media ignores it. */
+  update: (now: number) => void
+  isReady: () => boolean
+  getSize: () => FrameSize
+  /** Capture time of the current frame in ms (source clock, not wall clock). */
+  getTimestamp: () => number
+  /** Resolves when the first frame has real dimensions, or after `timeoutMs`. */
+  whenReady: (timeoutMs?: number) => Promise<void>
+}
+
+export type ImageSequenceFrame = {
+  file: File
+  timestampMs: number
+}
+
+export type ImageSequenceOptions = {
+  /** Used when the folder has no timestamps file. */
+  fps: number
+  loop: boolean
+}
+
+const IMAGE_SEQUENCE_DEFAULTS: ImageSequenceOptions = {
+  fps: 30,
+  loop: true,
+}
+
+const IMAGE_EXT_RE = /\.(jpe?g|png|webp|bmp)$/i
+const TIMESTAMPS_FILE_RE = /^timestamps\.(txt|csv)$/i
+
+function waitForVideoMetadata(video: HTMLVideoElement, timeoutMs: number) {
+  if (video.videoWidth > 0 && video.videoHeight > 0) return Promise.resolve()
+  return new Promise<void>((resolve) => {
+    const onReady = () => resolve()
+    video.addEventListener('loadedmetadata', onReady, { once: true })
+    setTimeout(onReady, timeoutMs)
+  })
+}
+
+export function createCameraSource(video: HTMLVideoElement): FrameSource {
+  let stream: MediaStream | null = null
+  let lastUpdateT = 0
+  // Time of the latest decoded camera frame, where the browser reports it; otherwise the last update.
+  let frameT: number | null = null
+  let frameCallback: number | null = null
+
+  function watchFrames() {
+    if (!('requestVideoFrameCallback' in video)) return
+    const onFrame = (now: number) => {
+      frameT = now
+      frameCallback = video.requestVideoFrameCallback(onFrame)
+    }
+    frameCallback = video.requestVideoFrameCallback(onFrame)
+  }
+
+  function unwatchFrames() {
+    if (frameCallback !== null) video.cancelVideoFrameCallback(frameCallback)
+    frameCallback = null
+    frameT = null
+  }
+
+  async function start(): Promise<FrameSourceStartResult> {
+    // Restarting (after another source borrowed the element) must not leak the old stream.
+    stopCamera(stream)
+    stream = null
+    unwatchFrames()
+    const res = await startRearCamera(video)
+    if (!res.ok) return res
+    stream = res.stream
+    watchFrames()
+    return { ok: true }
+  }
+
+  function stop() {
+    // The element is shared with the video file source; leave it alone if that one has taken over.
+    if (video.srcObject === stream) video.srcObject = null
+    stopCamera(stream)
+    stream = null
+    unwatchFrames()
+  }
+
+  return {
+    kind: 'camera',
+    element: video,
+    start,
+    stop,
+    update: (now) => {
+      lastUpdateT = now
+    },
+    isReady: () => Boolean(stream) && video.videoWidth > 0 && video.videoHeight > 0,
+    getSize: () => ({ width: video.videoWidth, height: video.videoHeight }),
+    getTimestamp: () => frameT ?? lastUpdateT,
+    whenReady: (timeoutMs = 1000) => waitForVideoMetadata(video, timeoutMs),
+  }
+}
+
+export function createVideoFileSource(video: HTMLVideoElement, file: File): FrameSource {
+  let objectUrl: string | null = null
+
+  async function start(): Promise<FrameSourceStartResult> {
+    try {
+      if (objectUrl) URL.revokeObjectURL(objectUrl)
+      objectUrl = URL.createObjectURL(file)
+      video.srcObject = null
+      video.src = objectUrl
+      video.loop = true
+      video.muted = true
+      await waitForVideoMetadata(video, 5000)
+      if (video.videoWidth === 0) {
+        return { ok: false, error: `Cannot decode video file ${file.name}.` }
+      }
+      await video.play()
+      return { ok: true }
+    } catch (cause) {
+      return { ok: false, error: `Failed to play ${file.name}.`, cause }
+    }
+  }
+
+  function stop() {
+    // The element is shared with the camera source; only reset it while it still plays this file.
+    if (objectUrl && !video.srcObject && video.src === objectUrl) {
+      video.pause()
+      video.removeAttribute('src')
+      video.load()
+    }
+    if (objectUrl) URL.revokeObjectURL(objectUrl)
+    objectUrl = null
+  }
+
+  return {
+    kind: 'video',
+    element: video,
+    start,
+    stop,
+    update: () => {},
+    isReady: () => Boolean(objectUrl) && video.videoWidth > 0 && video.videoHeight > 0,
+    getSize: () => ({ width: video.videoWidth, height: video.videoHeight }),
+    getTimestamp: () => video.currentTime * 1000,
+    whenReady: (timeoutMs = 1000) => waitForVideoMetadata(video, timeoutMs),
+  }
+}
+
+function naturalCompare(a: string, b: string) {
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' })
+}
+
+function parseTimestampsText(text: string) {
+  // One frame per line: "<file name> <timestamp ms>" (comma, tab or space separated).
+  const out = new Map<string, number>()
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim()
+    if (!trimmed || trimmed.startsWith('#')) continue
+    const parts = trimmed.split(/[\s,;]+/)
+    if (parts.length < 2) continue
+    const ts = Number(parts[1])
+    if (!Number.isFinite(ts)) continue
+    out.set(parts[0], ts)
+  }
+  return out
+}
+
+/**
+ * Orders the picked files into frames. Timestamps come from `timestamps.txt`/`.csv` in the folder
+ * when present, otherwise frames are spaced evenly at `fps` in natural file-name order.
+ */
+export async function collectImageSequence(files: Iterable<File>, fps = IMAGE_SEQUENCE_DEFAULTS.fps) {
+  const all = Array.from(files)
+  const images = all.filter((f) => IMAGE_EXT_RE.test(f.name)).sort((a, b) => naturalCompare(a.name, b.name))
+  const tsFile = all.find((f) => TIMESTAMPS_FILE_RE.test(f.name))
+  const stamps = tsFile ? parseTimestampsText(await tsFile.text()) : null
+
+  const frames: ImageSequenceFrame[] = []
+  const frameMs = 1000 / Math.max(1, fps)
+  images.forEach((file, i) => {
+    const ts = stamps?.get(file.name)
+    if (stamps && ts === undefined) return
+    frames.push({ file, timestampMs: ts ?? i * frameMs })
+  })
+  frames.sort((a, b) => a.timestampMs - b.timestampMs)
+  return frames
+}
+
+export function createImageSequenceSource(
+  canvas: HTMLCanvasElement,
+  frames: ImageSequenceFrame[],
+  opts?: Partial<ImageSequenceOptions>,
+): FrameSource {
+  const o: ImageSequenceOptions = { ...IMAGE_SEQUENCE_DEFAULTS, ...(opts ?? {}) }
+  const ctxMaybe = canvas.getContext('2d')
+  if (!ctxMaybe) throw new Error('2D context unavailable for image sequence')
+  const ctx = ctxMaybe
+
+  let running = false
+  let startT: number | null = null
+  let shownIndex = -1
+  let pendingIndex = -1
+  let readyWaiters: Array<() => void> = []
+
+  const firstTs = frames[0]?.timestampMs ?? 0
+  const lastTs = frames[frames.length - 1]?.timestampMs ?? 0
+  const frameMs = 1000 / Math.max(1, o.fps)
+  const durationMs = Math.max(frameMs, lastTs - firstTs + frameMs)
+
+  function indexForElapsed(elapsedMs: number) {
+    const t = firstTs + (o.loop ? elapsedMs % durationMs : Math.min(elapsedMs, durationMs))
+    // Frames are sorted; binary search for the last frame captured at or before t.
+    let lo = 0
+    let hi = frames.length - 1
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1
+      if (frames[mid].timestampMs <= t) lo = mid
+      else hi = mid - 1
+    }
+    return lo
+  }
+
+  async function showFrame(index: number) {
+    const frame = frames[index]
+    if (!frame) return
+    pendingIndex = index
+    try {
+      const bitmap = await createImageBitmap(frame.file)
+      // A newer frame may have been requested while decoding; drop this one.
+      if (pendingIndex !== index || !running) {
+        bitmap.close()
+        return
+      }
+      if (canvas.width !== bitmap.width || canvas.height !== bitmap.height) {
+        canvas.width = bitmap.width
+        canvas.height = bitmap.height
+      }
+      ctx.drawImage(bitmap, 0, 0)
+      bitmap.close()
+      shownIndex = index
+      const waiters = readyWaiters
+      readyWaiters = []
+      for (const w of waiters) w()
+    } catch (err) {
+      console.warn(`[frames] failed to decode ${frame.file.name}`, err)
+    } finally {
+      if (pendingIndex === index) pendingIndex = -1
+    }
+  }
+
+  async function start(): Promise<FrameSourceStartResult> {
+    if (frames.length === 0) return { ok: false, error: 'No images found in the selected folder.' }
+    running = true
+    startT = null
+    shownIndex = -1
+    await showFrame(0)
+    if (shownIndex < 0) return { ok: false, error: `Cannot decode ${frames[0].file.name}.` }
+    return { ok: true }
+  }
+
+  function stop() {
+    running = false
+    startT = null
+    shownIndex = -1
+    pendingIndex = -1
+  }
+
+  function update(now: number) {
+    if (!running || frames.length === 0) return
+    if (startT === null) startT = now
+    const next = indexForElapsed(now - startT)
+    if (next === shownIndex || pendingIndex >= 0) return
+    void showFrame(next)
+  }
+
+  return {
+    kind: 'images',
+    element: canvas,
+    start,
+    stop,
+    update,
+    isReady: () => running && shownIndex >= 0,
+    getSize: () => (shownIndex >= 0 ? { width: canvas.width, height: canvas.height } : { width: 0, height: 0 }),
+    getTimestamp: () => frames[shownIndex]?.timestampMs ?? 0,
+    whenReady: (timeoutMs = 1000) => {
+      if (shownIndex >= 0) return Promise.resolve()
+      return new Promise<void>((resolve) => {
+        readyWaiters.push(resolve)
+        setTimeout(resolve, timeoutMs)
+      })
+    },
+  }
+}
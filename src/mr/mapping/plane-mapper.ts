@@ -1,8 +1,16 @@
 import * as THREE from 'three'
 import type { DepthResult } from '../../depth/depth'
+import { computeDepthSurfaces, SURFACE_CLASSES, type DepthSurfaceMap, type SurfaceClass } from '../../depth/depth-surfaces'
+import { now as clockNow, random } from '../../session/clock'
+
+/** Orientation classes that get planes fitted; clutter and unknown pixels are ignored. */
+export type PlaneKind = Extract<SurfaceClass, 'up' | 'down' | 'vertical'>
+
+const PLANE_KINDS: PlaneKind[] = ['up', 'down', 'vertical']
 
 export type WorldSurface = {
   id: string
+  kind: PlaneKind
   normal: THREE.Vector3
   constant: number
   center: THREE.Vector3
@@ -11,6 +19,12 @@ export type WorldSurface = {
   lastSeen: number
 }
 
+/** Lifecycle of tracked surfaces: `updated` fires when a frame refits the surface, not on decay. */
+export type SurfaceEvent =
+  | { type: 'added'; surface: WorldSurface }
+  | { type: 'updated'; surface: WorldSurface }
+  | { type: 'removed'; surface: WorldSurface }
+
 export type PlaneMapperOptions = {
   maxDepthMeters: number
   minDepthMeters: number
@@ -21,6 +35,20 @@ export type PlaneMapperOptions = {
   maxDepth01: number
   maxSurfaceAgeMs: number
   confidenceDecay: number
+  /** Surface classification, see `computeDepthSurfaces`. */
+  normalStep: number
+  horizontalDeg: number
+  verticalDeg: number
+  /** Samples whose own normal is further than this from a candidate plane are not its inliers (degrees). */
+  maxNormalDeviationDeg: number
+  /** Planes extracted per class and frame (a table and the floor are both `up`). */
+  maxPlanesPerKind: number
+  /** Fewer inliers than this end the extraction for a class. */
+  minInliers: number
+  /** A fitted plane joins a tracked surface when their offsets along the normal differ by less than this... */
+  mergeDistance: number
+  /** ...and their patches are no further apart than this beyond their extents (world units). */
+  mergeGap: number
 }
 
 const DEFAULTS: PlaneMapperOptions = {
@@ -33,102 +61,169 @@ const DEFAULTS: PlaneMapperOptions = {
   maxDepth01: 0.98,
   maxSurfaceAgeMs: 5000,
   confidenceDecay: 0.92,
+  normalStep: 2,
+  horizontalDeg: 20,
+  verticalDeg: 20,
+  maxNormalDeviationDeg: 30,
+  maxPlanesPerKind: 3,
+  minInliers: 40,
+  mergeDistance: 0.25,
+  mergeGap: 0.3,
 }
 
+type PlaneSample = { point: THREE.Vector3; normal: THREE.Vector3 }
+
 export class PlaneMapper {
   private surfaces: WorldSurface[] = []
   private opts: PlaneMapperOptions
+  private surfaceMap: DepthSurfaceMap | null = null
+  private nextId = 1
+  private onEvent: (event: SurfaceEvent) => void
 
-  constructor(opts?: Partial<PlaneMapperOptions>) {
+  constructor(opts?: Partial<PlaneMapperOptions>, onEvent?: (event: SurfaceEvent) => void) {
     this.opts = { ...DEFAULTS, ...(opts ?? {}) }
+    this.onEvent = onEvent ?? (() => {})
   }
 
+  /** Tracked surfaces, most confident first. */
   getSurfaces() {
     return this.surfaces
   }
 
+  getSurface(id: string) {
+    return this.surfaces.find((s) => s.id === id) ?? null
+  }
+
+  /** Drops every surface; each gets a `removed` event. */
+  clear() {
+    const removed = this.surfaces
+    this.surfaces = []
+    this.surfaceMap = null
+    for (const surface of removed) this.onEvent({ type: 'removed', surface })
+  }
+
+  /** Normal and class map of the last frame passed to `updateFromDepth`. */
+  getSurfaceMap() {
+    return this.surfaceMap
+  }
+
+  /**
+   * Extracts planes per orientation class (floor-like, ceiling-like, wall) from the frame's surface
+   * map with sequential RANSAC: each fitted plane takes its inliers out of the pool and the next one
+   * is searched in the rest, so a table and the floor can come from the same frame. Every plane is
+   * merged into a matching tracked surface (keeping its id) or starts a new one.
+   */
   updateFromDepth(
     depth: DepthResult,
     camera: THREE.PerspectiveCamera,
     pose: { position: THREE.Vector3; quaternion: THREE.Quaternion },
     scaleMeters = 1,
   ) {
-    const points = this.samplePoints(depth, camera, pose, scaleMeters)
-    if (points.length < 30) return
-
-    const plane = this.ransacPlane(points)
-    if (!plane) return
-
-    const now = performance.now()
-    const existing = this.findSimilarSurface(plane.normal, plane.constant)
-    if (existing) {
-      existing.normal.lerp(plane.normal, 0.2).normalize()
-      existing.constant = THREE.MathUtils.lerp(existing.constant, plane.constant, 0.2)
-      existing.center.lerp(plane.center, 0.2)
-      existing.extent = THREE.MathUtils.lerp(existing.extent, plane.extent, 0.2)
-      existing.confidence = Math.min(1, THREE.MathUtils.lerp(existing.confidence, plane.confidence, 0.4) + 0.1)
-      existing.lastSeen = now
-    } else {
-      this.surfaces.push({
-        id: `surface_${Math.random().toString(36).slice(2, 9)}`,
-        normal: plane.normal,
-        constant: plane.constant,
-        center: plane.center,
-        extent: plane.extent,
-        confidence: Math.max(0.5, plane.confidence),
-        lastSeen: now,
-      })
+    const o = this.opts
+    this.surfaceMap = computeDepthSurfaces(depth, {
+      minDepthMeters: o.minDepthMeters,
+      maxDepthMeters: o.maxDepthMeters,
+      minDepth01: o.minDepth01,
+      maxDepth01: o.maxDepth01,
+      fovDeg: camera.fov,
+      aspect: camera.aspect || 1,
+      normalStep: o.normalStep,
+      horizontalDeg: o.horizontalDeg,
+      verticalDeg: o.verticalDeg,
+      up: new THREE.Vector3(0, 1, 0).applyQuaternion(pose.quaternion.clone().invert()),
+    })
+    const samples = this.samplePoints(this.surfaceMap, pose, scaleMeters)
+
+    const now = clockNow()
+    const added: WorldSurface[] = []
+    const updated = new Set<WorldSurface>()
+    for (const kind of PLANE_KINDS) {
+      let pool = samples[kind]
+      const total = pool.length
+      for (let n = 0; n < o.maxPlanesPerKind && pool.length >= o.minInliers; n++) {
+        const plane = this.ransacPlane(kind, pool, total, pose.position)
+        if (!plane) break
+        const taken = new Set(plane.inliers)
+        pool = pool.filter((p) => !taken.has(p))
+
+        const existing = this.findSimilarSurface(kind, plane)
+        if (existing) {
+          existing.normal.lerp(plane.normal, 0.2).normalize()
+          existing.constant = THREE.MathUtils.lerp(existing.constant, plane.constant, 0.2)
+          existing.center.lerp(plane.center, 0.2)
+          existing.extent = THREE.MathUtils.lerp(existing.extent, plane.extent, 0.2)
+          existing.confidence = Math.min(1, THREE.MathUtils.lerp(existing.confidence, plane.confidence, 0.4) + 0.1)
+          existing.lastSeen = now
+          if (!added.includes(existing)) updated.add(existing)
+        } else {
+          const surface: WorldSurface = {
+            id: `surface_${this.nextId++}`,
+            kind,
+            normal: plane.normal,
+            constant: plane.constant,
+            center: plane.center,
+            extent: plane.extent,
+            confidence: Math.max(0.5, plane.confidence),
+            lastSeen: now,
+          }
+          this.surfaces.push(surface)
+          added.push(surface)
+        }
+      }
     }
-    this.decayAndPrune(now)
+    const removed = this.decayAndPrune(now)
+    for (const surface of removed) this.onEvent({ type: 'removed', surface })
+    for (const surface of added) if (!removed.includes(surface)) this.onEvent({ type: 'added', surface })
+    for (const surface of updated) if (!removed.includes(surface)) this.onEvent({ type: 'updated', surface })
   }
 
+  /** World-space samples (with their per-pixel normals) grouped by orientation class; clutter is dropped. */
   private samplePoints(
-    depth: DepthResult,
-    camera: THREE.PerspectiveCamera,
+    map: DepthSurfaceMap,
     pose: { position: THREE.Vector3; quaternion: THREE.Quaternion },
     scaleMeters: number,
   ) {
-    const points: THREE.Vector3[] = []
-    const w = depth.width
-    const h = depth.height
+    const samples: Record<PlaneKind, PlaneSample[]> = { up: [], down: [], vertical: [] }
+    const { width: w, height: h, points, normals, classes } = map
     const stride = Math.max(1, Math.floor(this.opts.sampleStride))
 
-    const fov = THREE.MathUtils.degToRad(camera.fov)
-    const aspect = camera.aspect || 1
-    const tanFov = Math.tan(fov / 2)
-
     for (let y = 0; y < h; y += stride) {
       for (let x = 0; x < w; x += stride) {
         const i = y * w + x
-        const d01 = depth.depth01[i] ?? 0.5
-        if (!Number.isFinite(d01)) continue
-        if (d01 < this.opts.minDepth01 || d01 > this.opts.maxDepth01) continue
-        const z = THREE.MathUtils.lerp(this.opts.minDepthMeters, this.opts.maxDepthMeters, d01) * scaleMeters
-
-        const nx = (x / (w - 1)) * 2 - 1
-        const ny = -((y / (h - 1)) * 2 - 1)
-        const vx = nx * tanFov * aspect
-        const vy = ny * tanFov
-
-        const camPoint = new THREE.Vector3(vx * z, vy * z, -z)
-        const worldPoint = camPoint.clone().applyQuaternion(pose.quaternion).add(pose.position)
-        points.push(worldPoint)
+        const kind = SURFACE_CLASSES[classes[i]]
+        if (kind !== 'up' && kind !== 'down' && kind !== 'vertical') continue
+        const point = new THREE.Vector3(points[i * 3], points[i * 3 + 1], points[i * 3 + 2])
+          .multiplyScalar(scaleMeters)
+          .applyQuaternion(pose.quaternion)
+          .add(pose.position)
+        const normal = new THREE.Vector3(normals[i * 3], normals[i * 3 + 1], normals[i * 3 + 2]).applyQuaternion(
+          pose.quaternion,
+        )
+        samples[kind].push({ point, normal })
       }
     }
 
-    return points
+    return samples
   }
 
-  private ransacPlane(points: THREE.Vector3[]) {
-    let bestInliers: THREE.Vector3[] = []
+  /** Whether a candidate normal fits the class: horizontal for `up`/`down`, level for walls. */
+  private matchesKind(kind: PlaneKind, normal: THREE.Vector3) {
+    if (kind === 'vertical') return Math.abs(normal.y) <= Math.sin(THREE.MathUtils.degToRad(this.opts.verticalDeg))
+    return Math.abs(normal.y) >= Math.cos(THREE.MathUtils.degToRad(this.opts.horizontalDeg))
+  }
+
+  /** Best plane of the class in `samples`; `total` is the class size the confidence is relative to. */
+  private ransacPlane(kind: PlaneKind, samples: PlaneSample[], total: number, viewer: THREE.Vector3) {
+    let bestInliers: PlaneSample[] = []
     let bestPlane: { normal: THREE.Vector3; constant: number } | null = null
     const iters = this.opts.ransacIterations
     const threshold = this.opts.inlierThreshold
+    const minNormalDot = Math.cos(THREE.MathUtils.degToRad(this.opts.maxNormalDeviationDeg))
 
     for (let i = 0; i < iters; i++) {
-      const a = points[Math.floor(Math.random() * points.length)]
-      const b = points[Math.floor(Math.random() * points.length)]
-      const c = points[Math.floor(Math.random() * points.length)]
+      const a = samples[Math.floor(random() * samples.length)]?.point
+      const b = samples[Math.floor(random() * samples.length)]?.point
+      const c = samples[Math.floor(random() * samples.length)]?.point
       if (!a || !b || !c) continue
 
       const ab = b.clone().sub(a)
@@ -136,12 +231,17 @@ export class PlaneMapper {
       const normal = ab.clone().cross(ac)
       if (normal.lengthSq() < 1e-6) continue
       normal.normalize()
+      if (!this.matchesKind(kind, normal)) continue
+      // Consistent orientation so matching surfaces across frames compare like with like.
+      if (kind === 'up' ? normal.y < 0 : kind === 'down' ? normal.y > 0 : normal.dot(viewer.clone().sub(a)) < 0) {
+        normal.negate()
+      }
       const constant = -normal.dot(a)
 
-      const inliers: THREE.Vector3[] = []
-      for (const p of points) {
-        const dist = Math.abs(normal.dot(p) + constant)
-        if (dist <= threshold) inliers.push(p)
+      const inliers: PlaneSample[] = []
+      for (const s of samples) {
+        const dist = Math.abs(normal.dot(s.point) + constant)
+        if (dist <= threshold && Math.abs(normal.dot(s.normal)) >= minNormalDot) inliers.push(s)
       }
 
       if (inliers.length > bestInliers.length) {
@@ -150,28 +250,30 @@ export class PlaneMapper {
       }
     }
 
-    if (!bestPlane || bestInliers.length < 40) return null
+    if (!bestPlane || bestInliers.length < this.opts.minInliers) return null
 
     const center = new THREE.Vector3()
-    for (const p of bestInliers) center.add(p)
+    for (const s of bestInliers) center.add(s.point)
     center.multiplyScalar(1 / bestInliers.length)
 
     let extent = 0.3
-    for (const p of bestInliers) {
-      const d = p.distanceTo(center)
+    for (const s of bestInliers) {
+      const d = s.point.distanceTo(center)
       if (d > extent) extent = d
     }
 
-    const ratio = bestInliers.length / Math.max(1, points.length)
+    const ratio = bestInliers.length / Math.max(1, total)
     return {
       normal: bestPlane.normal.clone(),
       constant: bestPlane.constant,
       center,
       extent: Math.min(2.0, extent),
       confidence: THREE.MathUtils.clamp(ratio * 1.6, 0.3, 1),
+      inliers: bestInliers,
     }
   }
 
+  /** Decays unseen surfaces and returns the ones dropped. */
   private decayAndPrune(now: number) {
     const maxAge = this.opts.maxSurfaceAgeMs
     for (const s of this.surfaces) {
@@ -181,17 +283,37 @@ export class PlaneMapper {
         s.confidence = Math.max(0, s.confidence * decay)
       }
     }
-    this.surfaces = this.surfaces.filter((s) => now - s.lastSeen <= maxAge && s.confidence > 0.2)
+    const removed: WorldSurface[] = []
+    this.surfaces = this.surfaces.filter((s) => {
+      const keep = now - s.lastSeen <= maxAge && s.confidence > 0.2
+      if (!keep) removed.push(s)
+      return keep
+    })
     this.surfaces.sort((a, b) => b.confidence - a.confidence)
+    return removed
   }
 
-  private findSimilarSurface(normal: THREE.Vector3, constant: number) {
+  /** Closest tracked surface of the same class that is coplanar with `plane` and overlaps or nearly touches it. */
+  private findSimilarSurface(
+    kind: PlaneKind,
+    plane: { normal: THREE.Vector3; constant: number; center: THREE.Vector3; extent: number },
+  ) {
+    let best: WorldSurface | null = null
+    let bestDist = Infinity
     for (const s of this.surfaces) {
-      const align = s.normal.dot(normal)
+      if (s.kind !== kind) continue
+      const align = s.normal.dot(plane.normal)
       if (align < 0.92) continue
-      const dist = Math.abs(s.constant - constant)
-      if (dist < 0.25) return s
+      const dist = Math.abs(s.constant - plane.constant)
+      if (dist >= this.opts.mergeDistance) continue
+      // Two tables at the same height are separate surfaces.
+      const apart = s.center.distanceTo(plane.center)
+      if (apart > s.extent + plane.extent + this.opts.mergeGap) continue
+      if (apart < bestDist) {
+        best = s
+        bestDist = apart
+      }
     }
-    return null
+    return best
   }
 }
@@ -0,0 +1,498 @@
+import * as THREE from 'three'
+import type { DepthResult } from '../../depth/depth'
+
+export type TsdfOptions = {
+  /** Voxel edge (meters). */
+  voxelMeters: number
+  /** Voxels per block edge; blocks are allocated around observed surfaces only. */
+  blockVoxels: number
+  /** Signed distances are clamped to ±this many voxels. */
+  truncationVoxels: number
+  /** Running-average weight cap: higher is steadier, lower forgets moved objects faster. */
+  maxWeight: number
+  /** Depth samples beyond this are not integrated (meters). */
+  maxRangeMeters: number
+  /** Depth pixels integrated per row/column step when allocating blocks. */
+  pixelStride: number
+  /** Blocks farther than this from the camera are dropped (meters). */
+  keepRadiusMeters: number
+  maxBlocks: number
+}
+
+const DEFAULTS: TsdfOptions = {
+  voxelMeters: 0.05,
+  blockVoxels: 8,
+  truncationVoxels: 3,
+  maxWeight: 32,
+  maxRangeMeters: 4,
+  pixelStride: 3,
+  keepRadiusMeters: 6,
+  maxBlocks: 3000,
+}
+
+/** What a point is known to be: inside the truncation band behind a surface counts as occupied. */
+export type SpaceState = 'free' | 'occupied' | 'unknown'
+
+export type SurfaceHit = {
+  point: THREE.Vector3
+  normal: THREE.Vector3
+  /** Along the (normalized) ray direction, in world units. */
+  distance: number
+}
+
+export type TsdfStats = {
+  blocks: number
+  /** Blocks only seen as free space (no voxel storage). */
+  freeBlocks: number
+  frames: number
+  /** World units per voxel, fixed by the first integrated frame. */
+  voxelSize: number
+}
+
+/** Sparse block of voxels. `tsdf`/`weight` are null while the block has only been seen through. */
+type Block = {
+  bx: number
+  by: number
+  bz: number
+  tsdf: Float32Array | null
+  weight: Float32Array | null
+}
+
+function blockKey(bx: number, by: number, bz: number) {
+  return `${bx},${by},${bz}`
+}
+
+/**
+ * Sparse voxel TSDF of the surroundings, fused from posed metric depth frames (`alignDepth`). Voxel
+ * `i` sits at `i * voxelSize` in world coordinates. Blocks near observed surfaces hold truncated
+ * signed distances (positive in front of a surface); blocks rays only passed through are kept as
+ * free-space markers.
+ */
+export function createTsdfVolume(opts?: Partial<TsdfOptions>) {
+  const o: TsdfOptions = { ...DEFAULTS, ...(opts ?? {}) }
+  const bs = o.blockVoxels
+  const bs3 = bs * bs * bs
+  let blocks = new Map<string, Block>()
+  let dirty = new Set<string>()
+  // World units per meter the volume was built in; a different scale starts over.
+  let unitsPerMeter: number | null = null
+  let voxel = o.voxelMeters
+  let frames = 0
+
+  function getBlock(bx: number, by: number, bz: number) {
+    return blocks.get(blockKey(bx, by, bz))
+  }
+
+  function ensureBlock(bx: number, by: number, bz: number, withVoxels: boolean) {
+    const key = blockKey(bx, by, bz)
+    let b = blocks.get(key)
+    if (!b) {
+      b = { bx, by, bz, tsdf: null, weight: null }
+      blocks.set(key, b)
+    }
+    if (withVoxels && !b.tsdf) {
+      b.tsdf = new Float32Array(bs3).fill(1)
+      b.weight = new Float32Array(bs3)
+    }
+    return b
+  }
+
+  /** TSDF and weight of voxel (ix, iy, iz); weight 0 when never observed. */
+  function voxelAt(ix: number, iy: number, iz: number) {
+    const bx = Math.floor(ix / bs)
+    const by = Math.floor(iy / bs)
+    const bz = Math.floor(iz / bs)
+    const b = getBlock(bx, by, bz)
+    if (!b) return null
+    // Seen-through blocks read as observed free space.
+    if (!b.tsdf || !b.weight) return { tsdf: 1, weight: 1 }
+    const i = ((iz - bz * bs) * bs + (iy - by * bs)) * bs + (ix - bx * bs)
+    return { tsdf: b.tsdf[i], weight: b.weight[i] }
+  }
+
+  function setScale(next: number) {
+    if (unitsPerMeter !== null && Math.abs(next / unitsPerMeter - 1) < 0.05) return
+    if (unitsPerMeter !== null) clear()
+    unitsPerMeter = next
+    voxel = o.voxelMeters * next
+  }
+
+  /** Marks the blocks a ray passes through before reaching `toT` (world units along `dir`). */
+  function carve(origin: THREE.Vector3, dir: THREE.Vector3, toT: number) {
+    const blockSize = voxel * bs
+    const step = blockSize * 0.5
+    for (let t = step; t < toT; t += step) {
+      const bx = Math.floor((origin.x + dir.x * t) / blockSize)
+      const by = Math.floor((origin.y + dir.y * t) / blockSize)
+      const bz = Math.floor((origin.z + dir.z * t) / blockSize)
+      if (!getBlock(bx, by, bz) && blocks.size < o.maxBlocks) ensureBlock(bx, by, bz, false)
+    }
+  }
+
+  /**
+   * Fuses one aligned depth frame (needs `metric`, `intrinsics` and `frame`). False when the frame
+   * cannot be used.
+   */
+  function integrate(depth: DepthResult, worldUnitsPerMeter: number) {
+    const metric = depth.metric
+    const k = depth.intrinsics
+    const pose = depth.frame?.pose
+    if (!metric || !k || !pose) return false
+    setScale(worldUnitsPerMeter)
+    const upm = unitsPerMeter ?? 1
+    const trunc = o.truncationVoxels * voxel
+    const blockSize = voxel * bs
+    const w = depth.width
+    const h = depth.height
+    const origin = pose.position
+    const dir = new THREE.Vector3()
+    const p = new THREE.Vector3()
+    const touched = new Set<string>()
+
+    // Allocate blocks around each observed surface point and mark what the ray crossed as free.
+    for (let y = 0; y < h; y += o.pixelStride) {
+      for (let x = 0; x < w; x += o.pixelStride) {
+        const zm = metric[y * w + x]
+        if (!(zm > 0) || zm > o.maxRangeMeters) continue
+        const z = zm * upm
+        dir.set((x + 0.5 - k.cx) / k.fx, -(y + 0.5 - k.cy) / k.fy, -1).applyQuaternion(pose.quaternion)
+        // `dir` has unit camera-axis component, so `z` along it reaches the surface.
+        const len = dir.length()
+        dir.multiplyScalar(1 / len)
+        const range = z * len
+        if ((x / o.pixelStride) % 2 === 0 && (y / o.pixelStride) % 2 === 0) carve(origin, dir, range - trunc)
+        for (const t of [range - trunc, range, range + trunc]) {
+          p.copy(origin).addScaledVector(dir, t)
+          const bx = Math.floor(p.x / blockSize)
+          const by = Math.floor(p.y / blockSize)
+          const bz = Math.floor(p.z / blockSize)
+          const key = blockKey(bx, by, bz)
+          if (touched.has(key)) continue
+          if (!blocks.has(key) && blocks.size >= o.maxBlocks) continue
+          ensureBlock(bx, by, bz, true)
+          touched.add(key)
+        }
+      }
+    }
+
+    // Projective update of every voxel in the touched blocks.
+    const toCamera = new THREE.Matrix4().compose(pose.position, pose.quaternion, new THREE.Vector3(1, 1, 1)).invert()
+    const e = toCamera.elements
+    for (const key of touched) {
+      const b = blocks.get(key)
+      if (!b || !b.tsdf || !b.weight) continue
+      let changed = false
+      for (let vz = 0; vz < bs; vz++) {
+        for (let vy = 0; vy < bs; vy++) {
+          for (let vx = 0; vx < bs; vx++) {
+            const wx = (b.bx * bs + vx) * voxel
+            const wy = (b.by * bs + vy) * voxel
+            const wz = (b.bz * bs + vz) * voxel
+            const cx = e[0] * wx + e[4] * wy + e[8] * wz + e[12]
+            const cy = e[1] * wx + e[5] * wy + e[9] * wz + e[13]
+            const cz = -(e[2] * wx + e[6] * wy + e[10] * wz + e[14])
+            if (cz <= 0) continue
+            const u = Math.floor(k.fx * (cx / cz) + k.cx)
+            const v = Math.floor(k.cy - k.fy * (cy / cz))
+            if (u < 0 || v < 0 || u >= w || v >= h) continue
+            const zm = metric[v * w + u]
+            if (!(zm > 0) || zm > o.maxRangeMeters) continue
+            const sdf = zm * upm - cz
+            if (sdf < -trunc) continue
+            const i = (vz * bs + vy) * bs + vx
+            const value = Math.min(1, sdf / trunc)
+            const wOld = b.weight[i]
+            b.tsdf[i] = (b.tsdf[i] * wOld + value) / (wOld + 1)
+            b.weight[i] = Math.min(o.maxWeight, wOld + 1)
+            changed = true
+          }
+        }
+      }
+      if (changed) {
+        // Surface nets read one voxel into the lower neighbors, so their meshes change too.
+        for (let dz = -1; dz <= 0; dz++) {
+          for (let dy = -1; dy <= 0; dy++) {
+            for (let dx = -1; dx <= 0; dx++) {
+              const nk = blockKey(b.bx + dx, b.by + dy, b.bz + dz)
+              if (blocks.get(nk)?.tsdf) dirty.add(nk)
+            }
+          }
+        }
+      }
+    }
+
+    evict(origin)
+    frames += 1
+    return true
+  }
+
+  function evict(center: THREE.Vector3) {
+    const blockSize = voxel * bs
+    const keep = o.keepRadiusMeters * (unitsPerMeter ?? 1)
+    const keep2 = keep * keep
+    for (const [key, b] of blocks) {
+      const dx = (b.bx + 0.5) * blockSize - center.x
+      const dy = (b.by + 0.5) * blockSize - center.y
+      const dz = (b.bz + 0.5) * blockSize - center.z
+      if (dx * dx + dy * dy + dz * dz <= keep2) continue
+      blocks.delete(key)
+      if (b.tsdf) dirty.add(key)
+    }
+  }
+
+  /** What is known about the world-space point `p`. */
+  function classify(p: THREE.Vector3): SpaceState {
+    if (unitsPerMeter === null) return 'unknown'
+    const s = voxelAt(Math.round(p.x / voxel), Math.round(p.y / voxel), Math.round(p.z / voxel))
+    if (!s || s.weight <= 0) return 'unknown'
+    return s.tsdf > 0 ? 'free' : 'occupied'
+  }
+
+  function isFree(p: THREE.Vector3) {
+    return classify(p) === 'free'
+  }
+
+  /** Trilinear TSDF at a world point; null when any corner is unobserved. */
+  function sample(x: number, y: number, z: number) {
+    const gx = x / voxel
+    const gy = y / voxel
+    const gz = z / voxel
+    const ix = Math.floor(gx)
+    const iy = Math.floor(gy)
+    const iz = Math.floor(gz)
+    const fx = gx - ix
+    const fy = gy - iy
+    const fz = gz - iz
+    let sum = 0
+    for (let c = 0; c < 8; c++) {
+      const ox = c & 1
+      const oy = (c >> 1) & 1
+      const oz = (c >> 2) & 1
+      const s = voxelAt(ix + ox, iy + oy, iz + oz)
+      if (!s || s.weight <= 0) return null
+      sum += s.tsdf * (ox ? fx : 1 - fx) * (oy ? fy : 1 - fy) * (oz ? fz : 1 - fz)
+    }
+    return sum
+  }
+
+  /**
+   * First surface along the ray: where the TSDF crosses from free to occupied. Unallocated space is
+   * skipped a block at a time.
+   */
+  function raycast(origin: THREE.Vector3, direction: THREE.Vector3, maxDistance: number): SurfaceHit | null {
+    if (unitsPerMeter === null) return null
+    const dir = direction.clone().normalize()
+    const blockSize = voxel * bs
+    const fine = voxel * 0.5
+    let prevT = 0
+    let prev: number | null = null
+    let t = 0
+    while (t <= maxDistance) {
+      const x = origin.x + dir.x * t
+      const y = origin.y + dir.y * t
+      const z = origin.z + dir.z * t
+      const b = getBlock(Math.floor(x / blockSize), Math.floor(y / blockSize), Math.floor(z / blockSize))
+      if (!b || !b.tsdf) {
+        prev = null
+        t += b ? fine * 2 : blockSize * 0.5
+        continue
+      }
+      const s = sample(x, y, z)
+      if (s !== null && prev !== null && prev > 0 && s <= 0) {
+        const hitT = prevT + (t - prevT) * (prev / (prev - s))
+        const point = origin.clone().addScaledVector(dir, hitT)
+        return { point, normal: normalAt(point), distance: hitT }
+      }
+      prev = s
+      prevT = t
+      t += fine
+    }
+    return null
+  }
+
+  /** Outward surface normal from the TSDF gradient (zero when unobserved around `p`). */
+  function normalAt(p: THREE.Vector3) {
+    const d = voxel
+    const gx = (sample(p.x + d, p.y, p.z) ?? 0) - (sample(p.x - d, p.y, p.z) ?? 0)
+    const gy = (sample(p.x, p.y + d, p.z) ?? 0) - (sample(p.x, p.y - d, p.z) ?? 0)
+    const gz = (sample(p.x, p.y, p.z + d) ?? 0) - (sample(p.x, p.y, p.z - d) ?? 0)
+    return new THREE.Vector3(gx, gy, gz).normalize()
+  }
+
+  /** Keys of blocks whose mesh changed since the last call (including removed blocks). */
+  function takeDirty(max = Infinity) {
+    const out: string[] = []
+    for (const key of dirty) {
+      if (out.length >= max) break
+      out.push(key)
+    }
+    for (const key of out) dirty.delete(key)
+    return out
+  }
+
+  /** Surface-nets mesh of one block in world coordinates; null when it has no surface (or is gone). */
+  function meshBlock(key: string): { positions: Float32Array; indices: Uint32Array } | null {
+    const b = blocks.get(key)
+    if (!b || !b.tsdf) return null
+    const x0 = b.bx * bs
+    const y0 = b.by * bs
+    const z0 = b.bz * bs
+    // Cells span voxels c..c+1; the block meshes cells x0-1..x0+bs-1 so quads on its edges close up.
+    const n = bs + 1
+    const cellVertex = new Int32Array(n * n * n).fill(-1)
+    const positions: number[] = []
+    const indices: number[] = []
+    const corner = new Float32Array(8)
+
+    const cellIndex = (cx: number, cy: number, cz: number) => ((cz - z0 + 1) * n + (cy - y0 + 1)) * n + (cx - x0 + 1)
+
+    for (let cz = z0 - 1; cz < z0 + bs; cz++) {
+      for (let cy = y0 - 1; cy < y0 + bs; cy++) {
+        for (let cx = x0 - 1; cx < x0 + bs; cx++) {
+          let inside = 0
+          let known = true
+          for (let c = 0; c < 8; c++) {
+            const s = voxelAt(cx + (c & 1), cy + ((c >> 1) & 1), cz + ((c >> 2) & 1))
+            if (!s || s.weight <= 0) {
+              known = false
+              break
+            }
+            corner[c] = s.tsdf
+            if (s.tsdf <= 0) inside++
+          }
+          if (!known || inside === 0 || inside === 8) continue
+          // Vertex at the mean of the edge crossings.
+          let sx = 0
+          let sy = 0
+          let sz = 0
+          let count = 0
+          for (let a = 0; a < 8; a++) {
+            for (const axis of [1, 2, 4]) {
+              if (a & axis) continue
+              const bIdx = a | axis
+              const va = corner[a]
+              const vb = corner[bIdx]
+              if (va <= 0 === vb <= 0) continue
+              const f = va / (va - vb)
+              sx += (a & 1) + (axis === 1 ? f : 0)
+              sy += ((a >> 1) & 1) + (axis === 2 ? f : 0)
+              sz += ((a >> 2) & 1) + (axis === 4 ? f : 0)
+              count++
+            }
+          }
+          cellVertex[cellIndex(cx, cy, cz)] = positions.length / 3
+          positions.push((cx + sx / count) * voxel, (cy + sy / count) * voxel, (cz + sz / count) * voxel)
+        }
+      }
+    }
+
+    // One quad per sign-changing voxel edge owned by this block, joining the four cells around it.
+    for (let vz = z0; vz < z0 + bs; vz++) {
+      for (let vy = y0; vy < y0 + bs; vy++) {
+        for (let vx = x0; vx < x0 + bs; vx++) {
+          const s0 = voxelAt(vx, vy, vz)
+          if (!s0 || s0.weight <= 0) continue
+          for (let axis = 0; axis < 3; axis++) {
+            const s1 = voxelAt(vx + (axis === 0 ? 1 : 0), vy + (axis === 1 ? 1 : 0), vz + (axis === 2 ? 1 : 0))
+            if (!s1 || s1.weight <= 0 || s0.tsdf <= 0 === s1.tsdf <= 0) continue
+            // The two axes across the edge, and the cells at (0,0), (1,0), (1,1), (0,1) offsets back along them.
+            const u = axis === 0 ? [0, 1, 0] : axis === 1 ? [0, 0, 1] : [1, 0, 0]
+            const v = axis === 0 ? [0, 0, 1] : axis === 1 ? [1, 0, 0] : [0, 1, 0]
+            const quad: number[] = []
+            for (const [du, dv] of [
+              [0, 0],
+              [1, 0],
+              [1, 1],
+              [0, 1],
+            ]) {
+              const cx = vx - du * u[0] - dv * v[0]
+              const cy = vy - du * u[1] - dv * v[1]
+              const cz = vz - du * u[2] - dv * v[2]
+              quad.push(cellVertex[cellIndex(cx, cy, cz)])
+            }
+            if (quad.some((q) => q < 0)) continue
+            // Face the free side.
+            if (s0.tsdf > 0) indices.push(quad[0], quad[1], quad[2], quad[0], quad[2], quad[3])
+            else indices.push(quad[0], quad[2], quad[1], quad[0], quad[3], quad[2])
+          }
+        }
+      }
+    }
+
+    if (indices.length === 0) return null
+    return { positions: new Float32Array(positions), indices: new Uint32Array(indices) }
+  }
+
+  function clear() {
+    for (const [key, b] of blocks) if (b.tsdf) dirty.add(key)
+    blocks = new Map()
+    unitsPerMeter = null
+    voxel = o.voxelMeters
+    frames = 0
+  }
+
+  function getStats(): TsdfStats {
+    let freeBlocks = 0
+    for (const b of blocks.values()) if (!b.tsdf) freeBlocks++
+    return { blocks: blocks.size, freeBlocks, frames, voxelSize: voxel }
+  }
+
+  return { integrate, classify, isFree, raycast, takeDirty, meshBlock, clear, getStats }
+}
+
+export type TsdfVolume = ReturnType<typeof createTsdfVolume>
+
+export type TsdfMeshOptions = {
+  /** Blocks re-meshed per `update`, to spread the work over frames. */
+  blocksPerUpdate: number
+  material: THREE.Material
+}
+
+/** Scene object that mirrors the volume's surface, re-meshing changed blocks incrementally. */
+export function createTsdfMesh(volume: TsdfVolume, opts?: Partial<TsdfMeshOptions>) {
+  const o: TsdfMeshOptions = {
+    blocksPerUpdate: 6,
+    material: new THREE.MeshNormalMaterial({ transparent: true, opacity: 0.45, side: THREE.DoubleSide }),
+    ...(opts ?? {}),
+  }
+  const group = new THREE.Group()
+  group.name = 'tsdfMesh'
+  const meshes = new Map<string, THREE.Mesh>()
+
+  function update() {
+    for (const key of volume.takeDirty(o.blocksPerUpdate)) {
+      const data = volume.meshBlock(key)
+      let mesh = meshes.get(key)
+      if (!data) {
+        if (mesh) {
+          group.remove(mesh)
+          mesh.geometry.dispose()
+          meshes.delete(key)
+        }
+        continue
+      }
+      const geom = new THREE.BufferGeometry()
+      geom.setAttribute('position', new THREE.BufferAttribute(data.positions, 3))
+      geom.setIndex(new THREE.BufferAttribute(data.indices, 1))
+      geom.computeVertexNormals()
+      if (mesh) {
+        mesh.geometry.dispose()
+        mesh.geometry = geom
+      } else {
+        mesh = new THREE.Mesh(geom, o.material)
+        meshes.set(key, mesh)
+        group.add(mesh)
+      }
+    }
+  }
+
+  function dispose() {
+    for (const mesh of meshes.values()) mesh.geometry.dispose()
+    meshes.clear()
+    group.clear()
+  }
+
+  return { object: group, update, dispose }
+}
+
+export type TsdfMesh = ReturnType<typeof createTsdfMesh>
@@ -0,0 +1,138 @@
+import { now } from '../../session/clock'
+
+export type SensorVector = {
+  x: number
+  y: number
+  z: number
+}
+
+export type OrientationSample = {
+  /** Clock time (ms) when the event was received. */
+  t: number
+  alpha: number | null
+  beta: number | null
+  gamma: number | null
+  absolute: boolean
+}
+
+export type MotionSample = {
+  t: number
+  /** m/s², gravity removed. */
+  acceleration: SensorVector | null
+  /** m/s², gravity included. */
+  accelerationIncludingGravity: SensorVector | null
+  /** deg/s around device z (alpha), x (beta) and y (gamma). */
+  rotationRate: { alpha: number; beta: number; gamma: number } | null
+  /** ms between samples as reported by the browser. */
+  interval: number
+}
+
+export type SensorEvent =
+  | { kind: 'orientation'; sample: OrientationSample }
+  | { kind: 'motion'; sample: MotionSample }
+
+export type SensorHub = {
+  /** Starts listening to window device events. Safe to call more than once. */
+  attach: () => void
+  detach: () => void
+  /** iOS needs an explicit permission prompt from a user gesture. */
+  requestPermission: () => Promise<boolean>
+  /** While not live, window events are ignored and only `emit` feeds subscribers (replay). */
+  setLive: (live: boolean) => void
+  isLive: () => boolean
+  emit: (ev: SensorEvent) => void
+  subscribe: (cb: (ev: SensorEvent) => void) => () => void
+  onOrientation: (cb: (sample: OrientationSample) => void) => () => void
+  onMotion: (cb: (sample: MotionSample) => void) => () => void
+}
+
+function toVector(v: DeviceMotionEventAcceleration | null): SensorVector | null {
+  if (!v || (v.x === null && v.y === null && v.z === null)) return null
+  return { x: v.x ?? 0, y: v.y ?? 0, z: v.z ?? 0 }
+}
+
+export function createSensorHub(): SensorHub {
+  const listeners = new Set<(ev: SensorEvent) => void>()
+  let attached = false
+  let live = true
+
+  function emit(ev: SensorEvent) {
+    for (const cb of listeners) cb(ev)
+  }
+
+  function onDeviceOrientation(ev: DeviceOrientationEvent) {
+    if (!live) return
+    emit({
+      kind: 'orientation',
+      sample: { t: now(), alpha: ev.alpha, beta: ev.beta, gamma: ev.gamma, absolute: ev.absolute },
+    })
+  }
+
+  function onDeviceMotion(ev: DeviceMotionEvent) {
+    if (!live) return
+    const r = ev.rotationRate
+    emit({
+      kind: 'motion',
+      sample: {
+        t: now(),
+        acceleration: toVector(ev.acceleration),
+        accelerationIncludingGravity: toVector(ev.accelerationIncludingGravity),
+        rotationRate: r ? { alpha: r.alpha ?? 0, beta: r.beta ?? 0, gamma: r.gamma ?? 0 } : null,
+        interval: ev.interval,
+      },
+    })
+  }
+
+  function attach() {
+    if (attached || typeof window === 'undefined') return
+    if ('DeviceOrientationEvent' in window) window.addEventListener('deviceorientation', onDeviceOrientation)
+    if ('DeviceMotionEvent' in window) window.addEventListener('devicemotion', onDeviceMotion)
+    attached = true
+  }
+
+  function detach() {
+    if (!attached) return
+    window.removeEventListener('deviceorientation', onDeviceOrientation)
+    window.removeEventListener('devicemotion', onDeviceMotion)
+    attached = false
+  }
+
+  async function requestPermission() {
+    if (!live) return true
+    if (typeof window === 'undefined' || !('DeviceOrientationEvent' in window)) return false
+    const anyOrientation = DeviceOrientationEvent as any
+    if (typeof anyOrientation.requestPermission !== 'function') return true
+    try {
+      return (await anyOrientation.requestPermission()) === 'granted'
+    } catch {
+      return false
+    }
+  }
+
+  function subscribe(cb: (ev: SensorEvent) => void) {
+    listeners.add(cb)
+    return () => {
+      listeners.delete(cb)
+    }
+  }
+
+  return {
+    attach,
+    detach,
+    requestPermission,
+    setLive: (next) => {
+      live = next
+    },
+    isLive: () => live,
+    emit,
+    subscribe,
+    onOrientation: (cb) =>
+      subscribe((ev) => {
+        if (ev.kind === 'orientation') cb(ev.sample)
+      }),
+    onMotion: (cb) =>
+      subscribe((ev) => {
+        if (ev.kind === 'motion') cb(ev.sample)
+      }),
+  }
+}
@@ -0,0 +1,357 @@
+import * as THREE from 'three'
+import { intrinsicsFovDeg, scaleIntrinsics, type CameraIntrinsics } from '../../camera/intrinsics'
+import type { FrameSource } from '../../frames/frame-source'
+import { DEFAULT_PROCESSING, type ProcessingSettings } from '../processing'
+import type { TrackingPose } from '../tracker'
+import type { AlvaFrameResult, AlvaWorkerRequest, AlvaWorkerResponse } from './alva.worker'
+import type {
+  BackendFrame,
+  BackendProcessing,
+  BackendStartContext,
+  BackendStartResult,
+  TrackingBackend,
+} from './backend'
+
+type AlvaInstance = {
+  findCameraPose: (frame: ImageData) => Float32Array | number[] | null
+  findPlane?: () => Float32Array | number[] | null
+  getFramePoints?: () => { x: number; y: number }[]
+  reset?: () => void
+}
+
+type AlvaModule = {
+  AlvaAR: {
+    Initialize: (w: number, h: number, fov?: number) => Promise<AlvaInstance>
+  }
+}
+
+type AlvaUrls = {
+  moduleUrl: string
+  vendorBase: string
+}
+
+const WORKER_INIT_TIMEOUT_MS = 15000
+
+function resolveAlvaUrls(): AlvaUrls {
+  // Resolve through Vite BASE_URL so this also works on GitHub Pages subpath.
+  const appBase = new URL(import.meta.env.BASE_URL, window.location.href).toString()
+  return {
+    moduleUrl: new URL('vendor/alva_ar.js', appBase).toString(),
+    vendorBase: new URL('vendor/', appBase).toString(),
+  }
+}
+
+function canUseSlamWorker() {
+  return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap === 'function'
+}
+
+function computeProcessingSize(srcW: number, srcH: number, settings: ProcessingSettings) {
+  const scale = Math.min(1, settings.maxWidth / srcW, settings.maxHeight / srcH)
+  const w = Math.max(1, Math.round(srcW * scale))
+  const h = Math.max(1, Math.round(srcH * scale))
+  return { w, h }
+}
+
+function poseFromMatrix(m: number[], scale = 1): TrackingPose {
+  // Use the same coordinate fixup as AlvaARConnectorTHREE
+  const mat = new THREE.Matrix4().fromArray(m)
+  const r = new THREE.Quaternion().setFromRotationMatrix(mat)
+  const t = new THREE.Vector3(m[12] ?? 0, m[13] ?? 0, m[14] ?? 0)
+  const quat = new THREE.Quaternion(-r.x, r.y, r.z, r.w)
+  const pos = new THREE.Vector3(t.x, -t.y, -t.z).multiplyScalar(scale)
+  return { position: pos, quaternion: quat }
+}
+
+/**
+ * AlvaAR visual SLAM from `public/vendor/alva_ar.js`. Runs in a worker when possible, otherwise on
+ * the main thread (always for replays, whose poses must not depend on worker latency).
+ */
+export function createAlvaBackend(): TrackingBackend {
+  let source: FrameSource | null = null
+  let urls: AlvaUrls | null = null
+  let alvaModule: AlvaModule | null = null
+  let alva: AlvaInstance | null = null
+  // Worker-hosted AlvaAR. Exactly one frame is in flight; results are picked up by poll().
+  let worker: Worker | null = null
+  let workerBusy = false
+  let workerFrameId = 0
+  let workerResult: { res: AlvaFrameResult; t: number; ms: number } | null = null
+  let canvas: HTMLCanvasElement | null = null
+  let ctx: CanvasRenderingContext2D | null = null
+  let srcW = 0
+  let srcH = 0
+  let frameW = 0
+  let frameH = 0
+  let intrinsics: CameraIntrinsics | null = null
+  // Horizontal FOV for AlvaAR's pinhole model (centered principal point); null keeps its default.
+  let fov: number | null = null
+  let settings: ProcessingSettings = { ...DEFAULT_PROCESSING }
+  let resizing = false
+  let lastAlvaT = 0
+
+  async function loadAlvaModule(urls: AlvaUrls): Promise<AlvaModule | null> {
+    try {
+      if (typeof window !== 'undefined') {
+        const anyGlobal = globalThis as any
+        if (!anyGlobal.Module) {
+          anyGlobal.Module = {
+            locateFile: (path: string) => new URL(path, urls.vendorBase).toString(),
+          }
+        }
+      }
+      const mod = (await import(/* @vite-ignore */ urls.moduleUrl)) as AlvaModule
+      if (typeof mod?.AlvaAR?.Initialize === 'function') {
+        console.info('[alva] module loaded')
+        return mod
+      }
+      return null
+    } catch (err) {
+      console.warn('[alva] module load failed', err)
+      return null
+    }
+  }
+
+  function fovLabel() {
+    return fov === null ? '' : ` fov ${fov.toFixed(1)}°`
+  }
+
+  /** The processing size keeps the source aspect, so the calibration scales over uniformly. */
+  function fovFor(w: number, h: number) {
+    return intrinsics ? intrinsicsFovDeg(scaleIntrinsics(intrinsics, w, h)).horizontal : null
+  }
+
+  function initAlva(mod: AlvaModule, w: number, h: number, fovDeg: number | null) {
+    return fovDeg === null ? mod.AlvaAR.Initialize(w, h) : mod.AlvaAR.Initialize(w, h, fovDeg)
+  }
+
+  function setupCanvas() {
+    canvas = document.createElement('canvas')
+    canvas.width = frameW
+    canvas.height = frameH
+    ctx = canvas.getContext('2d', { willReadFrequently: true })
+  }
+
+  function onWorkerMessage(ev: MessageEvent<AlvaWorkerResponse>) {
+    const msg = ev.data
+    if (msg.type !== 'result') return
+    if (msg.id !== workerFrameId) return
+    workerBusy = false
+    workerResult = { res: msg, t: msg.t, ms: msg.ms }
+  }
+
+  /** Spawns a worker and waits for AlvaAR to initialize in it; null when that fails. */
+  async function startWorker(urls: AlvaUrls, width: number, height: number, fovDeg: number | null): Promise<Worker | null> {
+    if (!canUseSlamWorker()) return null
+    let w: Worker
+    try {
+      w = new Worker(new URL('./alva.worker.ts', import.meta.url), { type: 'module' })
+    } catch (err) {
+      console.warn('[alva] worker unavailable', err)
+      return null
+    }
+    const ok = await new Promise<boolean>((resolve) => {
+      const timer = setTimeout(() => resolve(false), WORKER_INIT_TIMEOUT_MS)
+      w.onmessage = (ev: MessageEvent<AlvaWorkerResponse>) => {
+        if (ev.data.type === 'ready') {
+          clearTimeout(timer)
+          resolve(true)
+        } else if (ev.data.type === 'error') {
+          console.warn('[alva] worker init failed', ev.data.message)
+          clearTimeout(timer)
+          resolve(false)
+        }
+      }
+      w.onerror = (ev) => {
+        console.warn('[alva] worker error', ev.message)
+        clearTimeout(timer)
+        resolve(false)
+      }
+      postToWorker(w, { type: 'init', ...urls, width, height, fov: fovDeg })
+    })
+    if (!ok) {
+      w.terminate()
+      return null
+    }
+    w.onmessage = onWorkerMessage
+    return w
+  }
+
+  function postToWorker(w: Worker, msg: AlvaWorkerRequest, transfer: Transferable[] = []) {
+    w.postMessage(msg, transfer)
+  }
+
+  function submitWorkerFrame(src: FrameSource, t: number) {
+    const w = worker
+    if (!w) return
+    workerBusy = true
+    const id = ++workerFrameId
+    createImageBitmap(src.element, { resizeWidth: frameW, resizeHeight: frameH, resizeQuality: 'low' })
+      .then((bitmap) => {
+        if (worker !== w || id !== workerFrameId) {
+          bitmap.close()
+          return
+        }
+        postToWorker(w, { type: 'frame', id, t, bitmap }, [bitmap])
+      })
+      .catch((err) => {
+        console.warn('[alva] frame capture failed', err)
+        if (id === workerFrameId) workerBusy = false
+      })
+  }
+
+  function toFrame(res: AlvaFrameResult, t: number, costMs: number): BackendFrame {
+    if (!res.pose) return { t, pose: null, plane: null, points: null, costMs }
+    return {
+      t,
+      pose: poseFromMatrix(res.pose),
+      plane: res.plane ? poseFromMatrix(res.plane) : null,
+      points: { points: res.points, width: frameW, height: frameH },
+      costMs,
+    }
+  }
+
+  async function start(startCtx: BackendStartContext): Promise<BackendStartResult> {
+    source = startCtx.source
+    urls = resolveAlvaUrls()
+    await source.whenReady(1000)
+    const size = source.getSize()
+    srcW = size.width || startCtx.width
+    srcH = size.height || startCtx.height
+    settings = { ...startCtx.processing }
+    const sized = computeProcessingSize(srcW, srcH, settings)
+    frameW = sized.w
+    frameH = sized.h
+    intrinsics = startCtx.intrinsics
+    fov = fovFor(frameW, frameH)
+    lastAlvaT = 0
+
+    // Replays keep SLAM on the main thread: worker results land after real-time latency,
+    // which would make the replayed poses depend on machine load.
+    if (source.kind !== 'replay') {
+      worker = await startWorker(urls, frameW, frameH, fov)
+      if (worker) {
+        console.info(`[alva] worker initialized ${frameW}x${frameH}${fovLabel()}, ${source.kind} ${size.width}x${size.height}`)
+        return { ok: true }
+      }
+    }
+
+    alvaModule = await loadAlvaModule(urls)
+    if (!alvaModule?.AlvaAR) return { ok: false, error: 'AlvaAR module not found (place public/vendor/alva_ar.js)' }
+    setupCanvas()
+    console.info(`[alva] init size ${frameW}x${frameH}${fovLabel()}, ${source.kind} ${size.width}x${size.height}`)
+    alva = await initAlva(alvaModule, frameW, frameH, fov)
+    console.info('[alva] initialized')
+    return { ok: true }
+  }
+
+  /** Brings up AlvaAR at the new size next to the running instance and swaps once it is ready. */
+  async function reinitialize(w: number, h: number) {
+    const started = source
+    const nextFov = fovFor(w, h)
+    if (worker && urls) {
+      const next = await startWorker(urls, w, h, nextFov)
+      if (!next || source !== started) {
+        next?.terminate()
+        return false
+      }
+      worker?.terminate()
+      worker = next
+      workerBusy = false
+      workerResult = null
+    } else if (alva && alvaModule) {
+      const next = await initAlva(alvaModule, w, h, nextFov)
+      if (source !== started) return false
+      alva = next
+    } else {
+      return false
+    }
+    frameW = w
+    frameH = h
+    fov = nextFov
+    if (canvas) {
+      canvas.width = w
+      canvas.height = h
+    }
+    console.info(`[alva] re-initialized ${w}x${h}${fovLabel()}`)
+    return true
+  }
+
+  async function setProcessing(next: ProcessingSettings) {
+    const sized = computeProcessingSize(srcW, srcH, next)
+    if (sized.w === frameW && sized.h === frameH) {
+      settings = { ...next }
+      return false
+    }
+    if (resizing || !source) return false
+    resizing = true
+    try {
+      const ok = await reinitialize(sized.w, sized.h)
+      // A failed resize keeps the old size and rate; the controller will ask again.
+      if (ok) settings = { ...next }
+      return ok
+    } catch (err) {
+      console.warn('[alva] re-initialization failed', err)
+      return false
+    } finally {
+      resizing = false
+    }
+  }
+
+  function getProcessing(): BackendProcessing | null {
+    if (!source) return null
+    return { settings: { ...settings }, width: frameW, height: frameH, worker: worker !== null }
+  }
+
+  function stop() {
+    worker?.terminate()
+    worker = null
+    workerBusy = false
+    workerResult = null
+    alva = null
+    alvaModule = null
+    canvas = null
+    ctx = null
+    source = null
+    urls = null
+  }
+
+  function poll(now: number): BackendFrame | null {
+    const minInterval = 1000 / Math.max(1, settings.targetFps)
+    if (worker) {
+      let out: BackendFrame | null = null
+      if (workerResult) {
+        out = toFrame(workerResult.res, workerResult.t, workerResult.ms)
+        workerResult = null
+      }
+      if (source?.isReady() && !workerBusy && now - lastAlvaT >= minInterval) {
+        lastAlvaT = now
+        submitWorkerFrame(source, now)
+      }
+      return out
+    }
+    if (!alva || !ctx || !source?.isReady() || now - lastAlvaT < minInterval) return null
+    lastAlvaT = now
+    ctx.drawImage(source.element, 0, 0, frameW, frameH)
+    const frame = ctx.getImageData(0, 0, frameW, frameH)
+    const costStart = performance.now()
+    const pose = alva.findCameraPose(frame)
+    const ok = Boolean(pose && pose.length === 16)
+    const plane = ok ? alva.findPlane?.() : null
+    return toFrame(
+      {
+        pose: ok && pose ? Array.from(pose) : null,
+        plane: plane && plane.length === 16 ? Array.from(plane) : null,
+        points: ok ? (alva.getFramePoints?.() ?? []) : [],
+      },
+      now,
+      performance.now() - costStart,
+    )
+  }
+
+  function reset() {
+    alva?.reset?.()
+    if (worker) postToWorker(worker, { type: 'reset' })
+  }
+
+  return { kind: 'alva', measurement: 'visual', start, stop, poll, reset, getProcessing, setProcessing }
+}
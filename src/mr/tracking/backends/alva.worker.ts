@@ -0,0 +1,84 @@
+// Runs AlvaAR off the main thread. The tracker transfers downscaled ImageBitmaps in and gets
+// timestamped pose/plane/points back; only one frame is in flight at a time.
+
+export type AlvaWorkerRequest =
+  | { type: 'init'; moduleUrl: string; vendorBase: string; width: number; height: number; fov: number | null }
+  | { type: 'frame'; id: number; t: number; bitmap: ImageBitmap }
+  | { type: 'reset' }
+
+export type AlvaFrameResult = {
+  pose: number[] | null
+  plane: number[] | null
+  points: { x: number; y: number }[]
+}
+
+export type AlvaWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'error'; message: string }
+  | ({ type: 'result'; id: number; t: number; ms: number } & AlvaFrameResult)
+
+type AlvaInstance = {
+  findCameraPose: (frame: ImageData) => Float32Array | number[] | null
+  findPlane?: () => Float32Array | number[] | null
+  getFramePoints?: () => { x: number; y: number }[]
+  reset?: () => void
+}
+
+let alva: AlvaInstance | null = null
+let canvas: OffscreenCanvas | null = null
+let ctx: OffscreenCanvasRenderingContext2D | null = null
+
+function post(msg: AlvaWorkerResponse) {
+  self.postMessage(msg)
+}
+
+async function init(msg: Extract<AlvaWorkerRequest, { type: 'init' }>) {
+  try {
+    const anyGlobal = globalThis as any
+    if (!anyGlobal.Module) {
+      anyGlobal.Module = {
+        locateFile: (path: string) => new URL(path, msg.vendorBase).toString(),
+      }
+    }
+    const mod = await import(/* @vite-ignore */ msg.moduleUrl)
+    if (typeof mod?.AlvaAR?.Initialize !== 'function') throw new Error('AlvaAR export missing')
+    canvas = new OffscreenCanvas(msg.width, msg.height)
+    ctx = canvas.getContext('2d', { willReadFrequently: true })
+    if (!ctx) throw new Error('OffscreenCanvas 2D context unavailable')
+    alva = await (msg.fov === null ? mod.AlvaAR.Initialize(msg.width, msg.height) : mod.AlvaAR.Initialize(msg.width, msg.height, msg.fov))
+    post({ type: 'ready' })
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) })
+  }
+}
+
+function processFrame(msg: Extract<AlvaWorkerRequest, { type: 'frame' }>) {
+  const { bitmap } = msg
+  if (!alva || !canvas || !ctx) {
+    bitmap.close()
+    post({ type: 'result', id: msg.id, t: msg.t, ms: 0, pose: null, plane: null, points: [] })
+    return
+  }
+  const start = performance.now()
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  bitmap.close()
+  const frame = ctx.getImageData(0, 0, canvas.width, canvas.height)
+  const res = alva.findCameraPose(frame)
+  let pose: number[] | null = null
+  let plane: number[] | null = null
+  let points: { x: number; y: number }[] = []
+  if (res && res.length === 16) {
+    pose = Array.from(res)
+    const p = alva.findPlane?.()
+    if (p && p.length === 16) plane = Array.from(p)
+    points = alva.getFramePoints?.() ?? []
+  }
+  post({ type: 'result', id: msg.id, t: msg.t, ms: performance.now() - start, pose, plane, points })
+}
+
+self.onmessage = (ev: MessageEvent<AlvaWorkerRequest>) => {
+  const msg = ev.data
+  if (msg.type === 'init') void init(msg)
+  else if (msg.type === 'frame') processFrame(msg)
+  else if (msg.type === 'reset') alva?.reset?.()
+}
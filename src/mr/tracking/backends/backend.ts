@@ -0,0 +1,75 @@
+import type { FrameSource } from '../../frames/frame-source'
+import type { CameraIntrinsics } from '../../camera/intrinsics'
+import type { SensorHub } from '../../sensors/sensors'
+import type { ProcessingSettings } from '../processing'
+import type { TrackingPlane, TrackingPoints, TrackingPose } from '../tracker'
+
+export type TrackingBackendKind = 'alva' | 'sensor' | 'webxr' | 'simulated'
+
+export type TrackingBackendPreference = 'auto' | TrackingBackendKind
+
+/**
+ * How the controller treats a backend's poses:
+ * - `visual`: camera pose in an arbitrary SLAM frame; fused with the IMU and gravity-aligned.
+ * - `orientation`: earth-frame orientation plus dead-reckoned position; fused with the gyro.
+ * - `world`: already smooth and gravity-aligned with the floor at y = 0; passed through as is.
+ */
+export type TrackingMeasurement = 'visual' | 'orientation' | 'world'
+
+export type BackendFrame = {
+  /** Capture time (clock ms) of the pose. */
+  t: number
+  /** Null when the backend lost tracking for this frame. */
+  pose: TrackingPose | null
+  plane: TrackingPlane | null
+  points: TrackingPoints | null
+  /** Time spent estimating this pose (ms), for backends that measure it. */
+  costMs?: number
+}
+
+export type BackendProcessing = {
+  settings: ProcessingSettings
+  /** Processing frame size in use. */
+  width: number
+  height: number
+  /** Whether pose estimation runs off the main thread. */
+  worker: boolean
+}
+
+export type BackendStartContext = {
+  source: FrameSource
+  sensors: SensorHub
+  /** Whether motion/orientation permission was granted. */
+  sensorsAllowed: boolean
+  /** Processing size hint when the source does not report one yet. */
+  width: number
+  height: number
+  /** Intrinsics at the source resolution; null leaves the backend's own default. */
+  intrinsics: CameraIntrinsics | null
+  /** Initial rate and size for backends with a tunable pipeline. */
+  processing: ProcessingSettings
+  /** Element kept visible over the camera passthrough in WebXR sessions. */
+  overlayRoot?: HTMLElement
+  /**
+   * Called when the backend stops on its own after a successful start (the WebXR session ended),
+   * with the frame source running again.
+   */
+  onEnded?: (reason: string) => void
+}
+
+export type BackendStartResult = { ok: true } | { ok: false; error: string }
+
+export type TrackingBackend = {
+  kind: TrackingBackendKind
+  measurement: TrackingMeasurement
+  start: (ctx: BackendStartContext) => Promise<BackendStartResult>
+  stop: () => void
+  /** Returns the newest result not returned before, or null. Called once per controller update. */
+  poll: (now: number) => BackendFrame | null
+  /** Drops the map or integrated state (world reset, loss recovery). */
+  reset: () => void
+  /** Present on backends with a tunable pipeline (AlvaAR). */
+  getProcessing?: () => BackendProcessing | null
+  /** Resolves true when the change re-created the map, i.e. the raw frame starts over. */
+  setProcessing?: (settings: ProcessingSettings) => Promise<boolean>
+}
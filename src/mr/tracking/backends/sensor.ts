@@ -0,0 +1,80 @@
+import * as THREE from 'three'
+import type { MotionSample, OrientationSample } from '../../sensors/sensors'
+import { deviceOrientationToQuaternion, getScreenAngle } from '../device-frame'
+import type { BackendFrame, BackendStartContext, BackendStartResult, TrackingBackend } from './backend'
+
+/** Device orientation plus naive acceleration integration; the fallback when nothing visual works. */
+export function createSensorBackend(): TrackingBackend {
+  let orientationQ = new THREE.Quaternion()
+  const velocity = new THREE.Vector3()
+  const position = new THREE.Vector3()
+  let lastMotionT = 0
+  // Frames are stamped with the orientation sample time; fusion compensates gyro motion since then.
+  let lastSampleT = 0
+  let lastPolledT = -1
+  let screenAngle = 0
+  let unsubscribe: (() => void) | null = null
+
+  function onDeviceOrientation(ev: OrientationSample) {
+    orientationQ = deviceOrientationToQuaternion(ev, screenAngle)
+    lastSampleT = Math.max(lastSampleT, ev.t)
+  }
+
+  function onDeviceMotion(ev: MotionSample) {
+    const dt = lastMotionT > 0 ? Math.max(0, (ev.t - lastMotionT) / 1000) : 0
+    lastMotionT = ev.t
+
+    const a = ev.acceleration
+    if (!a || dt <= 0) return
+
+    const acc = new THREE.Vector3(a.x, a.y, a.z).applyQuaternion(orientationQ)
+    velocity.addScaledVector(acc, dt)
+    // Damping to reduce drift
+    velocity.multiplyScalar(0.98)
+    position.addScaledVector(velocity, dt)
+  }
+
+  async function start(ctx: BackendStartContext): Promise<BackendStartResult> {
+    if (typeof window === 'undefined' || !('DeviceOrientationEvent' in window)) {
+      return { ok: false, error: 'device orientation not supported' }
+    }
+    if (!ctx.sensorsAllowed) return { ok: false, error: 'sensor permission denied' }
+    screenAngle = getScreenAngle()
+    const offOrientation = ctx.sensors.onOrientation(onDeviceOrientation)
+    const offMotion = ctx.sensors.onMotion(onDeviceMotion)
+    unsubscribe = () => {
+      offOrientation()
+      offMotion()
+    }
+    console.info('[tracking] sensor backend')
+    return { ok: true }
+  }
+
+  function stop() {
+    unsubscribe?.()
+    unsubscribe = null
+    orientationQ.identity()
+    lastMotionT = 0
+    lastSampleT = 0
+    lastPolledT = -1
+    reset()
+  }
+
+  function poll(): BackendFrame | null {
+    if (lastSampleT === lastPolledT) return null
+    lastPolledT = lastSampleT
+    return {
+      t: lastSampleT,
+      pose: { position: position.clone(), quaternion: orientationQ.clone() },
+      plane: null,
+      points: null,
+    }
+  }
+
+  function reset() {
+    position.set(0, 0, 0)
+    velocity.set(0, 0, 0)
+  }
+
+  return { kind: 'sensor', measurement: 'orientation', start, stop, poll, reset }
+}
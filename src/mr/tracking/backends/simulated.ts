@@ -0,0 +1,79 @@
+import * as THREE from 'three'
+import type { BackendFrame, BackendStartResult, TrackingBackend } from './backend'
+
+export type SimulatedKeyframe = {
+  /** ms since the path started. */
+  t: number
+  /** Camera position in the world frame (floor at y = 0). */
+  position: [number, number, number]
+  /** Point the camera looks at. */
+  target: [number, number, number]
+}
+
+/** Standing at eye height, looking at the floor ahead, then a slow lap around a 1 m circle. */
+export const DEFAULT_SIMULATED_PATH: SimulatedKeyframe[] = [
+  { t: 0, position: [0, 1.6, 0], target: [0, 0, -1.5] },
+  { t: 2000, position: [0.15, 1.55, 0], target: [0.2, 0, -1.5] },
+  { t: 4000, position: [1, 1.5, -1], target: [0, 0, -1.5] },
+  { t: 7000, position: [0, 1.5, -2.5], target: [0, 0, -1.5] },
+  { t: 10000, position: [-1, 1.5, -1], target: [0, 0, -1.5] },
+  { t: 13000, position: [0, 1.6, 0], target: [0, 0, -1.5] },
+]
+
+const UP = new THREE.Vector3(0, 1, 0)
+const FLOOR_QUAT = new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 0, 1), UP)
+
+/**
+ * Plays a scripted camera path (looping) instead of tracking anything. Useful on desktop to exercise
+ * the game modes and mapping without a phone; reports the floor as the detected plane.
+ */
+export function createSimulatedBackend(path: SimulatedKeyframe[] = DEFAULT_SIMULATED_PATH): TrackingBackend {
+  const keyframes = [...path].sort((a, b) => a.t - b.t)
+  const duration = keyframes[keyframes.length - 1]?.t ?? 0
+  let startT: number | null = null
+
+  function sample(elapsed: number) {
+    const t = duration > 0 ? elapsed % duration : 0
+    let i = 0
+    while (i < keyframes.length - 2 && keyframes[i + 1].t <= t) i++
+    const a = keyframes[i]
+    const b = keyframes[Math.min(i + 1, keyframes.length - 1)]
+    const span = b.t - a.t
+    const k = span > 0 ? THREE.MathUtils.smootherstep(t, a.t, b.t) : 0
+    const position = new THREE.Vector3(...a.position).lerp(new THREE.Vector3(...b.position), k)
+    const target = new THREE.Vector3(...a.target).lerp(new THREE.Vector3(...b.target), k)
+    const m = new THREE.Matrix4().lookAt(position, target, UP)
+    return { position, target, quaternion: new THREE.Quaternion().setFromRotationMatrix(m) }
+  }
+
+  async function start(): Promise<BackendStartResult> {
+    if (keyframes.length === 0) return { ok: false, error: 'simulated path is empty' }
+    startT = null
+    console.info(`[tracking] simulated path, ${keyframes.length} keyframes, ${(duration / 1000).toFixed(1)}s loop`)
+    return { ok: true }
+  }
+
+  function poll(now: number): BackendFrame | null {
+    if (startT === null) startT = now
+    const s = sample(now - startT)
+    return {
+      t: now,
+      pose: { position: s.position, quaternion: s.quaternion },
+      plane: { position: new THREE.Vector3(s.target.x, 0, s.target.z), quaternion: FLOOR_QUAT.clone() },
+      points: null,
+    }
+  }
+
+  return {
+    kind: 'simulated',
+    measurement: 'world',
+    start,
+    stop: () => {
+      startT = null
+    },
+    poll,
+    reset: () => {
+      startT = null
+    },
+  }
+}
@@ -0,0 +1,171 @@
+import * as THREE from 'three'
+import { now as clockNow } from '../../../session/clock'
+import type { TrackingPlane, TrackingPose } from '../tracker'
+import type { BackendFrame, BackendStartContext, BackendStartResult, TrackingBackend } from './backend'
+
+// XR hit/plane poses carry the surface normal on +Y; tracking planes carry it on +Z.
+const Y_NORMAL_TO_Z = new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 0, 1), new THREE.Vector3(0, 1, 0))
+
+function poseFromTransform(transform: XRRigidTransform): TrackingPose {
+  const p = transform.position
+  const o = transform.orientation
+  return {
+    position: new THREE.Vector3(p.x, p.y, p.z),
+    quaternion: new THREE.Quaternion(o.x, o.y, o.z, o.w),
+  }
+}
+
+function planeFromTransform(transform: XRRigidTransform): TrackingPlane {
+  const pose = poseFromTransform(transform)
+  pose.quaternion.multiply(Y_NORMAL_TO_Z)
+  return pose
+}
+
+function polygonArea(polygon: DOMPointReadOnly[]) {
+  let area = 0
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i]
+    const b = polygon[(i + 1) % polygon.length]
+    area += a.x * b.z - b.x * a.z
+  }
+  return Math.abs(area) / 2
+}
+
+export async function isWebXRArSupported() {
+  try {
+    return Boolean(await navigator.xr?.isSessionSupported('immersive-ar'))
+  } catch {
+    return false
+  }
+}
+
+/**
+ * WebXR `immersive-ar` in a `local-floor` space, so poses are already gravity-aligned with the floor
+ * at y = 0. The surface under the screen centre comes from hit-test, falling back to the largest
+ * detected horizontal plane.
+ *
+ * The session owns the camera: the frame source is stopped and the page is shown through DOM overlay
+ * on top of the passthrough, with an empty XR layer underneath. When the session ends by itself the
+ * source is started again and `onEnded` lets the controller fall back to another backend.
+ */
+export function createWebXRBackend(): TrackingBackend {
+  let session: XRSession | null = null
+  let gl: WebGLRenderingContext | null = null
+  let floorSpace: XRReferenceSpace | null = null
+  let hitSource: XRHitTestSource | null = null
+  let latest: BackendFrame | null = null
+  let fresh = false
+
+  function findPlane(frame: XRFrame): TrackingPlane | null {
+    if (!floorSpace) return null
+    if (hitSource) {
+      const hit = frame.getHitTestResults(hitSource)[0]
+      const hitPose = hit?.getPose(floorSpace)
+      if (hitPose) return planeFromTransform(hitPose.transform)
+    }
+    let best: { plane: XRPlane; area: number } | null = null
+    for (const plane of frame.detectedPlanes ?? []) {
+      if (plane.orientation !== 'horizontal') continue
+      const area = polygonArea(plane.polygon)
+      if (!best || area > best.area) best = { plane, area }
+    }
+    const planePose = best ? frame.getPose(best.plane.planeSpace, floorSpace) : undefined
+    return planePose ? planeFromTransform(planePose.transform) : null
+  }
+
+  function onXRFrame(_time: number, frame: XRFrame) {
+    const s = session
+    if (!s || !floorSpace) return
+    s.requestAnimationFrame(onXRFrame)
+
+    // Frames only flow while a base layer is presented; keep it transparent so the DOM overlay shows.
+    const layer = s.renderState.baseLayer
+    if (gl && layer) {
+      gl.bindFramebuffer(gl.FRAMEBUFFER, layer.framebuffer)
+      gl.clearColor(0, 0, 0, 0)
+      gl.clear(gl.COLOR_BUFFER_BIT)
+    }
+
+    const viewerPose = frame.getViewerPose(floorSpace)
+    latest = {
+      t: clockNow(),
+      pose: viewerPose ? poseFromTransform(viewerPose.transform) : null,
+      plane: viewerPose ? findPlane(frame) : null,
+      points: null,
+    }
+    fresh = true
+  }
+
+  async function start(ctx: BackendStartContext): Promise<BackendStartResult> {
+    const xr = navigator.xr
+    if (!xr || !(await isWebXRArSupported())) return { ok: false, error: 'WebXR immersive-ar not supported' }
+    if (ctx.source.kind !== 'camera') return { ok: false, error: 'WebXR needs the live camera' }
+
+    let cameraStopped = false
+    try {
+      const init: XRSessionInit = {
+        requiredFeatures: ['local-floor'],
+        optionalFeatures: ['hit-test', 'plane-detection', 'dom-overlay'],
+      }
+      if (ctx.overlayRoot) init.domOverlay = { root: ctx.overlayRoot }
+      const s = await xr.requestSession('immersive-ar', init)
+      session = s
+      // The camera goes only once the session is granted; a refused request leaves it running.
+      ctx.source.stop()
+      cameraStopped = true
+      s.addEventListener('end', () => {
+        // Our own `stop` clears `session` first; anything else is the user or the browser ending it.
+        if (session !== s) return
+        stop()
+        void restartCamera(ctx).then((error) => ctx.onEnded?.(error ? `WebXR session ended; ${error}` : 'WebXR session ended'))
+      })
+      gl = document.createElement('canvas').getContext('webgl', { xrCompatible: true, alpha: true })
+      if (!gl) throw new Error('WebGL context for XR layer unavailable')
+      await s.updateRenderState({ baseLayer: new XRWebGLLayer(s, gl) })
+      floorSpace = await s.requestReferenceSpace('local-floor')
+      const viewerSpace = await s.requestReferenceSpace('viewer')
+      hitSource = (await s.requestHitTestSource?.({ space: viewerSpace })?.catch(() => undefined)) ?? null
+      s.requestAnimationFrame(onXRFrame)
+      console.info(`[webxr] session started (hit-test ${hitSource ? 'on' : 'off'})`)
+      return { ok: true }
+    } catch (err) {
+      stop()
+      const cameraError = cameraStopped ? await restartCamera(ctx) : null
+      const message = `WebXR session failed: ${err instanceof Error ? err.message : String(err)}`
+      return { ok: false, error: cameraError ? `${message}; ${cameraError}` : message }
+    }
+  }
+
+  /** Hands the camera back to the page; resolves with an error message when it does not come back. */
+  async function restartCamera(ctx: BackendStartContext) {
+    const res = await ctx.source.start()
+    return res.ok ? null : `camera restart failed: ${res.error}`
+  }
+
+  function stop() {
+    hitSource?.cancel()
+    hitSource = null
+    session?.end().catch(() => {})
+    session = null
+    floorSpace = null
+    gl = null
+    latest = null
+    fresh = false
+  }
+
+  function poll(): BackendFrame | null {
+    if (!fresh) return null
+    fresh = false
+    return latest
+  }
+
+  return {
+    kind: 'webxr',
+    measurement: 'world',
+    start,
+    stop,
+    poll,
+    // The XR runtime owns its map; a world reset only re-anchors content on the app side.
+    reset: () => {},
+  }
+}
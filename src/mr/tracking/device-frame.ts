@@ -0,0 +1,38 @@
+import * as THREE from 'three'
+
+// Device axes (DeviceOrientation/DeviceMotion spec): x to the right of the screen, y toward its top,
+// z out of the screen. A Three camera uses the same axes in portrait; in landscape the screen content
+// is rotated by `screen.orientation.angle` around z.
+
+const Z_AXIS = new THREE.Vector3(0, 0, 1)
+// Device lying flat maps to a camera looking down; this turns it into "looking out of the back".
+const FLAT_TO_CAMERA = new THREE.Quaternion(-Math.SQRT1_2, 0, 0, Math.SQRT1_2)
+
+export function getScreenAngle() {
+  return typeof screen !== 'undefined' ? (screen.orientation?.angle ?? 0) : 0
+}
+
+/** Rotates a device-frame vector (motion sample) into the camera frame for the given screen angle. */
+export function deviceVectorToCamera(x: number, y: number, z: number, screenAngleDeg: number) {
+  const out = new THREE.Vector3(x, y, z)
+  if (screenAngleDeg !== 0) out.applyAxisAngle(Z_AXIS, THREE.MathUtils.degToRad(screenAngleDeg))
+  return out
+}
+
+/**
+ * Camera orientation from deviceorientation angles (same convention as three's DeviceOrientationControls).
+ * The frame has +Y up; when the sample is absolute, -Z points north.
+ */
+export function deviceOrientationToQuaternion(
+  sample: { alpha: number | null; beta: number | null; gamma: number | null },
+  screenAngleDeg: number,
+) {
+  const alpha = THREE.MathUtils.degToRad(sample.alpha ?? 0)
+  const beta = THREE.MathUtils.degToRad(sample.beta ?? 0)
+  const gamma = THREE.MathUtils.degToRad(sample.gamma ?? 0)
+  const q = new THREE.Quaternion().setFromEuler(new THREE.Euler(beta, alpha, -gamma, 'YXZ')).multiply(FLAT_TO_CAMERA)
+  if (screenAngleDeg !== 0) {
+    q.multiply(new THREE.Quaternion().setFromAxisAngle(Z_AXIS, -THREE.MathUtils.degToRad(screenAngleDeg)))
+  }
+  return q
+}
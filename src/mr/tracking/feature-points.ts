@@ -0,0 +1,180 @@
+import * as THREE from 'three'
+import type { CameraIntrinsics } from '../camera/intrinsics'
+import type { TrackingPoints, TrackingPose } from './tracker'
+
+export type FeaturePointOptions = {
+  /** Minimum gap between triangulation passes (ms). */
+  intervalMs: number
+  /** A triangulation partner is the newest frame at least this much older (ms). */
+  minPairAgeMs: number
+  /** Oldest frame kept as a triangulation partner (ms). */
+  maxPairAgeMs: number
+  /** Minimum angle between the two viewing rays of a match (degrees); less leaves depth undetermined. */
+  minParallaxDeg: number
+  /** Candidates whose rays differ more than this are not considered (degrees), bounding the search. */
+  maxParallaxDeg: number
+  /** How far a match may sit off the epipolar line (pixels). */
+  epipolarPx: number
+  /** A match is kept only when the runner-up is at least this many times farther off the line. */
+  ambiguityRatio: number
+  /** Triangulations closer than this merge into one point (fraction of the point's depth). */
+  mergeFraction: number
+  /** Merged triangulations needed before a point is reported. */
+  minObservations: number
+  maxPoints: number
+  /** Points not re-observed for this long are dropped (ms). */
+  maxAgeMs: number
+}
+
+const DEFAULTS: FeaturePointOptions = {
+  intervalMs: 150,
+  minPairAgeMs: 300,
+  maxPairAgeMs: 1500,
+  minParallaxDeg: 1.5,
+  maxParallaxDeg: 12,
+  epipolarPx: 1.5,
+  ambiguityRatio: 2.5,
+  mergeFraction: 0.04,
+  minObservations: 2,
+  maxPoints: 1500,
+  maxAgeMs: 20000,
+}
+
+type Observation = {
+  t: number
+  position: THREE.Vector3
+  /** Unit viewing rays of the frame's feature points, in the tracking frame. */
+  rays: THREE.Vector3[]
+  /** Pixels per radian, to turn ray angles into pixel distances. */
+  focal: number
+}
+
+type MapPoint = { position: THREE.Vector3; observations: number; lastSeen: number }
+
+/**
+ * Sparse 3D feature points from SLAM frames, which only report 2D keypoints. Points of the current
+ * frame are matched to an earlier frame along epipolar lines (unambiguous matches only),
+ * triangulated with the known poses and merged into a small map, in the raw tracking frame.
+ */
+export function createFeatureTriangulator(opts?: Partial<FeaturePointOptions>) {
+  const o: FeaturePointOptions = { ...DEFAULTS, ...(opts ?? {}) }
+  let history: Observation[] = []
+  let points: MapPoint[] = []
+  let lastPassT = -Infinity
+  const minParallaxCos = Math.cos(THREE.MathUtils.degToRad(o.minParallaxDeg))
+  const maxParallaxCos = Math.cos(THREE.MathUtils.degToRad(o.maxParallaxDeg))
+
+  function toObservation(t: number, pose: TrackingPose, frame: TrackingPoints, k: CameraIntrinsics): Observation {
+    const rays = frame.points.map((p) =>
+      new THREE.Vector3((p.x - k.cx) / k.fx, -(p.y - k.cy) / k.fy, -1).normalize().applyQuaternion(pose.quaternion),
+    )
+    return { t, position: pose.position.clone(), rays, focal: (k.fx + k.fy) / 2 }
+  }
+
+  function pickPartner(cur: Observation) {
+    for (let i = history.length - 1; i >= 0; i--) {
+      const prev = history[i]
+      if (cur.t - prev.t > o.maxPairAgeMs) break
+      if (cur.t - prev.t >= o.minPairAgeMs) return prev
+    }
+    return null
+  }
+
+  const n = new THREE.Vector3()
+  const w0 = new THREE.Vector3()
+
+  /** Closest point between the rays `a` (from `ca`) and `b` (from `cb`); null when behind either camera. */
+  function triangulate(ca: THREE.Vector3, a: THREE.Vector3, cb: THREE.Vector3, b: THREE.Vector3) {
+    w0.subVectors(ca, cb)
+    const ab = a.dot(b)
+    const denom = 1 - ab * ab
+    if (denom < 1e-9) return null
+    const d = a.dot(w0)
+    const e = b.dot(w0)
+    const s = (ab * e - d) / denom
+    const t = (e - ab * d) / denom
+    if (s <= 0 || t <= 0) return null
+    const pa = ca.clone().addScaledVector(a, s)
+    const pb = cb.clone().addScaledVector(b, t)
+    return { point: pa.add(pb).multiplyScalar(0.5), depth: t }
+  }
+
+  function match(prev: Observation, cur: Observation, now: number) {
+    const baseline = new THREE.Vector3().subVectors(cur.position, prev.position)
+    if (baseline.lengthSq() === 0) return
+    const found: { point: THREE.Vector3; depth: number }[] = []
+    for (const a of prev.rays) {
+      // Rays of the same 3D point lie in the plane spanned by the baseline and either ray.
+      n.crossVectors(baseline, a)
+      const len = n.length()
+      if (len < 1e-9) continue
+      n.multiplyScalar(1 / len)
+      let best = -1
+      let bestErr = Infinity
+      let secondErr = Infinity
+      for (let j = 0; j < cur.rays.length; j++) {
+        const b = cur.rays[j]
+        if (a.dot(b) < maxParallaxCos) continue
+        const err = Math.abs(n.dot(b)) * cur.focal
+        if (err < bestErr) {
+          secondErr = bestErr
+          bestErr = err
+          best = j
+        } else if (err < secondErr) {
+          secondErr = err
+        }
+      }
+      if (best < 0 || bestErr > o.epipolarPx || secondErr < bestErr * o.ambiguityRatio) continue
+      if (a.dot(cur.rays[best]) > minParallaxCos) continue
+      const hit = triangulate(prev.position, a, cur.position, cur.rays[best])
+      if (hit) found.push(hit)
+    }
+    for (const hit of found) merge(hit.point, hit.depth, now)
+  }
+
+  function merge(point: THREE.Vector3, depth: number, now: number) {
+    const radius = depth * o.mergeFraction
+    const r2 = radius * radius
+    for (const p of points) {
+      if (p.position.distanceToSquared(point) > r2) continue
+      p.observations += 1
+      p.position.lerp(point, 1 / p.observations)
+      p.lastSeen = now
+      return
+    }
+    points.push({ position: point, observations: 1, lastSeen: now })
+  }
+
+  /** A tracked SLAM frame: its raw pose, 2D feature points and intrinsics at the points' resolution. */
+  function push(t: number, pose: TrackingPose, frame: TrackingPoints | null, k: CameraIntrinsics | null) {
+    if (!frame || !k || frame.points.length === 0) return
+    if (t - lastPassT < o.intervalMs) return
+    lastPassT = t
+    const cur = toObservation(t, pose, frame, k)
+    const prev = pickPartner(cur)
+    if (prev) match(prev, cur, t)
+    history.push(cur)
+    while (history.length > 0 && t - history[0].t > o.maxPairAgeMs) history.shift()
+    points = points.filter((p) => t - p.lastSeen <= o.maxAgeMs)
+    if (points.length > o.maxPoints) {
+      points.sort((a, b) => b.lastSeen - a.lastSeen)
+      points.length = o.maxPoints
+    }
+  }
+
+  /** Confirmed points in the raw tracking frame. */
+  function getPoints(): THREE.Vector3[] {
+    return points.filter((p) => p.observations >= o.minObservations).map((p) => p.position.clone())
+  }
+
+  /** The raw frame changed (new SLAM map); the points are in the old one. */
+  function clear() {
+    history = []
+    points = []
+    lastPassT = -Infinity
+  }
+
+  return { push, getPoints, clear }
+}
+
+export type FeatureTriangulator = ReturnType<typeof createFeatureTriangulator>
@@ -0,0 +1,250 @@
+import * as THREE from 'three'
+import type { MotionSample } from '../sensors/sensors'
+import { deviceVectorToCamera } from './device-frame'
+
+export type FusionPose = {
+  position: THREE.Vector3
+  quaternion: THREE.Quaternion
+}
+
+export type FusionStats = {
+  /** 1-sigma orientation uncertainty (rad). */
+  rotStd: number
+  /** 1-sigma position uncertainty (tracking units). */
+  posStd: number
+  /** 0..1 summary of the two above, for UI. */
+  confidence: number
+  /** True once gyro samples are flowing. */
+  imu: boolean
+  /** Estimated gyro bias (rad/s, camera frame). */
+  gyroBias: { x: number; y: number; z: number }
+}
+
+export type FusionOptions = {
+  /** Gyro white noise (rad/s/√Hz). */
+  gyroNoise: number
+  /** Accelerometer white noise (m/s²/√Hz). */
+  accelNoise: number
+  /** Visual measurement noise: orientation (rad) and position (units). */
+  visualRotNoise: number
+  visualPosNoise: number
+  /** Absolute orientation (deviceorientation) noise (rad). */
+  orientationNoise: number
+  /** Velocity decay per second while integrating accelerometer (limits drift). */
+  velocityDamping: number
+  /** How fast gyro bias follows the visual residual (0..1 per correction). */
+  biasGain: number
+  /** IMU samples kept for latency compensation of visual measurements. */
+  historyMs: number
+  /** References for mapping std to confidence. */
+  rotStdRef: number
+  posStdRef: number
+}
+
+const DEFAULTS: FusionOptions = {
+  gyroNoise: 0.015,
+  accelNoise: 0.25,
+  visualRotNoise: 0.02,
+  visualPosNoise: 0.02,
+  orientationNoise: 0.12,
+  velocityDamping: 1.2,
+  biasGain: 0.02,
+  historyMs: 500,
+  rotStdRef: THREE.MathUtils.degToRad(10),
+  posStdRef: 0.3,
+}
+
+const MAX_ROT_VAR = Math.PI * Math.PI
+const MAX_POS_VAR = 100
+
+type ImuStep = {
+  t: number
+  dq: THREE.Quaternion
+}
+
+/**
+ * Simplified visual-inertial filter. State is orientation, position and velocity; the covariance is
+ * tracked as one scalar variance per group, which keeps the update cheap enough for every sensor
+ * event while still weighting SLAM against IMU the way a Kalman filter would.
+ *
+ * The IMU is assumed to share the camera axes (portrait phone, rear camera): device x right,
+ * y up, z out of the screen. `screenAngleDeg` rotates samples for landscape.
+ */
+export function createFusionFilter(opts?: Partial<FusionOptions>) {
+  const o: FusionOptions = { ...DEFAULTS, ...(opts ?? {}) }
+
+  const q = new THREE.Quaternion()
+  const p = new THREE.Vector3()
+  const v = new THREE.Vector3()
+  const bias = new THREE.Vector3()
+  let rotVar = MAX_ROT_VAR
+  let posVar = MAX_POS_VAR
+  let velVar = 1
+  let initialized = false
+  let lastImuT = 0
+  let imuSeen = false
+  let unitsPerMeter = 1
+  let screenAngleDeg = 0
+  let lastVisual: { p: THREE.Vector3; t: number } | null = null
+  let history: ImuStep[] = []
+
+  function toCamera(x: number, y: number, z: number) {
+    return deviceVectorToCamera(x, y, z, screenAngleDeg)
+  }
+
+  function predictImu(sample: MotionSample) {
+    const dt = lastImuT > 0 ? (sample.t - lastImuT) / 1000 : sample.interval / 1000
+    lastImuT = sample.t
+    if (!(dt > 0) || dt > 0.25) return
+    const rr = sample.rotationRate
+    if (rr) {
+      imuSeen = true
+      // rotationRate: alpha about z, beta about x, gamma about y (deg/s).
+      const omega = toCamera(
+        THREE.MathUtils.degToRad(rr.beta),
+        THREE.MathUtils.degToRad(rr.gamma),
+        THREE.MathUtils.degToRad(rr.alpha),
+      ).sub(bias)
+      const angle = omega.length() * dt
+      const dq = angle > 1e-9 ? new THREE.Quaternion().setFromAxisAngle(omega.normalize(), angle) : new THREE.Quaternion()
+      q.multiply(dq).normalize()
+      rotVar = Math.min(MAX_ROT_VAR, rotVar + o.gyroNoise * o.gyroNoise * dt)
+      history.push({ t: sample.t, dq })
+      while (history.length > 0 && sample.t - history[0].t > o.historyMs) history.shift()
+    }
+
+    const a = sample.acceleration
+    if (a && initialized) {
+      const accWorld = toCamera(a.x, a.y, a.z).applyQuaternion(q).multiplyScalar(unitsPerMeter)
+      v.addScaledVector(accWorld, dt)
+      v.multiplyScalar(Math.exp(-o.velocityDamping * dt))
+      const accVar = o.accelNoise * o.accelNoise * unitsPerMeter * unitsPerMeter * dt
+      velVar = Math.min(MAX_POS_VAR, velVar + accVar)
+    }
+    if (initialized) {
+      p.addScaledVector(v, dt)
+      posVar = Math.min(MAX_POS_VAR, posVar + velVar * dt * dt + 1e-5 * dt)
+    }
+  }
+
+  /** Rotation accumulated by the gyro after time `t` (used to bring a delayed measurement to now). */
+  function rotationSince(t: number) {
+    const out = new THREE.Quaternion()
+    for (const step of history) {
+      if (step.t > t) out.multiply(step.dq)
+    }
+    return out
+  }
+
+  function correctOrientation(measured: THREE.Quaternion, t: number, noise: number) {
+    const meas = measured.clone().multiply(rotationSince(t)).normalize()
+    if (!initialized || rotVar >= MAX_ROT_VAR) {
+      q.copy(meas)
+      rotVar = noise * noise
+      return
+    }
+    const k = rotVar / (rotVar + noise * noise)
+    q.slerp(meas, k).normalize()
+    rotVar *= 1 - k
+  }
+
+  function correctVisual(pose: FusionPose, t: number) {
+    const lagS = Math.max(0, (lastImuT - t) / 1000)
+    const meas = pose.quaternion.clone().multiply(rotationSince(t)).normalize()
+
+    if (initialized && imuSeen && rotVar < MAX_ROT_VAR) {
+      // Whatever rotation the gyro got wrong since the previous correction is mostly bias.
+      const residual = q.clone().invert().multiply(meas)
+      if (residual.w < 0) residual.set(-residual.x, -residual.y, -residual.z, -residual.w)
+      const sinHalf = Math.sqrt(Math.max(0, 1 - residual.w * residual.w))
+      const angle = 2 * Math.atan2(sinHalf, residual.w)
+      const sinceLast = lastVisual ? Math.max(1e-3, (t - lastVisual.t) / 1000) : 0
+      if (sinHalf > 1e-6 && sinceLast > 0 && sinceLast < 0.5) {
+        const axis = new THREE.Vector3(residual.x, residual.y, residual.z).multiplyScalar(1 / sinHalf)
+        bias.addScaledVector(axis, (-angle / sinceLast) * o.biasGain)
+      }
+    }
+    correctOrientation(pose.quaternion, t, o.visualRotNoise)
+
+    const measPos = pose.position.clone().addScaledVector(v, lagS)
+    if (!initialized) {
+      p.copy(measPos)
+      posVar = o.visualPosNoise * o.visualPosNoise
+      v.set(0, 0, 0)
+      velVar = 1
+      initialized = true
+    } else {
+      const k = posVar / (posVar + o.visualPosNoise * o.visualPosNoise)
+      p.lerp(measPos, k)
+      posVar *= 1 - k
+      if (lastVisual) {
+        const dtv = (t - lastVisual.t) / 1000
+        if (dtv > 1e-3 && dtv < 0.5) {
+          const visualVel = pose.position.clone().sub(lastVisual.p).multiplyScalar(1 / dtv)
+          const kv = velVar / (velVar + 0.05)
+          v.lerp(visualVel, kv)
+          velVar *= 1 - kv
+        }
+      }
+    }
+    lastVisual = { p: pose.position.clone(), t }
+  }
+
+  /** Absolute orientation only (sensor mode). Position stays IMU-integrated. */
+  function correctAbsoluteOrientation(quat: THREE.Quaternion, t: number) {
+    correctOrientation(quat, t, o.orientationNoise)
+    if (!initialized) {
+      p.set(0, 0, 0)
+      v.set(0, 0, 0)
+      posVar = 0
+      velVar = 0.01
+      initialized = true
+    }
+  }
+
+  function getPose(): FusionPose {
+    return { position: p.clone(), quaternion: q.clone() }
+  }
+
+  function getStats(): FusionStats {
+    const rotStd = Math.sqrt(rotVar)
+    const posStd = Math.sqrt(posVar)
+    const confidence = initialized ? Math.exp(-(rotStd / o.rotStdRef + posStd / o.posStdRef) / 2) : 0
+    return { rotStd, posStd, confidence, imu: imuSeen, gyroBias: { x: bias.x, y: bias.y, z: bias.z } }
+  }
+
+  function reset() {
+    q.identity()
+    p.set(0, 0, 0)
+    v.set(0, 0, 0)
+    bias.set(0, 0, 0)
+    rotVar = MAX_ROT_VAR
+    posVar = MAX_POS_VAR
+    velVar = 1
+    initialized = false
+    lastImuT = 0
+    imuSeen = false
+    lastVisual = null
+    history = []
+  }
+
+  return {
+    predictImu,
+    correctVisual,
+    correctAbsoluteOrientation,
+    getPose,
+    getStats,
+    reset,
+    isReady: () => initialized,
+    hasImu: () => imuSeen,
+    /** Tracking units per metre; accelerometer data is scaled by this. */
+    setUnitsPerMeter: (value: number) => {
+      if (Number.isFinite(value) && value > 0) unitsPerMeter = value
+    },
+    setScreenAngle: (deg: number) => {
+      screenAngleDeg = deg
+    },
+  }
+}
+
+export type FusionFilter = ReturnType<typeof createFusionFilter>
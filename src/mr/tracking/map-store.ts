@@ -0,0 +1,73 @@
+// IndexedDB persistence for the relocalization keyframe map. One record per map key.
+
+export type StoredKeyframe = {
+  id: number
+  /** Camera pose in the world frame when the keyframe was taken. */
+  position: [number, number, number]
+  quaternion: [number, number, number, number]
+  /** Zero-mean, unit-variance grayscale thumbnail (row-major). */
+  thumb: Float32Array
+  /** Occupancy of SLAM feature points on a coarse grid (1 = has points). */
+  grid: Uint8Array
+}
+
+export type StoredMap = {
+  version: 1
+  savedAt: string
+  thumbW: number
+  thumbH: number
+  gridW: number
+  gridH: number
+  keyframes: StoredKeyframe[]
+}
+
+const DB_NAME = 'mr-tracking'
+const DB_VERSION = 1
+const STORE = 'maps'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb() {
+  if (dbPromise) return dbPromise
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB unavailable'))
+      return
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION)
+    req.onupgradeneeded = () => {
+      if (!req.result.objectStoreNames.contains(STORE)) req.result.createObjectStore(STORE)
+    }
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error ?? new Error('IndexedDB open failed'))
+  })
+  dbPromise.catch(() => {
+    dbPromise = null
+  })
+  return dbPromise
+}
+
+function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const req = fn(db.transaction(STORE, mode).objectStore(STORE))
+        req.onsuccess = () => resolve(req.result)
+        req.onerror = () => reject(req.error ?? new Error('IndexedDB request failed'))
+      }),
+  )
+}
+
+export async function loadStoredMap(key: string): Promise<StoredMap | null> {
+  const value = await run<StoredMap | undefined>('readonly', (store) => store.get(key))
+  if (!value || value.version !== 1 || !Array.isArray(value.keyframes)) return null
+  return value
+}
+
+export function saveStoredMap(key: string, map: StoredMap) {
+  return run('readwrite', (store) => store.put(map, key)).then(() => undefined)
+}
+
+export function deleteStoredMap(key: string) {
+  return run('readwrite', (store) => store.delete(key)).then(() => undefined)
+}
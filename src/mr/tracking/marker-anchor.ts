@@ -0,0 +1,208 @@
+import * as THREE from 'three'
+import { guessIntrinsics, scaleIntrinsics, type CameraIntrinsics } from '../camera/intrinsics'
+import type { FrameSource } from '../frames/frame-source'
+import { detectMarkers, type MarkerDetection } from '../vision/aruco'
+import { computeHomography, multiplyHomography, type Point2 } from '../vision/homography'
+import type { TrackingPose } from './tracker'
+
+export type MarkerObservation = MarkerDetection & {
+  /**
+   * Marker pose in the Three camera frame, meters. The marker frame has x along its top edge, y toward
+   * its bottom edge and z into the marker; the origin is the marker center.
+   */
+  pose: TrackingPose
+}
+
+export type MarkerScaleEstimate = {
+  /** World units per meter, the app's `scaleMeters`. */
+  scaleMeters: number
+  samples: number
+  /** Median absolute deviation relative to the estimate. */
+  spread: number
+}
+
+export type MarkerAnchorOptions = {
+  /** Printed side length of the black square (meters). */
+  markerSizeMeters: number
+  /** Longest side of the analysed frame (px). */
+  maxAnalysisSize: number
+  intervalMs: number
+  /** Camera motion relative to the marker needed before a pair of views yields a scale sample. */
+  minBaselineMeters: number
+  minSamples: number
+  maxSpread: number
+}
+
+const DEFAULTS: MarkerAnchorOptions = {
+  markerSizeMeters: 0.1,
+  maxAnalysisSize: 480,
+  intervalMs: 250,
+  minBaselineMeters: 0.08,
+  minSamples: 6,
+  maxSpread: 0.15,
+}
+
+const MAX_VIEWS_PER_MARKER = 24
+const MAX_SAMPLES = 48
+
+type View = { metric: THREE.Vector3; world: THREE.Vector3 }
+
+// Columns: the world axes a pinned marker defines (x along its top edge, +Y out of the marker,
+// -Z toward its top edge), expressed in the marker frame.
+const MARKER_TO_WORLD_AXES = new THREE.Quaternion().setFromRotationMatrix(
+  new THREE.Matrix4().makeBasis(new THREE.Vector3(1, 0, 0), new THREE.Vector3(0, 0, -1), new THREE.Vector3(0, 1, 0)),
+)
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+/** Planar pose from the marker's homography (K⁻¹H = [r1 r2 t] up to scale). */
+export function estimateMarkerPose(corners: Point2[], sizeMeters: number, k: CameraIntrinsics): TrackingPose | null {
+  const half = sizeMeters / 2
+  const h = computeHomography(
+    [
+      { x: -half, y: -half },
+      { x: half, y: -half },
+      { x: half, y: half },
+      { x: -half, y: half },
+    ],
+    corners,
+  )
+  if (!h) return null
+  const kInv = [1 / k.fx, 0, -k.cx / k.fx, 0, 1 / k.fy, -k.cy / k.fy, 0, 0, 1]
+  const m = multiplyHomography(kInv, h)
+  let r1 = new THREE.Vector3(m[0], m[3], m[6])
+  let r2 = new THREE.Vector3(m[1], m[4], m[7])
+  let t = new THREE.Vector3(m[2], m[5], m[8])
+  const lambda = 2 / (r1.length() + r2.length())
+  const sign = t.z < 0 ? -lambda : lambda
+  r1 = r1.multiplyScalar(sign).normalize()
+  r2 = r2.multiplyScalar(sign)
+  t = t.multiplyScalar(sign)
+  r2.addScaledVector(r1, -r2.dot(r1)).normalize()
+  const r3 = new THREE.Vector3().crossVectors(r1, r2)
+  // OpenCV camera (y down, z forward) → Three camera (y up, z backward).
+  const flip = (v: THREE.Vector3) => new THREE.Vector3(v.x, -v.y, -v.z)
+  const rotation = new THREE.Matrix4().makeBasis(flip(r1), flip(r2), flip(r3))
+  return { position: flip(t), quaternion: new THREE.Quaternion().setFromRotationMatrix(rotation) }
+}
+
+/**
+ * Watches for square fiducials of known size. Views of a static marker give camera motion in meters,
+ * the tracker gives the same motion in world units; their ratio is the metric scale. A detected marker
+ * can also define the world origin (`originFromMarker`).
+ */
+export function createMarkerAnchor(opts?: Partial<MarkerAnchorOptions>) {
+  const o: MarkerAnchorOptions = { ...DEFAULTS, ...(opts ?? {}) }
+  const canvas = document.createElement('canvas')
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  const views = new Map<number, View[]>()
+  let samples: number[] = []
+  let lastRunT = -Infinity
+  let analysisW = 0
+  let analysisH = 0
+
+  function addView(id: number, view: View) {
+    const list = views.get(id) ?? []
+    for (const prev of list) {
+      const metric = prev.metric.distanceTo(view.metric)
+      if (metric < o.minBaselineMeters) continue
+      samples.push(prev.world.distanceTo(view.world) / metric)
+    }
+    if (samples.length > MAX_SAMPLES) samples = samples.slice(-MAX_SAMPLES)
+    list.push(view)
+    if (list.length > MAX_VIEWS_PER_MARKER) list.shift()
+    views.set(id, list)
+  }
+
+  /**
+   * Runs the detector when due; returns null otherwise. `cameraPose` is the tracker's world pose for
+   * this frame, used for scale only when `tracked`.
+   */
+  function update(params: {
+    source: FrameSource
+    intrinsics: CameraIntrinsics | null
+    cameraPose: TrackingPose
+    tracked: boolean
+    now: number
+  }): MarkerObservation[] | null {
+    const { source, intrinsics, cameraPose, tracked, now } = params
+    if (!ctx || !source.isReady() || now - lastRunT < o.intervalMs) return null
+    lastRunT = now
+    const size = source.getSize()
+    if (size.width <= 0 || size.height <= 0) return []
+    const scale = Math.min(1, o.maxAnalysisSize / Math.max(size.width, size.height))
+    analysisW = Math.max(1, Math.round(size.width * scale))
+    analysisH = Math.max(1, Math.round(size.height * scale))
+    if (canvas.width !== analysisW || canvas.height !== analysisH) {
+      canvas.width = analysisW
+      canvas.height = analysisH
+    }
+    ctx.drawImage(source.element, 0, 0, analysisW, analysisH)
+    const k = scaleIntrinsics(intrinsics ?? guessIntrinsics(size.width, size.height), analysisW, analysisH)
+    const out: MarkerObservation[] = []
+    for (const det of detectMarkers(ctx.getImageData(0, 0, analysisW, analysisH))) {
+      const pose = estimateMarkerPose(det.corners, o.markerSizeMeters, k)
+      if (!pose) continue
+      out.push({ ...det, pose })
+      if (!tracked) continue
+      // Camera position in the marker frame: -Rᵀ t.
+      const inv = pose.quaternion.clone().invert()
+      const metric = pose.position.clone().applyQuaternion(inv).negate()
+      addView(det.id, { metric, world: cameraPose.position.clone() })
+    }
+    return out
+  }
+
+  /** Current metric scale, once enough consistent samples agree. */
+  function getScale(): MarkerScaleEstimate | null {
+    if (samples.length < o.minSamples) return null
+    const scaleMeters = median(samples)
+    if (!(scaleMeters > 0)) return null
+    const spread = median(samples.map((s) => Math.abs(s - scaleMeters))) / scaleMeters
+    return spread <= o.maxSpread ? { scaleMeters, samples: samples.length, spread } : null
+  }
+
+  /**
+   * World pose that puts the origin at the marker center with +Y out of the marker and -Z toward its
+   * top edge; pass to `TrackingController.setWorldOrigin`.
+   */
+  function originFromMarker(marker: MarkerObservation, cameraPose: TrackingPose, scaleMeters: number): TrackingPose {
+    const position = marker.pose.position
+      .clone()
+      .multiplyScalar(scaleMeters)
+      .applyQuaternion(cameraPose.quaternion)
+      .add(cameraPose.position)
+    const quaternion = cameraPose.quaternion.clone().multiply(marker.pose.quaternion).multiply(MARKER_TO_WORLD_AXES)
+    return { position, quaternion }
+  }
+
+  /** Forgets world-space views (the world frame moved); scale samples stay valid. */
+  function resetViews() {
+    views.clear()
+  }
+
+  function reset() {
+    views.clear()
+    samples = []
+    lastRunT = -Infinity
+  }
+
+  return {
+    update,
+    getScale,
+    originFromMarker,
+    resetViews,
+    reset,
+    setMarkerSize: (meters: number) => {
+      if (meters === o.markerSizeMeters) return
+      o.markerSizeMeters = meters
+      reset()
+    },
+    getAnalysisSize: () => ({ width: analysisW, height: analysisH }),
+  }
+}
+
+export type MarkerAnchor = ReturnType<typeof createMarkerAnchor>
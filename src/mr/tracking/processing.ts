@@ -0,0 +1,186 @@
+/** How often and at what size a visual backend runs pose estimation. */
+export type ProcessingSettings = {
+  targetFps: number
+  /** Bounds of the processing frame; the source aspect is kept inside them. */
+  maxWidth: number
+  maxHeight: number
+}
+
+export type ProcessingStats = ProcessingSettings & {
+  /** Actual processing frame. */
+  width: number
+  height: number
+  /** Mean pose-estimation time over the last evaluation window (ms). */
+  costMs: number
+  /** False when the settings are fixed (replays). */
+  adaptive: boolean
+}
+
+export type ProcessingControllerOptions = {
+  evaluateMs: number
+  minFps: number
+  maxFps: number
+  /** Fraction of wall time pose estimation may take: a worker can be kept busy, the main thread cannot. */
+  maxBusyWorker: number
+  maxBusyMainThread: number
+  /** Resolution changes re-create the SLAM map, so they are rate-limited. */
+  resizeCooldownMs: number
+  /** Tracked fraction below which the controller trades rate for resolution. */
+  minTrackedRatio: number
+  /** Angular jitter (rad/s) above which rate is preferred over resolution. */
+  fastMotionRad: number
+}
+
+const DEFAULTS: ProcessingControllerOptions = {
+  evaluateMs: 2000,
+  minFps: 12,
+  maxFps: 60,
+  maxBusyWorker: 0.85,
+  maxBusyMainThread: 0.35,
+  resizeCooldownMs: 10000,
+  minTrackedRatio: 0.7,
+  fastMotionRad: 1.2,
+}
+
+export const DEFAULT_PROCESSING: ProcessingSettings = { targetFps: 60, maxWidth: 640, maxHeight: 480 }
+
+// Processing bounds the controller moves between; each step costs roughly 1.5-2x the pixels.
+const SIZE_LADDER: [number, number][] = [
+  [320, 240],
+  [480, 360],
+  [640, 480],
+  [800, 600],
+  [960, 720],
+]
+
+const STORAGE_KEY = 'mr.slamProcessing.v1'
+const MIN_WINDOW_RESULTS = 5
+
+function ladderIndex(settings: ProcessingSettings) {
+  let best = 0
+  for (let i = 0; i < SIZE_LADDER.length; i++) {
+    if (SIZE_LADDER[i][0] <= settings.maxWidth) best = i
+  }
+  return best
+}
+
+/** Settings the controller converged to last time on this device (localStorage is per device). */
+export function loadProcessingSettings(): ProcessingSettings | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    const s = raw ? (JSON.parse(raw) as ProcessingSettings) : null
+    if (!s || !(s.targetFps > 0 && s.maxWidth > 0 && s.maxHeight > 0)) return null
+    return { targetFps: s.targetFps, maxWidth: s.maxWidth, maxHeight: s.maxHeight }
+  } catch {
+    return null
+  }
+}
+
+export function saveProcessingSettings(settings: ProcessingSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+  } catch (err) {
+    console.warn('[processing] save failed', err)
+  }
+}
+
+/**
+ * Adapts SLAM rate and resolution to the device. Rate follows what the measured cost allows within
+ * the busy budget; resolution drops when even the minimum rate does not fit (or fast motion needs
+ * rate) and rises when there is ample headroom or tracking keeps failing.
+ */
+export function createProcessingController(opts?: Partial<ProcessingControllerOptions>) {
+  const o: ProcessingControllerOptions = { ...DEFAULTS, ...(opts ?? {}) }
+  let settings: ProcessingSettings = { ...DEFAULT_PROCESSING }
+  let adaptive = false
+  let worker = false
+  let windowStart = 0
+  let results = 0
+  let tracked = 0
+  let costSum = 0
+  let costSamples = 0
+  let jitterSum = 0
+  let lastCostMs = 0
+  let lastResizeT = 0
+
+  function clearWindow(now: number) {
+    windowStart = now
+    results = 0
+    tracked = 0
+    costSum = 0
+    costSamples = 0
+    jitterSum = 0
+  }
+
+  /** New backend run. `adaptive` false keeps `initial` fixed. */
+  function begin(initial: ProcessingSettings, params: { adaptive: boolean; worker: boolean; now: number }) {
+    settings = { ...initial }
+    adaptive = params.adaptive
+    worker = params.worker
+    lastCostMs = 0
+    lastResizeT = params.now
+    clearWindow(params.now)
+  }
+
+  function onResult(result: { tracked: boolean; costMs: number | undefined; jitterAng: number }) {
+    results += 1
+    if (result.tracked) tracked += 1
+    if (result.costMs !== undefined) {
+      costSum += result.costMs
+      costSamples += 1
+    }
+    jitterSum += result.jitterAng
+  }
+
+  function resize(step: number, now: number) {
+    const next = ladderIndex(settings) + step
+    if (next < 0 || next >= SIZE_LADDER.length || now - lastResizeT < o.resizeCooldownMs) return false
+    settings.maxWidth = SIZE_LADDER[next][0]
+    settings.maxHeight = SIZE_LADDER[next][1]
+    lastResizeT = now
+    return true
+  }
+
+  /** Returns new settings when they changed, otherwise null. Call once per update. */
+  function update(now: number): ProcessingSettings | null {
+    if (now - windowStart < o.evaluateMs) return null
+    const enough = results >= MIN_WINDOW_RESULTS && costSamples > 0
+    const cost = costSamples > 0 ? costSum / costSamples : 0
+    const trackedRatio = results > 0 ? tracked / results : 1
+    const jitter = results > 0 ? jitterSum / results : 0
+    clearWindow(now)
+    if (!enough) return null
+    lastCostMs = cost
+    if (!adaptive) return null
+
+    const maxBusy = worker ? o.maxBusyWorker : o.maxBusyMainThread
+    const affordable = cost > 0 ? (maxBusy * 1000) / cost : o.maxFps
+    const fastMotion = jitter > o.fastMotionRad
+
+    let resized = false
+    if (affordable < o.minFps || (fastMotion && affordable < o.maxFps / 2)) {
+      resized = resize(-1, now)
+    } else if (affordable > o.maxFps * 1.8 || (trackedRatio < o.minTrackedRatio && affordable > o.maxFps * 1.3)) {
+      resized = resize(1, now)
+    }
+    if (resized) return { ...settings }
+    // The cost was measured at this size. Drop straight to what fits; climb back gradually so one
+    // quiet window does not overshoot.
+    const fps = Math.min(o.maxFps, Math.max(o.minFps, affordable))
+    const targetFps = Math.round(fps < settings.targetFps ? fps : Math.min(fps, settings.targetFps * 1.25))
+    if (targetFps === settings.targetFps) return null
+    settings.targetFps = targetFps
+    return { ...settings }
+  }
+
+  return {
+    begin,
+    onResult,
+    update,
+    getSettings: () => ({ ...settings }),
+    getCostMs: () => lastCostMs,
+    isAdaptive: () => adaptive,
+  }
+}
+
+export type ProcessingController = ReturnType<typeof createProcessingController>
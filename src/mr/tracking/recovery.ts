@@ -0,0 +1,151 @@
+/**
+ * Where the tracker is in getting back from a tracking loss:
+ * - `tracking`: not recovering.
+ * - `waiting`: lost; the SLAM map is kept and the pose coasts on the IMU.
+ * - `relocalizing`: SLAM restarted; the world counts as recovered once the keyframe map matches.
+ * - `softReset`: the restarted SLAM map becomes the world as soon as it tracks (keyframes are kept,
+ *   so a later match still brings the old world back).
+ * - `hardReset`: like `softReset`, with the keyframe map dropped.
+ */
+export type RecoveryStage = 'tracking' | 'waiting' | 'relocalizing' | 'softReset' | 'hardReset'
+
+/** Loss time (ms) at which each escalation starts; null skips it. */
+export type RecoveryPolicy = {
+  relocalizeAfterMs: number | null
+  softResetAfterMs: number | null
+  hardResetAfterMs: number | null
+}
+
+export type RecoveryEvent = {
+  t: number
+  stage: RecoveryStage
+  previous: RecoveryStage
+  /** Time since tracking was lost (0 when entering `waiting`). */
+  lostMs: number
+}
+
+/** What the tracker has to do when a stage starts. */
+export type RecoveryAction = 'restartSlam' | 'forgetMap'
+
+export const DEFAULT_RECOVERY_POLICY: RecoveryPolicy = {
+  relocalizeAfterMs: 1500,
+  softResetAfterMs: 12000,
+  hardResetAfterMs: null,
+}
+
+const ESCALATION: { stage: RecoveryStage; key: keyof RecoveryPolicy }[] = [
+  { stage: 'relocalizing', key: 'relocalizeAfterMs' },
+  { stage: 'softReset', key: 'softResetAfterMs' },
+  { stage: 'hardReset', key: 'hardResetAfterMs' },
+]
+
+/**
+ * Escalating loss recovery. Loss time counts from the first lost frame until the stage's exit
+ * condition holds, so SLAM tracking again in a still unmatched frame keeps escalating.
+ */
+export function createRecoveryController(policy?: Partial<RecoveryPolicy>, onEvent?: (event: RecoveryEvent) => void) {
+  let p: RecoveryPolicy = { ...DEFAULT_RECOVERY_POLICY, ...(policy ?? {}) }
+  let stage: RecoveryStage = 'tracking'
+  let lostSince = 0
+
+  function enter(next: RecoveryStage, now: number) {
+    if (next === stage) return
+    const previous = stage
+    stage = next
+    onEvent?.({ t: now, stage: next, previous, lostMs: next === 'waiting' ? 0 : now - lostSince })
+  }
+
+  /** A frame without a pose. */
+  function onLost(now: number) {
+    if (stage !== 'tracking') return
+    lostSince = now
+    enter('waiting', now)
+  }
+
+  /**
+   * A tracked frame. `mapMatched` is whether the world frame is settled: relocalized, or there is no
+   * keyframe map to match against.
+   */
+  function onTracked(now: number, mapMatched: boolean) {
+    if (stage === 'tracking' || (stage === 'relocalizing' && !mapMatched)) return
+    enter('tracking', now)
+  }
+
+  /**
+   * Escalates when the next stage is due and returns what the tracker must do for it. `tracking` is
+   * whether the last frame had a pose: a reset on top of a working SLAM map only needs to accept it.
+   */
+  function update(now: number, tracking: boolean): RecoveryAction[] {
+    if (stage === 'tracking') return []
+    const elapsed = now - lostSince
+    const current = ESCALATION.findIndex((e) => e.stage === stage)
+    for (let i = ESCALATION.length - 1; i > current; i--) {
+      const due = p[ESCALATION[i].key]
+      if (due === null || elapsed < due) continue
+      const next = ESCALATION[i].stage
+      enter(next, now)
+      if (next === 'relocalizing') return ['restartSlam']
+      const actions: RecoveryAction[] = next === 'hardReset' ? ['forgetMap'] : []
+      if (!tracking) actions.push('restartSlam')
+      // Accepting the current frame ends the recovery right away.
+      else enter('tracking', now)
+      return actions
+    }
+    return []
+  }
+
+  function reset() {
+    stage = 'tracking'
+    lostSince = 0
+  }
+
+  return {
+    onLost,
+    onTracked,
+    update,
+    reset,
+    getStage: () => stage,
+    getPolicy: () => ({ ...p }),
+    setPolicy: (next: Partial<RecoveryPolicy>) => {
+      p = { ...p, ...next }
+    },
+  }
+}
+
+export type RecoveryController = ReturnType<typeof createRecoveryController>
+
+/** Phases shown on the timeline: tracker status outside of recovery, the recovery stage within it. */
+export type TrackingPhase = 'idle' | 'initializing' | 'unavailable' | RecoveryStage
+
+export type TimelineSegment = { phase: TrackingPhase; start: number; end: number }
+
+/** Rolling record of tracking phases for a strip chart. */
+export function createTrackingTimeline(spanMs = 60000) {
+  let segments: TimelineSegment[] = []
+
+  function mark(phase: TrackingPhase, now: number) {
+    const last = segments[segments.length - 1]
+    if (last) {
+      last.end = now
+      if (last.phase === phase) return
+    }
+    segments.push({ phase, start: now, end: now })
+    while (segments.length > 1 && segments[0].end < now - spanMs) segments.shift()
+  }
+
+  /** Segments overlapping the last `spanMs`, the open one extended to `now`. */
+  function get(now: number): TimelineSegment[] {
+    const from = now - spanMs
+    return segments
+      .filter((s, i) => i === segments.length - 1 || s.end >= from)
+      .map((s, i, all) => ({ phase: s.phase, start: Math.max(from, s.start), end: i === all.length - 1 ? now : s.end }))
+  }
+
+  function clear() {
+    segments = []
+  }
+
+  return { mark, get, clear, getSpanMs: () => spanMs }
+}
+
+export type TrackingTimeline = ReturnType<typeof createTrackingTimeline>
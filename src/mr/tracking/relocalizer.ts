@@ -0,0 +1,358 @@
+import * as THREE from 'three'
+import type { TrackingPoints, TrackingPose } from './tracker'
+import { deleteStoredMap, loadStoredMap, saveStoredMap, type StoredKeyframe, type StoredMap } from './map-store'
+
+/**
+ * - `relocalizing`: a map exists; looking for a keyframe that matches the current view.
+ * - `relocalized`: matched; the world frame of the map is restored.
+ * - `new map`: nothing to match (or gave up); keyframes start a fresh map in the current frame.
+ */
+export type MapStatus = 'relocalizing' | 'relocalized' | 'new map'
+
+/** Maps raw tracking poses into the restored world: world = rotation * (raw * scale) + offset. */
+export type MapTransform = {
+  rotation: THREE.Quaternion
+  offset: THREE.Vector3
+  scale: number
+}
+
+export type RelocalizerOptions = {
+  /** IndexedDB key; null keeps the map in memory only (replays). */
+  mapKey: string | null
+  maxKeyframes: number
+  /** New keyframe when no existing one is this close in position (world units) and angle (rad). */
+  keyframeMinDistance: number
+  keyframeMinAngle: number
+  /** 0..1 descriptor similarity needed for a match. */
+  matchThreshold: number
+  /** Give up on the saved map after this long without a match. */
+  relocalizeTimeoutMs: number
+  saveIntervalMs: number
+}
+
+const DEFAULTS: RelocalizerOptions = {
+  mapKey: 'default',
+  maxKeyframes: 80,
+  keyframeMinDistance: 0.25,
+  keyframeMinAngle: THREE.MathUtils.degToRad(15),
+  matchThreshold: 0.78,
+  relocalizeTimeoutMs: 10000,
+  saveIntervalMs: 5000,
+}
+
+const THUMB_W = 32
+const THUMB_H = 24
+const GRID_W = 16
+const GRID_H = 12
+const MATCH_INTERVAL_MS = 250
+const KEYFRAME_INTERVAL_MS = 300
+// A second match this far from the first lets us fix the scale of the new SLAM map.
+const SCALE_BASELINE = 0.3
+const MIN_SCALE = 0.25
+const MAX_SCALE = 4
+
+type Descriptor = { thumb: Float32Array; grid: Uint8Array }
+
+type Anchor = { raw: THREE.Vector3; world: THREE.Vector3; keyframeId: number }
+
+function quaternionAngle(a: THREE.Quaternion, b: THREE.Quaternion) {
+  return 2 * Math.acos(Math.min(1, Math.abs(a.dot(b))))
+}
+
+/**
+ * AlvaAR has no map (de)serialization, so relocalization runs on our own keyframes: a tiny normalized
+ * thumbnail plus a coarse occupancy grid of the SLAM feature points, stored with the world pose.
+ * A match means "the camera is about where that keyframe was", which is enough to restore the world
+ * frame of the previous map (and, after a second match, the scale of the new SLAM map).
+ */
+export function createRelocalizer(opts?: Partial<RelocalizerOptions>) {
+  const o: RelocalizerOptions = { ...DEFAULTS, ...(opts ?? {}) }
+
+  const canvas = document.createElement('canvas')
+  canvas.width = THUMB_W
+  canvas.height = THUMB_H
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+
+  let keyframes: StoredKeyframe[] = []
+  let nextId = 1
+  let status: MapStatus = 'new map'
+  let loading = false
+  let persist = false
+  // Gave up on the saved map this session: the new map stays in memory so the saved one survives.
+  let detached = false
+  let dirty = false
+  let lastSaveT = 0
+  let lastMatchT = 0
+  let lastKeyframeT = 0
+  let relocalizingSince = 0
+  let anchor: Anchor | null = null
+  let scaleFixed = false
+  let session = 0
+  let onStatus: ((status: MapStatus) => void) | null = null
+
+  function setStatus(next: MapStatus, force = false) {
+    if (status === next && !force) return
+    status = next
+    console.info(`[map] ${next} (${keyframes.length} keyframes)`)
+    onStatus?.(next)
+  }
+
+  function describe(element: CanvasImageSource, points: TrackingPoints | null): Descriptor | null {
+    if (!ctx) return null
+    ctx.drawImage(element, 0, 0, THUMB_W, THUMB_H)
+    const data = ctx.getImageData(0, 0, THUMB_W, THUMB_H).data
+    const thumb = new Float32Array(THUMB_W * THUMB_H)
+    let mean = 0
+    for (let i = 0; i < thumb.length; i++) {
+      const v = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]
+      thumb[i] = v
+      mean += v
+    }
+    mean /= thumb.length
+    let variance = 0
+    for (let i = 0; i < thumb.length; i++) {
+      thumb[i] -= mean
+      variance += thumb[i] * thumb[i]
+    }
+    const std = Math.sqrt(variance / thumb.length)
+    // Flat frames (covered lens, white wall) match everything.
+    if (std < 4) return null
+    for (let i = 0; i < thumb.length; i++) thumb[i] /= std
+
+    const grid = new Uint8Array(GRID_W * GRID_H)
+    if (points && points.width > 0 && points.height > 0) {
+      for (const p of points.points) {
+        const gx = Math.floor((p.x / points.width) * GRID_W)
+        const gy = Math.floor((p.y / points.height) * GRID_H)
+        if (gx >= 0 && gx < GRID_W && gy >= 0 && gy < GRID_H) grid[gy * GRID_W + gx] = 1
+      }
+    }
+    return { thumb, grid }
+  }
+
+  function similarity(a: Descriptor, b: StoredKeyframe) {
+    let dot = 0
+    for (let i = 0; i < a.thumb.length; i++) dot += a.thumb[i] * b.thumb[i]
+    const ncc = dot / a.thumb.length
+    let inter = 0
+    let union = 0
+    for (let i = 0; i < a.grid.length; i++) {
+      inter += a.grid[i] & b.grid[i]
+      union += a.grid[i] | b.grid[i]
+    }
+    // Without feature points the thumbnail alone decides, slightly discounted.
+    return union > 0 ? 0.75 * ncc + 0.25 * (inter / union) : 0.9 * ncc
+  }
+
+  function bestMatch(desc: Descriptor) {
+    let best: { keyframe: StoredKeyframe; score: number } | null = null
+    for (const kf of keyframes) {
+      const score = similarity(desc, kf)
+      if (!best || score > best.score) best = { keyframe: kf, score }
+    }
+    return best && best.score >= o.matchThreshold ? best : null
+  }
+
+  function maybeAddKeyframe(world: TrackingPose, desc: Descriptor) {
+    for (const kf of keyframes) {
+      const d = world.position.distanceTo(new THREE.Vector3(...kf.position))
+      const a = quaternionAngle(world.quaternion, new THREE.Quaternion(...kf.quaternion))
+      if (d < o.keyframeMinDistance && a < o.keyframeMinAngle) return
+    }
+    keyframes.push({
+      id: nextId++,
+      position: world.position.toArray() as [number, number, number],
+      quaternion: world.quaternion.toArray() as [number, number, number, number],
+      thumb: desc.thumb,
+      grid: desc.grid,
+    })
+    if (keyframes.length > o.maxKeyframes) keyframes.shift()
+    dirty = true
+  }
+
+  function transformFromMatch(raw: TrackingPose, kf: StoredKeyframe): MapTransform {
+    const kfPos = new THREE.Vector3(...kf.position)
+    const kfQuat = new THREE.Quaternion(...kf.quaternion)
+    const rotation = kfQuat.clone().multiply(raw.quaternion.clone().invert()).normalize()
+    let scale = 1
+    if (!anchor) {
+      anchor = { raw: raw.position.clone(), world: kfPos.clone(), keyframeId: kf.id }
+    } else {
+      const worldDist = kfPos.distanceTo(anchor.world)
+      const rawDist = raw.position.distanceTo(anchor.raw)
+      if (worldDist >= SCALE_BASELINE && rawDist > 1e-4) {
+        scale = THREE.MathUtils.clamp(worldDist / rawDist, MIN_SCALE, MAX_SCALE)
+        scaleFixed = true
+      }
+    }
+    const offset = kfPos.sub(raw.position.clone().multiplyScalar(scale).applyQuaternion(rotation))
+    return { rotation, offset, scale }
+  }
+
+  /**
+   * Feed every successfully tracked frame. `raw` is in the tracker's raw frame, `world` is the same pose
+   * through the current world transform. Returns a new raw→world transform when the map was matched.
+   */
+  function onTrackedFrame(params: {
+    raw: TrackingPose
+    world: TrackingPose
+    element: CanvasImageSource
+    points: TrackingPoints | null
+    now: number
+    /** Keyframes are only taken once the world frame is fixed. */
+    worldLocked: boolean
+  }): MapTransform | null {
+    const { raw, world, element, points, now, worldLocked } = params
+    if (loading) return null
+
+    if (status === 'relocalizing') {
+      if (now - relocalizingSince > o.relocalizeTimeoutMs) {
+        // Different place (or too much changed): start over rather than mixing two frames, without
+        // overwriting the saved map, which may still match next session.
+        keyframes = []
+        detached = true
+        dirty = false
+        setStatus('new map')
+        return null
+      }
+      if (now - lastMatchT < MATCH_INTERVAL_MS) return null
+      lastMatchT = now
+      const desc = describe(element, points)
+      const match = desc ? bestMatch(desc) : null
+      if (!match) return null
+      console.info(`[map] matched keyframe ${match.keyframe.id} (score ${match.score.toFixed(2)})`)
+      const transform = transformFromMatch(raw, match.keyframe)
+      setStatus('relocalized')
+      return transform
+    }
+
+    let transform: MapTransform | null = null
+    if (status === 'relocalized' && !scaleFixed && now - lastMatchT >= MATCH_INTERVAL_MS) {
+      lastMatchT = now
+      const desc = describe(element, points)
+      const match = desc ? bestMatch(desc) : null
+      if (match && anchor && match.keyframe.id !== anchor.keyframeId) {
+        transform = transformFromMatch(raw, match.keyframe)
+        if (!scaleFixed) transform = null
+      }
+    }
+
+    if (worldLocked && !transform && now - lastKeyframeT >= KEYFRAME_INTERVAL_MS) {
+      lastKeyframeT = now
+      const desc = describe(element, points)
+      if (desc) maybeAddKeyframe(world, desc)
+    }
+
+    if (dirty && persist && now - lastSaveT > o.saveIntervalMs) {
+      lastSaveT = now
+      void save()
+    }
+    return transform
+  }
+
+  function toStored(): StoredMap {
+    return {
+      version: 1,
+      savedAt: new Date().toISOString(),
+      thumbW: THUMB_W,
+      thumbH: THUMB_H,
+      gridW: GRID_W,
+      gridH: GRID_H,
+      keyframes,
+    }
+  }
+
+  async function save() {
+    if (!persist || detached || !o.mapKey || !dirty) return
+    dirty = false
+    try {
+      await saveStoredMap(o.mapKey, toStored())
+    } catch (err) {
+      dirty = true
+      console.warn('[map] save failed', err)
+    }
+  }
+
+  /** Starts a tracking session: loads the saved map (when persisted) and begins relocalizing against it. */
+  async function begin(params: { persist: boolean; now: number; onStatus?: (status: MapStatus) => void }) {
+    const id = ++session
+    persist = params.persist && Boolean(o.mapKey)
+    onStatus = params.onStatus ?? null
+    keyframes = []
+    detached = false
+    dirty = false
+    status = 'new map'
+    if (persist && o.mapKey) {
+      loading = true
+      try {
+        const stored = await loadStoredMap(o.mapKey)
+        if (id !== session) return
+        if (stored && stored.thumbW === THUMB_W && stored.thumbH === THUMB_H && stored.gridW === GRID_W && stored.gridH === GRID_H) {
+          keyframes = stored.keyframes
+          nextId = keyframes.reduce((max, kf) => Math.max(max, kf.id), 0) + 1
+        }
+      } catch (err) {
+        console.warn('[map] load failed', err)
+      } finally {
+        if (id === session) loading = false
+      }
+    }
+    restart(params.now)
+  }
+
+  /** The SLAM map was reset: try to get back into the current world frame. */
+  function restart(now: number) {
+    anchor = null
+    scaleFixed = false
+    lastMatchT = 0
+    relocalizingSince = now
+    setStatus(keyframes.length > 0 ? 'relocalizing' : 'new map', true)
+  }
+
+  /** Re-expresses keyframes in a world frame whose origin is `origin` (a pose in the current one). */
+  function rebase(origin: TrackingPose) {
+    const inv = origin.quaternion.clone().invert()
+    for (const kf of keyframes) {
+      const p = new THREE.Vector3(...kf.position).sub(origin.position).applyQuaternion(inv)
+      const q = inv.clone().multiply(new THREE.Quaternion(...kf.quaternion))
+      kf.position = p.toArray() as [number, number, number]
+      kf.quaternion = q.toArray() as [number, number, number, number]
+    }
+    anchor?.world.sub(origin.position).applyQuaternion(inv)
+    dirty = keyframes.length > 0
+  }
+
+  /** Drops the map, including the saved copy. */
+  function forget() {
+    keyframes = []
+    detached = false
+    dirty = false
+    anchor = null
+    scaleFixed = false
+    if (persist && o.mapKey) void deleteStoredMap(o.mapKey).catch((err) => console.warn('[map] delete failed', err))
+    setStatus('new map', true)
+  }
+
+  /** Ends the session, flushing unsaved keyframes. */
+  function end() {
+    session += 1
+    loading = false
+    const flush = save()
+    persist = false
+    onStatus = null
+    return flush
+  }
+
+  return {
+    begin,
+    restart,
+    rebase,
+    forget,
+    end,
+    onTrackedFrame,
+    getStatus: () => status,
+    getKeyframeCount: () => keyframes.length,
+  }
+}
+
+export type Relocalizer = ReturnType<typeof createRelocalizer>
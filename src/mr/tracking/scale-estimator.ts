@@ -0,0 +1,206 @@
+import * as THREE from 'three'
+import type { MotionSample } from '../sensors/sensors'
+import { solveLinearSystem } from '../vision/homography'
+import { deviceVectorToCamera } from './device-frame'
+import type { TrackingPose } from './tracker'
+
+export type ScaleEstimate = {
+  /** SLAM units per meter. */
+  unitsPerMeter: number
+  /** 0..1: agreement between windows and how many there are. */
+  confidence: number
+  windows: number
+}
+
+export type ScaleEstimatorOptions = {
+  /** Length of one comparison window (ms). */
+  windowMs: number
+  /** Windows where the IMU moved the phone less than this are ignored (m). */
+  minExcitationMeters: number
+  /** Windows kept for the estimate. */
+  maxWindows: number
+  /** Windows needed for full confidence. */
+  fullConfidenceWindows: number
+  /** Spread (std of log scale) at which confidence reaches zero. */
+  maxLogSpread: number
+  /** Fit residual relative to the explained motion above which a window is rejected. */
+  maxRelativeResidual: number
+}
+
+const DEFAULTS: ScaleEstimatorOptions = {
+  windowMs: 1500,
+  minExcitationMeters: 0.04,
+  maxWindows: 20,
+  fullConfidenceWindows: 8,
+  maxLogSpread: 0.35,
+  maxRelativeResidual: 0.35,
+}
+
+const MIN_VISUAL_SAMPLES = 6
+const MIN_IMU_SAMPLES = 10
+// Longer gaps between IMU samples mean the integration is meaningless.
+const MAX_IMU_GAP_MS = 100
+
+type ImuSample = { t: number; acc: THREE.Vector3 }
+type VisualSample = { t: number; p: THREE.Vector3; q: THREE.Quaternion }
+type WindowResult = { logScale: number; weight: number }
+
+/**
+ * Metric scale of a visual SLAM map from the accelerometer. Within each window the SLAM displacement
+ * is fit as `v0·τ + s·D(τ)`, where D is the double-integrated linear acceleration rotated by the SLAM
+ * orientation and v0 the unknown initial velocity; `s` is SLAM units per meter. Windows are combined in
+ * log space, weighted by how much the phone moved.
+ */
+export function createScaleEstimator(opts?: Partial<ScaleEstimatorOptions>) {
+  const o: ScaleEstimatorOptions = { ...DEFAULTS, ...(opts ?? {}) }
+  let imu: ImuSample[] = []
+  let visual: VisualSample[] = []
+  let windows: WindowResult[] = []
+  let screenAngleDeg = 0
+
+  function onMotion(sample: MotionSample) {
+    const a = sample.acceleration
+    if (!a) return
+    imu.push({ t: sample.t, acc: deviceVectorToCamera(a.x, a.y, a.z, screenAngleDeg) })
+    // Only the current window (plus a little slack) is ever needed.
+    const keepFrom = (visual[0]?.t ?? sample.t) - 200
+    while (imu.length > 0 && imu[0].t < keepFrom) imu.shift()
+  }
+
+  function orientationAt(t: number) {
+    let i = 1
+    while (i < visual.length - 1 && visual[i].t < t) i++
+    const a = visual[i - 1]
+    const b = visual[i]
+    const f = b.t > a.t ? THREE.MathUtils.clamp((t - a.t) / (b.t - a.t), 0, 1) : 0
+    return a.q.clone().slerp(b.q, f)
+  }
+
+  /** Double integral of world-frame acceleration from the window start, sampled at the visual times. */
+  function integrate(vis: VisualSample[]) {
+    const t0 = vis[0].t
+    const tEnd = vis[vis.length - 1].t
+    const samples = imu.filter((s) => s.t >= t0 && s.t <= tEnd)
+    if (samples.length < MIN_IMU_SAMPLES) return null
+    const vel = new THREE.Vector3()
+    const pos = new THREE.Vector3()
+    const track: { t: number; d: THREE.Vector3 }[] = [{ t: t0, d: new THREE.Vector3() }]
+    let prevT = t0
+    let prevA = samples[0].acc.clone().applyQuaternion(orientationAt(samples[0].t))
+    for (const s of samples) {
+      const dt = (s.t - prevT) / 1000
+      if (s.t - prevT > MAX_IMU_GAP_MS) return null
+      const acc = s.acc.clone().applyQuaternion(orientationAt(s.t))
+      const avg = prevA.clone().add(acc).multiplyScalar(0.5)
+      pos.addScaledVector(vel, dt).addScaledVector(avg, 0.5 * dt * dt)
+      vel.addScaledVector(avg, dt)
+      track.push({ t: s.t, d: pos.clone() })
+      prevT = s.t
+      prevA = acc
+    }
+    return vis.map((v) => {
+      let i = 1
+      while (i < track.length - 1 && track[i].t < v.t) i++
+      const a = track[i - 1]
+      const b = track[i]
+      const f = b.t > a.t ? THREE.MathUtils.clamp((v.t - a.t) / (b.t - a.t), 0, 1) : 0
+      return a.d.clone().lerp(b.d, f)
+    })
+  }
+
+  function processWindow() {
+    const vis = visual
+    if (vis.length < MIN_VISUAL_SAMPLES) return
+    const d = integrate(vis)
+    if (!d) return
+    const excitation = Math.max(...d.map((v) => v.length()))
+    if (excitation < o.minExcitationMeters) return
+
+    // Unknowns [v0x, v0y, v0z, s]; three rows per visual sample.
+    const ata = Array.from({ length: 4 }, () => new Array<number>(4).fill(0))
+    const atb = new Array<number>(4).fill(0)
+    const t0 = vis[0].t
+    const rows: { row: number[]; rhs: number }[] = []
+    for (let i = 1; i < vis.length; i++) {
+      const tau = (vis[i].t - t0) / 1000
+      const dp = vis[i].p.clone().sub(vis[0].p)
+      const axes = [
+        [dp.x, d[i].x],
+        [dp.y, d[i].y],
+        [dp.z, d[i].z],
+      ]
+      axes.forEach(([rhs, di], axis) => {
+        const row = [0, 0, 0, di]
+        row[axis] = tau
+        rows.push({ row, rhs })
+        for (let r = 0; r < 4; r++) {
+          atb[r] += row[r] * rhs
+          for (let c = 0; c < 4; c++) ata[r][c] += row[r] * row[c]
+        }
+      })
+    }
+    const x = solveLinearSystem(ata, atb)
+    if (!x || !(x[3] > 0)) return
+    let residual = 0
+    let explained = 0
+    for (const { row, rhs } of rows) {
+      residual += (rhs - row.reduce((s, v, k) => s + v * x[k], 0)) ** 2
+      explained += (row[3] * x[3]) ** 2
+    }
+    if (explained <= 0 || Math.sqrt(residual / explained) > o.maxRelativeResidual) return
+    windows.push({ logScale: Math.log(x[3]), weight: excitation * excitation })
+    if (windows.length > o.maxWindows) windows.shift()
+  }
+
+  /** Feed every successful SLAM pose (raw frame) with its capture time. */
+  function onVisualPose(pose: TrackingPose, t: number) {
+    visual.push({ t, p: pose.position.clone(), q: pose.quaternion.clone() })
+    if (t - visual[0].t >= o.windowMs) {
+      processWindow()
+      // Windows share their boundary sample.
+      visual = [visual[visual.length - 1]]
+    }
+  }
+
+  /** Tracking dropped: the current window has a gap. */
+  function onLost() {
+    visual = []
+  }
+
+  function getEstimate(): ScaleEstimate | null {
+    if (windows.length === 0) return null
+    let sumW = 0
+    let mean = 0
+    for (const w of windows) {
+      sumW += w.weight
+      mean += w.weight * w.logScale
+    }
+    mean /= sumW
+    let variance = 0
+    for (const w of windows) variance += w.weight * (w.logScale - mean) ** 2
+    const spread = Math.sqrt(variance / sumW)
+    const agreement = windows.length > 1 ? Math.max(0, 1 - spread / o.maxLogSpread) : 0.5
+    const confidence = agreement * Math.min(1, windows.length / o.fullConfidenceWindows)
+    return { unitsPerMeter: Math.exp(mean), confidence, windows: windows.length }
+  }
+
+  /** New SLAM map: its units are unrelated to the old ones. */
+  function reset() {
+    imu = []
+    visual = []
+    windows = []
+  }
+
+  return {
+    onMotion,
+    onVisualPose,
+    onLost,
+    getEstimate,
+    reset,
+    setScreenAngle: (deg: number) => {
+      screenAngleDeg = deg
+    },
+  }
+}
+
+export type ScaleEstimator = ReturnType<typeof createScaleEstimator>
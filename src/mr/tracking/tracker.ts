@@ -1,4 +1,42 @@
 import * as THREE from 'three'
+import { scaleIntrinsics, type CameraIntrinsics } from '../camera/intrinsics'
+import { createPoseHistory, type FrameBundle } from '../frames/frame-bundle'
+import type { FrameSource } from '../frames/frame-source'
+import type { MotionSample, OrientationSample, SensorHub } from '../sensors/sensors'
+import { now as clockNow } from '../../session/clock'
+import { createAlvaBackend } from './backends/alva'
+import type {
+  BackendFrame,
+  BackendStartContext,
+  TrackingBackend,
+  TrackingBackendKind,
+  TrackingBackendPreference,
+} from './backends/backend'
+import { createSensorBackend } from './backends/sensor'
+import { createSimulatedBackend } from './backends/simulated'
+import { createWebXRBackend } from './backends/webxr'
+import { getScreenAngle } from './device-frame'
+import { createFeatureTriangulator } from './feature-points'
+import { createFusionFilter, type FusionStats } from './fusion'
+import {
+  createProcessingController,
+  DEFAULT_PROCESSING,
+  loadProcessingSettings,
+  saveProcessingSettings,
+  type ProcessingStats,
+} from './processing'
+import {
+  createRecoveryController,
+  createTrackingTimeline,
+  type RecoveryEvent,
+  type RecoveryPolicy,
+  type RecoveryStage,
+  type TimelineSegment,
+  type TrackingPhase,
+} from './recovery'
+import { createRelocalizer, type MapStatus } from './relocalizer'
+import { createScaleEstimator } from './scale-estimator'
+import { createWorldAlignment, type WorldAlignmentOptions, type WorldAlignmentState } from './world-align'
 
 export type TrackingStatus = 'idle' | 'initializing' | 'tracking' | 'lost' | 'unavailable'
 
@@ -15,46 +53,95 @@ export type TrackingPoints = {
   height: number
 }
 
+export type TrackingScale = {
+  /** World units per meter (the app's `scaleMeters`). */
+  unitsPerMeter: number
+  /** 0..1; a locked value reports 1. */
+  confidence: number
+  /** IMU/visual comparison windows behind the estimate. */
+  windows: number
+  locked: boolean
+}
+
 export type TrackingStats = {
   frames: number
   tracked: number
   lost: number
-  mode: 'alva' | 'sensor' | null
+  /** Active backend. */
+  mode: TrackingBackendKind | null
   jitterPos: number
   jitterAng: number
   lastPoseAgeMs: number
-}
-
-type AlvaInstance = {
-  findCameraPose: (frame: ImageData) => Float32Array | number[] | null
-  findPlane?: () => Float32Array | number[] | null
-  getFramePoints?: () => { x: number; y: number }[]
-  reset?: () => void
-}
-
-type AlvaModule = {
-  AlvaAR: {
-    Initialize: (w: number, h: number) => Promise<AlvaInstance>
-  }
+  /** Visual-inertial filter uncertainty; `confidence` is what the UI should show. */
+  fusion: FusionStats
+  /** How the world frame (+Y up, origin on the floor) was derived from the tracking frame. */
+  alignment: WorldAlignmentState
+  /** Relocalization state of the keyframe map; null for backends without one. */
+  map: MapStatus | null
+  /** Metric scale from accelerometer vs SLAM motion; null until a window succeeds or for non-visual backends. */
+  scale: TrackingScale | null
+  /** SLAM rate and resolution; null for backends without a tunable pipeline. */
+  processing: ProcessingStats | null
+  /** Loss-recovery stage; anything but `tracking` means the world pose is not trustworthy. */
+  recovery: RecoveryStage
 }
 
 export type TrackingController = {
   status: TrackingStatus
-  start: () => Promise<void>
+  /** `backend` overrides the preference for this run (e.g. the backend a replay was recorded with). */
+  start: (source: FrameSource, backend?: TrackingBackendPreference) => Promise<void>
   stop: () => void
   update: (dt: number) => void
   getPose: () => TrackingPose
+  /** World pose at a recent clock time (interpolated); null when older than the history. */
+  getPoseAt: (t: number) => TrackingPose | null
+  /** Freezes the current frame's time, pose and intrinsics for consumers that finish later. */
+  captureFrame: () => FrameBundle
   getPlane: () => TrackingPlane | null
   getFramePoints: () => TrackingPoints | null
+  /** Triangulated SLAM feature points in the world frame (visual backends only). */
+  getFeaturePoints: () => THREE.Vector3[]
   getStats: () => TrackingStats
+  /** Re-initializes SLAM; the keyframe map brings the previous world frame back when it matches. */
   resetWorld: () => void
+  /** Drops the keyframe map (and its saved copy) so the current frame becomes a new world. */
+  forgetMap: () => void
+  /**
+   * Makes `origin` (a pose in the current world frame) the world origin and axes, e.g. a fiducial
+   * marker. False when the backend owns its world frame (WebXR) or gravity has not locked yet.
+   */
+  setWorldOrigin: (origin: TrackingPose) => boolean
+  /** Takes effect on the next `start`. */
+  setBackendPreference: (preference: TrackingBackendPreference) => void
+  /** Camera intrinsics at the source resolution, handed to the backend on the next `start`. */
+  setIntrinsics: (intrinsics: CameraIntrinsics | null) => void
+  /**
+   * Freezes the metric scale at the current estimate, or resumes estimating. A locked scale survives
+   * map resets. False when there is nothing to lock yet.
+   */
+  setScaleLocked: (locked: boolean) => boolean
+  /** Changes when loss recovery escalates; applies from the next loss. */
+  setRecoveryPolicy: (policy: Partial<RecoveryPolicy>) => void
+  /** Tracking phases over the last minute, oldest first, for a strip chart. */
+  getTimeline: () => TimelineSegment[]
+  getTimelineSpanMs: () => number
 }
 
 type ControllerParams = {
-  video: HTMLVideoElement
   width: number
   height: number
+  sensors: SensorHub
+  backend?: TrackingBackendPreference
+  alignment?: Partial<WorldAlignmentOptions>
+  /** Kept visible over the camera passthrough when the WebXR backend runs. */
+  overlayRoot?: HTMLElement
+  /** IndexedDB key of the persistent keyframe map; null keeps it in memory only. */
+  mapKey?: string | null
+  recovery?: Partial<RecoveryPolicy>
   onStatus?: (status: TrackingStatus, detail?: string) => void
+  onMapStatus?: (status: MapStatus) => void
+  /** Every recovery stage transition, including the return to `tracking`. */
+  onRecovery?: (event: RecoveryEvent) => void
 }
 
 const DEFAULT_POSE: TrackingPose = {
@@ -62,27 +149,36 @@ const DEFAULT_POSE: TrackingPose = {
   quaternion: new THREE.Quaternion(),
 }
 
-const MAX_PROCESS_WIDTH = 640
-const MAX_PROCESS_HEIGHT = 480
-const SLAM_TARGET_FPS = 60
 const SMOOTH_HALFLIFE_POS = 0.06
 const SMOOTH_HALFLIFE_ROT = 0.05
-const LOST_RESET_MS = 1500
+// Below this the IMU estimate is too loose to drive the filter's velocity integration.
+const MIN_FUSION_SCALE_CONFIDENCE = 0.5
+
+const BACKEND_FACTORIES: Record<TrackingBackendKind, () => TrackingBackend> = {
+  alva: createAlvaBackend,
+  sensor: createSensorBackend,
+  webxr: createWebXRBackend,
+  simulated: () => createSimulatedBackend(),
+}
+
+// Tried in order when the preference is 'auto'. The simulated path is only used when asked for.
+const AUTO_BACKENDS: TrackingBackendKind[] = ['alva', 'webxr', 'sensor']
+
+/** What every backend of one `start` call gets, kept for falling back when one ends. */
+type BackendLaunch = Pick<BackendStartContext, 'sensorsAllowed' | 'processing'> & { adaptive: boolean }
 
 export function createTrackingController(params: ControllerParams): TrackingController {
-  const { video, width, height, onStatus } = params
+  const { width, height, sensors, overlayRoot, onStatus, onMapStatus, onRecovery } = params
+  let backendPreference: TrackingBackendPreference = params.backend ?? 'auto'
+  let backend: TrackingBackend | null = null
+  let intrinsics: CameraIntrinsics | null = null
+  let source: FrameSource | null = null
   let status: TrackingStatus = 'idle'
   let pose = { position: DEFAULT_POSE.position.clone(), quaternion: DEFAULT_POSE.quaternion.clone() }
   let planePose: TrackingPlane | null = null
   let lastPoints: TrackingPoints | null = null
-  let frameW = width
-  let frameH = height
-
-  let alva: AlvaInstance | null = null
-  let canvas: HTMLCanvasElement | null = null
-  let ctx: CanvasRenderingContext2D | null = null
-  let lastAlvaT = 0
-  let lostSince: number | null = null
+
+  let lastFrameTracked = false
   let lastPoseT = 0
   let lastRawPose: TrackingPose | null = null
   let lastRawT = 0
@@ -90,14 +186,35 @@ export function createTrackingController(params: ControllerParams): TrackingCont
   let angularAxis = new THREE.Vector3(0, 1, 0)
   let angularSpeed = 0
   let hasPose = false
-
-  // Fallback: device orientation + basic acceleration integration.
-  let orientationQ = new THREE.Quaternion()
-  let velocity = new THREE.Vector3()
-  let position = new THREE.Vector3()
-  let lastMotionT = performance.now()
-
-  const stats: TrackingStats = {
+  // Latest pose from an orientation backend; the output follows it every update.
+  let sensorPose: TrackingPose | null = null
+  let unsubscribeSensors: (() => void) | null = null
+
+  // Fuses SLAM poses (or absolute orientation in sensor mode) with gyro/accelerometer samples,
+  // so orientation keeps tracking through SLAM loss and fast turns.
+  const fusion = createFusionFilter()
+  // Everything above works in the raw tracking frame; poses and planes leave through this transform.
+  const alignment = createWorldAlignment(params.alignment)
+  let worldPose = alignment.toWorld(pose)
+  // Output poses by time, so late consumers can look up where the camera was.
+  const poseHistory = createPoseHistory()
+  // Keyframe map for visual backends: restores the world frame after SLAM resets and across sessions.
+  const relocalizer = createRelocalizer(params.mapKey !== undefined ? { mapKey: params.mapKey } : undefined)
+  // Raw SLAM units per meter from accelerometer vs visual motion; `lockedScale` is in world units.
+  const scaleEstimator = createScaleEstimator()
+  let lockedScale: number | null = null
+  // Adapts the SLAM rate and resolution to what this device sustains.
+  const processing = createProcessingController()
+  // Escalating response to tracking loss, replacing a fixed reset timeout.
+  const recovery = createRecoveryController(params.recovery, (event) => {
+    console.info(`[tracking] recovery ${event.previous} → ${event.stage} (${(event.lostMs / 1000).toFixed(1)}s)`)
+    onRecovery?.(event)
+  })
+  const timeline = createTrackingTimeline()
+  // 3D points behind the 2D SLAM keypoints, for anchoring depth to real distances.
+  const featurePoints = createFeatureTriangulator()
+
+  const stats: Omit<TrackingStats, 'fusion' | 'alignment' | 'map' | 'scale' | 'processing' | 'recovery'> = {
     frames: 0,
     tracked: 0,
     lost: 0,
@@ -112,60 +229,149 @@ export function createTrackingController(params: ControllerParams): TrackingCont
     onStatus?.(next, detail)
   }
 
-  async function loadAlvaModule(): Promise<AlvaModule | null> {
-    try {
-      const appBase = new URL(import.meta.env.BASE_URL, window.location.href).toString()
-      const vendorBase = new URL('vendor/', appBase).toString()
-      if (typeof window !== 'undefined') {
-        const anyGlobal = globalThis as any
-        if (!anyGlobal.Module) {
-          anyGlobal.Module = {
-            locateFile: (path: string) => new URL(path, vendorBase).toString(),
-          }
-        }
-      }
-      // Resolve through Vite BASE_URL so this also works on GitHub Pages subpath.
-      const modUrl = new URL('vendor/alva_ar.js', appBase).toString()
-      const mod = (await import(/* @vite-ignore */ modUrl)) as AlvaModule
-      if (typeof mod?.AlvaAR?.Initialize === 'function') {
-        console.info('[alva] module loaded')
-        return mod
+  /** Backends whose poses are already in the world frame skip fusion and alignment. */
+  function isWorldBackend() {
+    return backend?.measurement === 'world'
+  }
+
+  function hasKeyframeMap() {
+    return backend?.measurement === 'visual'
+  }
+
+  function resetMap(now: number) {
+    backend?.reset()
+    forgetRawFrame(now)
+  }
+
+  /** A fresh SLAM map has a fresh arbitrary frame; relocalization may bring the old one back. */
+  function forgetRawFrame(now: number) {
+    poseHistory.clear()
+    featurePoints.clear()
+    alignment.reset()
+    scaleEstimator.reset()
+    if (hasKeyframeMap()) relocalizer.restart(now)
+  }
+
+  /** Feeds the processing controller and hands changed settings to the backend. */
+  function adaptProcessing(b: TrackingBackend, frame: BackendFrame | null, now: number) {
+    if (!b.setProcessing) return
+    if (frame) processing.onResult({ tracked: Boolean(frame.pose), costMs: frame.costMs, jitterAng: stats.jitterAng })
+    const next = processing.update(now)
+    if (!next) return
+    const startedSource = source
+    void b.setProcessing(next).then((restarted) => {
+      if (backend !== b || source !== startedSource) return
+      if (restarted) {
+        forgetRawFrame(clockNow())
+        clearMotion()
       }
-      return null
-    } catch (err) {
-      console.warn('[alva] module load failed', err)
-      return null
+      const applied = b.getProcessing?.()
+      if (applied) saveProcessingSettings(applied.settings)
+    })
+  }
+
+  function getScale(): TrackingScale | null {
+    const estimate = scaleEstimator.getEstimate()
+    if (lockedScale !== null) {
+      return { unitsPerMeter: lockedScale, confidence: 1, windows: estimate?.windows ?? 0, locked: true }
+    }
+    if (!estimate) return null
+    return {
+      unitsPerMeter: estimate.unitsPerMeter * alignment.getScale(),
+      confidence: estimate.confidence,
+      windows: estimate.windows,
+      locked: false,
+    }
+  }
+
+  /** The filter integrates acceleration in raw SLAM units. */
+  function syncFusionScale() {
+    if (lockedScale !== null) {
+      fusion.setUnitsPerMeter(lockedScale / alignment.getScale())
+      return
     }
+    const estimate = scaleEstimator.getEstimate()
+    fusion.setUnitsPerMeter(estimate && estimate.confidence >= MIN_FUSION_SCALE_CONFIDENCE ? estimate.unitsPerMeter : 1)
   }
 
-  function setupCanvas(w: number, h: number) {
-    frameW = w
-    frameH = h
-    canvas = document.createElement('canvas')
-    canvas.width = frameW
-    canvas.height = frameH
-    ctx = canvas.getContext('2d', { willReadFrequently: true })
+  function markTracked(t: number) {
+    lastPoseT = t
+    stats.tracked += 1
+    lastFrameTracked = true
+    // Without a keyframe map (or once it matched or gave up) there is no world frame to wait for.
+    recovery.onTracked(t, !hasKeyframeMap() || relocalizer.getStatus() !== 'relocalizing')
+    setStatus('tracking', backend?.kind)
   }
 
-  function computeProcessingSize(srcW: number, srcH: number) {
-    const scale = Math.min(1, MAX_PROCESS_WIDTH / srcW, MAX_PROCESS_HEIGHT / srcH)
-    const w = Math.max(1, Math.round(srcW * scale))
-    const h = Math.max(1, Math.round(srcH * scale))
-    return { w, h }
+  function markLost(now: number) {
+    stats.lost += 1
+    lastFrameTracked = false
+    scaleEstimator.onLost()
+    recovery.onLost(now)
+    setStatus('lost', backend?.kind)
+  }
+
+  function applyRecovery(now: number) {
+    for (const action of recovery.update(now, lastFrameTracked)) {
+      if (action === 'forgetMap') forgetMap()
+      else resetMap(now)
+    }
   }
 
-  function updatePoseFromMatrix(m: Float32Array | number[], scale = 1) {
-    // Use the same coordinate fixup as AlvaARConnectorTHREE
-    const mat = new THREE.Matrix4().fromArray(Array.from(m))
-    const r = new THREE.Quaternion().setFromRotationMatrix(mat)
-    const t = new THREE.Vector3(
-      (m as any)[12] ?? 0,
-      (m as any)[13] ?? 0,
-      (m as any)[14] ?? 0,
-    )
-    const quat = new THREE.Quaternion(-r.x, r.y, r.z, r.w)
-    const pos = new THREE.Vector3(t.x, -t.y, -t.z).multiplyScalar(scale)
-    return { position: pos, quaternion: quat }
+  function currentPhase(): TrackingPhase {
+    return status === 'idle' || status === 'initializing' || status === 'unavailable' ? status : recovery.getStage()
+  }
+
+  /** Applies one SLAM result. Returns the raw pose when tracking succeeded. */
+  function handleVisualFrame(frame: BackendFrame, now: number, dt: number) {
+    const raw = frame.pose
+    if (!raw) {
+      markLost(now)
+      return null
+    }
+    const sampleDt = lastRawT > 0 ? (frame.t - lastRawT) / 1000 : dt
+    updateJitter(raw, sampleDt)
+    updateMotionModel(raw, frame.t)
+    fusion.correctVisual(raw, frame.t)
+    scaleEstimator.onVisualPose(raw, frame.t)
+    if (frame.plane) planePose = frame.plane
+    lastPoints = frame.points
+    if (frame.points && intrinsics) {
+      featurePoints.push(frame.t, raw, frame.points, scaleIntrinsics(intrinsics, frame.points.width, frame.points.height))
+    }
+    if (source?.isReady()) {
+      const transform = relocalizer.onTrackedFrame({
+        raw,
+        world: alignment.toWorld(raw),
+        element: source.element,
+        points: frame.points,
+        now,
+        worldLocked: alignment.getState() !== 'pending',
+      })
+      if (transform) {
+        alignment.setTransform(transform)
+        poseHistory.clear()
+      }
+    }
+    markTracked(frame.t)
+    syncFusionScale()
+    return raw
+  }
+
+  function handleWorldFrame(frame: BackendFrame, now: number, dt: number) {
+    const raw = frame.pose
+    if (!raw) {
+      markLost(now)
+      return
+    }
+    const sampleDt = lastRawT > 0 ? (frame.t - lastRawT) / 1000 : dt
+    updateJitter(raw, sampleDt)
+    updateMotionModel(raw, frame.t)
+    pose = { position: raw.position.clone(), quaternion: raw.quaternion.clone() }
+    hasPose = true
+    planePose = frame.plane
+    lastPoints = frame.points
+    markTracked(frame.t)
   }
 
   function smoothingFactor(dt: number, halfLife: number) {
@@ -236,139 +442,213 @@ export function createTrackingController(params: ControllerParams): TrackingCont
     pose.quaternion.slerp(predictedQuat, fRot)
   }
 
-  function onDeviceOrientation(ev: DeviceOrientationEvent) {
-    // Convert alpha/beta/gamma (deg) to quaternion (approx)
-    const alpha = THREE.MathUtils.degToRad(ev.alpha ?? 0)
-    const beta = THREE.MathUtils.degToRad(ev.beta ?? 0)
-    const gamma = THREE.MathUtils.degToRad(ev.gamma ?? 0)
+  function onDeviceOrientation(ev: OrientationSample) {
+    alignment.onOrientation(ev)
+  }
 
-    const euler = new THREE.Euler(beta, alpha, -gamma, 'YXZ')
-    orientationQ = new THREE.Quaternion().setFromEuler(euler)
+  function onImuSample(ev: MotionSample) {
+    fusion.predictImu(ev)
+    alignment.onMotion(ev)
+    if (hasKeyframeMap()) scaleEstimator.onMotion(ev)
   }
 
-  function onDeviceMotion(ev: DeviceMotionEvent) {
-    const now = performance.now()
-    const dt = Math.max(0, (now - lastMotionT) / 1000)
-    lastMotionT = now
+  function useFusion() {
+    return fusion.hasImu() && fusion.isReady()
+  }
 
-    const a = ev.acceleration
-    if (!a || dt <= 0) return
-    const ax = a.x ?? 0
-    const ay = a.y ?? 0
-    const az = a.z ?? 0
+  /** Moves the output pose toward the best estimate for `now`: the fused state, or the SLAM motion model. */
+  function followPose(now: number, dt: number) {
+    if (useFusion()) {
+      applySmoothing(fusion.getPose(), dt)
+      return
+    }
+    applyPrediction(now, dt)
+  }
 
-    const acc = new THREE.Vector3(ax, ay, az).applyQuaternion(orientationQ)
-    velocity.addScaledVector(acc, dt)
-    // Damping to reduce drift
-    velocity.multiplyScalar(0.98)
-    position.addScaledVector(velocity, dt)
+  function resetMotionState() {
+    pose = { position: DEFAULT_POSE.position.clone(), quaternion: DEFAULT_POSE.quaternion.clone() }
+    planePose = null
+    lastPoints = null
+    lastFrameTracked = false
+    lastPoseT = 0
+    lastRawPose = null
+    lastRawT = 0
+    linearVel.set(0, 0, 0)
+    angularAxis.set(0, 1, 0)
+    angularSpeed = 0
+    hasPose = false
+    sensorPose = null
+    fusion.reset()
+    fusion.setUnitsPerMeter(1)
+    alignment.clear()
+    poseHistory.clear()
+    featurePoints.clear()
+    scaleEstimator.reset()
+    recovery.reset()
+    worldPose = alignment.toWorld(pose)
+    Object.assign(stats, { frames: 0, tracked: 0, lost: 0, mode: null, jitterPos: 0, jitterAng: 0, lastPoseAgeMs: 0 })
   }
 
-  async function start() {
+  async function start(nextSource: FrameSource, preference = backendPreference) {
+    teardown()
+    source = nextSource
+    // Start from a clean motion state so replays of the same session line up frame-for-frame.
+    resetMotionState()
     setStatus('initializing')
 
-    const mod = await loadAlvaModule()
-    if (mod?.AlvaAR) {
-      if (video.videoWidth === 0 || video.videoHeight === 0) {
-        await new Promise<void>((resolve) => {
-          const onReady = () => resolve()
-          video.addEventListener('loadedmetadata', onReady, { once: true })
-          setTimeout(onReady, 1000)
-        })
+    // IMU feeds the fusion filter in every mode; without permission we simply run vision-only.
+    const sensorsAllowed = await sensors.requestPermission()
+    if (sensorsAllowed) {
+      sensors.attach()
+      const screenAngle = getScreenAngle()
+      fusion.setScreenAngle(screenAngle)
+      alignment.setScreenAngle(screenAngle)
+      scaleEstimator.setScreenAngle(screenAngle)
+      const offOrientation = sensors.onOrientation(onDeviceOrientation)
+      const offMotion = sensors.onMotion(onImuSample)
+      unsubscribeSensors = () => {
+        offOrientation()
+        offMotion()
       }
-      const srcW = video.videoWidth || width
-      const srcH = video.videoHeight || height
-      const sized = computeProcessingSize(srcW, srcH)
-      setupCanvas(sized.w, sized.h)
-      console.info(`[alva] init size ${frameW}x${frameH}, video ${video.videoWidth}x${video.videoHeight}`)
-      alva = await mod.AlvaAR.Initialize(frameW, frameH)
-      console.info('[alva] initialized')
-      stats.mode = 'alva'
-      setStatus('tracking', 'alva')
-      return
     }
 
-    // Fallback to device sensors if AlvaAR is not available
-    if (typeof window !== 'undefined' && 'DeviceOrientationEvent' in window) {
-      const anyOrientation = DeviceOrientationEvent as any
-      if (typeof anyOrientation.requestPermission === 'function') {
-        try {
-          const res = await anyOrientation.requestPermission()
-          if (res !== 'granted') {
-            setStatus('unavailable', 'sensor permission denied')
-            return
-          }
-        } catch {
-          setStatus('unavailable', 'sensor permission denied')
-          return
+    // Replays run at fixed settings so their poses do not depend on this machine's speed.
+    const adaptive = nextSource.kind !== 'replay'
+    const initialProcessing = (adaptive ? loadProcessingSettings() : null) ?? DEFAULT_PROCESSING
+    const kinds = preference === 'auto' ? AUTO_BACKENDS : [preference]
+    await startBackend(nextSource, kinds, { sensorsAllowed, processing: initialProcessing, adaptive }, [])
+  }
+
+  /** Starts the first of `kinds` that works on `nextSource`; `errors` collects why the others did not. */
+  async function startBackend(
+    nextSource: FrameSource,
+    kinds: TrackingBackendKind[],
+    launch: BackendLaunch,
+    errors: string[],
+  ) {
+    const { sensorsAllowed, processing: initialProcessing, adaptive } = launch
+    for (const [i, kind] of kinds.entries()) {
+      const candidate = BACKEND_FACTORIES[kind]()
+      const res = await candidate.start({
+        source: nextSource,
+        sensors,
+        sensorsAllowed,
+        width,
+        height,
+        intrinsics,
+        processing: initialProcessing,
+        overlayRoot,
+        // The rest of the list is the fallback; an explicit preference has none.
+        onEnded: (reason) => void onBackendEnded(candidate, reason, nextSource, kinds.slice(i + 1), launch),
+      })
+      if (source !== nextSource) {
+        // Stopped or restarted while this backend was starting.
+        candidate.stop()
+        return
+      }
+      if (res.ok) {
+        backend = candidate
+        stats.mode = kind
+        const worker = candidate.getProcessing?.()?.worker ?? false
+        processing.begin(initialProcessing, { adaptive, worker, now: clockNow() })
+        setStatus('tracking', kind)
+        if (candidate.measurement === 'visual') {
+          // Replays must not depend on whatever map this browser has saved.
+          void relocalizer.begin({ persist: nextSource.kind !== 'replay', now: clockNow(), onStatus: onMapStatus })
         }
+        return
       }
-      window.addEventListener('deviceorientation', onDeviceOrientation)
-      window.addEventListener('devicemotion', onDeviceMotion)
-      console.info('[alva] fallback to sensors')
-      stats.mode = 'sensor'
-      setStatus('tracking', 'sensor')
-      return
+      candidate.stop()
+      console.info(`[tracking] ${kind} unavailable: ${res.error}`)
+      errors.push(res.error)
     }
 
-    setStatus('unavailable', 'no tracking module found')
+    setStatus('unavailable', errors.join('; ') || 'no tracking backend')
+  }
+
+  /** A running backend stopped on its own (the user left the WebXR session). */
+  async function onBackendEnded(
+    ended: TrackingBackend,
+    reason: string,
+    nextSource: FrameSource,
+    fallback: TrackingBackendKind[],
+    launch: BackendLaunch,
+  ) {
+    if (backend !== ended || source !== nextSource) return
+    console.info(`[tracking] ${ended.kind} ended: ${reason}`)
+    ended.stop()
+    backend = null
+    stats.mode = null
+    resetMotionState()
+    setStatus('initializing')
+    await startBackend(nextSource, fallback, launch, [reason])
+  }
+
+  function teardown() {
+    if (hasKeyframeMap()) void relocalizer.end()
+    unsubscribeSensors?.()
+    unsubscribeSensors = null
+    backend?.stop()
+    backend = null
+    source = null
   }
 
   function stop() {
-    if (typeof window !== 'undefined') {
-      window.removeEventListener('deviceorientation', onDeviceOrientation)
-      window.removeEventListener('devicemotion', onDeviceMotion)
-    }
-    alva = null
+    teardown()
     setStatus('idle')
   }
 
   function update(dt: number) {
-    const now = performance.now()
+    const now = clockNow()
+    updateRaw(now, dt)
+    applyRecovery(now)
+    timeline.mark(currentPhase(), now)
+    if (isWorldBackend()) {
+      worldPose = pose
+      if (hasPose) poseHistory.push(now, worldPose)
+      return
+    }
+    const alignedBefore = alignment.getState()
+    if (hasPose) alignment.update(pose, now)
+    // Locking gravity moves the world frame under the earlier poses.
+    if (alignment.getState() !== alignedBefore) poseHistory.clear()
+    worldPose = alignment.toWorld(pose)
+    if (hasPose) poseHistory.push(now, worldPose)
+  }
+
+  function updateRaw(now: number, dt: number) {
     stats.frames += 1
     stats.lastPoseAgeMs = Math.max(0, now - lastPoseT)
-    if (alva && canvas && ctx) {
-      if (video.videoWidth > 0 && video.videoHeight > 0) {
-        const minInterval = 1000 / Math.max(1, SLAM_TARGET_FPS)
-        if (now - lastAlvaT < minInterval) {
-          applyPrediction(now, dt)
-          return
-        }
-        lastAlvaT = now
-        ctx.drawImage(video, 0, 0, frameW, frameH)
-        const frame = ctx.getImageData(0, 0, frameW, frameH)
-        const res = alva.findCameraPose(frame)
-        if (res && (res as any).length === 16) {
-          const raw = updatePoseFromMatrix(res as Float32Array)
-          updateJitter(raw, dt)
-          updateMotionModel(raw, now)
-          applySmoothing(raw, dt)
-          lastPoseT = now
-          const plane = alva.findPlane?.()
-          if (plane && (plane as any).length === 16) {
-            planePose = updatePoseFromMatrix(plane as Float32Array)
-          }
-          const pts = alva.getFramePoints?.() ?? []
-          lastPoints = { points: pts, width: frameW, height: frameH }
-          stats.tracked += 1
-          lostSince = null
-          setStatus('tracking', 'alva')
-          return
-        }
-        stats.lost += 1
-        if (!lostSince) lostSince = now
-        if (lostSince && now - lostSince > LOST_RESET_MS) {
-          alva.reset?.()
-          lostSince = null
-        }
-        setStatus('lost', 'alva')
+    const b = backend
+    if (!b) return
+    const frame = b.poll(now)
+
+    if (b.measurement === 'world') {
+      if (frame) handleWorldFrame(frame, now, dt)
+      return
+    }
+
+    if (b.measurement === 'visual') {
+      adaptProcessing(b, frame, now)
+      if (frame) {
+        const raw = handleVisualFrame(frame, now, dt)
+        if (raw && !hasPose) applySmoothing(raw, dt)
       }
-      applyPrediction(now, dt)
+      // Results lag the camera (worker round-trip, frame throttling); the IMU or prediction fills the gap.
+      followPose(now, dt)
       return
     }
 
-    // Fallback sensor pose (orientation + integrated position)
-    const raw = { position: position.clone(), quaternion: orientationQ.clone() }
+    // Orientation backend: gyro-fused orientation + dead-reckoned position.
+    if (frame?.pose) {
+      sensorPose = frame.pose
+      if (frame.t > 0) fusion.correctAbsoluteOrientation(frame.pose.quaternion, frame.t)
+      setStatus('tracking', b.kind)
+    }
+    const current = sensorPose ?? DEFAULT_POSE
+    const raw = useFusion()
+      ? { position: current.position.clone(), quaternion: fusion.getPose().quaternion }
+      : { position: current.position.clone(), quaternion: current.quaternion.clone() }
     updateJitter(raw, dt)
     updateMotionModel(raw, now)
     applySmoothing(raw, dt)
@@ -376,26 +656,80 @@ export function createTrackingController(params: ControllerParams): TrackingCont
   }
 
   function getPose() {
-    return pose
+    return worldPose
+  }
+
+  function captureFrame(): FrameBundle {
+    const t = clockNow()
+    const at = poseHistory.at(t) ?? worldPose
+    return {
+      t,
+      sourceT: source?.getTimestamp() ?? 0,
+      pose: { position: at.position.clone(), quaternion: at.quaternion.clone() },
+      intrinsics,
+    }
   }
 
   function getPlane() {
-    return planePose
+    if (!planePose) return null
+    return isWorldBackend() ? planePose : alignment.toWorld(planePose)
   }
 
   function getFramePoints() {
     return lastPoints
   }
 
-  function getStats() {
-    return { ...stats }
+  function getFeaturePoints() {
+    if (isWorldBackend()) return []
+    const identity = new THREE.Quaternion()
+    return featurePoints.getPoints().map((p) => alignment.toWorld({ position: p, quaternion: identity }).position)
+  }
+
+  function getStats(): TrackingStats {
+    return {
+      ...stats,
+      fusion: fusion.getStats(),
+      alignment: isWorldBackend() ? 'native' : alignment.getState(),
+      map: hasKeyframeMap() ? relocalizer.getStatus() : null,
+      scale: hasKeyframeMap() ? getScale() : null,
+      processing: getProcessingStats(),
+      recovery: recovery.getStage(),
+    }
+  }
+
+  function getProcessingStats(): ProcessingStats | null {
+    const current = backend?.getProcessing?.()
+    if (!current) return null
+    return {
+      ...current.settings,
+      width: current.width,
+      height: current.height,
+      costMs: processing.getCostMs(),
+      adaptive: processing.isAdaptive(),
+    }
   }
 
   function resetWorld() {
-    position.set(0, 0, 0)
-    velocity.set(0, 0, 0)
-    pose = { position: position.clone(), quaternion: orientationQ.clone() }
-    if (alva?.reset) alva.reset()
+    resetMap(clockNow())
+    clearMotion()
+    recovery.reset()
+  }
+
+  function forgetMap() {
+    if (!hasKeyframeMap()) return
+    relocalizer.forget()
+    alignment.reset()
+  }
+
+  function clearMotion() {
+    fusion.reset()
+    // The next measurement starts the new world; don't smooth or extrapolate across the reset.
+    hasPose = false
+    sensorPose = null
+    lastRawPose = null
+    lastRawT = 0
+    linearVel.set(0, 0, 0)
+    angularSpeed = 0
   }
 
   return {
@@ -406,9 +740,41 @@ export function createTrackingController(params: ControllerParams): TrackingCont
     stop,
     update,
     getPose,
+    getPoseAt: (t) => poseHistory.at(t),
+    captureFrame,
     getPlane,
     getFramePoints,
+    getFeaturePoints,
     getStats,
     resetWorld,
+    forgetMap,
+    setWorldOrigin: (origin) => {
+      if (!backend || isWorldBackend() || !alignment.rebase(origin)) return false
+      if (hasKeyframeMap()) relocalizer.rebase(origin)
+      poseHistory.clear()
+      worldPose = alignment.toWorld(pose)
+      return true
+    },
+    setBackendPreference: (preference) => {
+      backendPreference = preference
+    },
+    setIntrinsics: (next) => {
+      intrinsics = next
+    },
+    setRecoveryPolicy: (policy) => recovery.setPolicy(policy),
+    getTimeline: () => timeline.get(clockNow()),
+    getTimelineSpanMs: () => timeline.getSpanMs(),
+    setScaleLocked: (locked) => {
+      if (!locked) {
+        lockedScale = null
+        syncFusionScale()
+        return true
+      }
+      const current = getScale()
+      if (!current || !hasKeyframeMap()) return false
+      lockedScale = current.unitsPerMeter
+      syncFusionScale()
+      return true
+    },
   }
 }
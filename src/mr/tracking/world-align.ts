@@ -0,0 +1,208 @@
+import * as THREE from 'three'
+import type { MotionSample, OrientationSample } from '../sensors/sensors'
+import { deviceOrientationToQuaternion, deviceVectorToCamera } from './device-frame'
+import type { TrackingPose } from './tracker'
+
+/**
+ * - `pending`: still collecting gravity; poses are only lifted to eye height.
+ * - `gravity`: +Y is up, yaw chosen so the camera faced -Z when the alignment locked.
+ * - `compass`: +Y is up and -Z points north.
+ * - `none`: no usable accelerometer; the SLAM frame is kept as is.
+ * - `native`: the backend already reports a gravity-aligned floor frame (WebXR, simulated).
+ * - `map`: restored from a saved map by relocalization.
+ * - `marker`: origin and axes pinned to a fiducial marker.
+ */
+export type WorldAlignmentState = 'pending' | 'gravity' | 'compass' | 'none' | 'native' | 'map' | 'marker'
+
+export type WorldAlignmentOptions = {
+  /** Camera height above the world origin when the alignment locks (tracking units). */
+  eyeHeight: number
+  /** Use absolute deviceorientation heading so -Z is north. */
+  useCompass: boolean
+  /** Still-phone pose samples averaged before locking. */
+  stillSamples: number
+  /** Give up on gravity after this long and keep the SLAM frame. */
+  timeoutMs: number
+}
+
+const DEFAULTS: WorldAlignmentOptions = {
+  eyeHeight: 1.6,
+  useCompass: false,
+  stillSamples: 12,
+  timeoutMs: 2500,
+}
+
+const GRAVITY = 9.80665
+const GRAVITY_TOLERANCE = 0.8
+const MAX_STILL_SPIN = 0.6
+const MAX_GRAVITY_WOBBLE = 0.08
+const GRAVITY_HALFLIFE_MS = 60
+const MAX_SAMPLE_AGE_MS = 250
+const UP = new THREE.Vector3(0, 1, 0)
+
+/**
+ * Maps the tracker's raw frame (arbitrary SLAM frame, or earth frame in sensor mode) into the shared
+ * world frame: +Y opposite to gravity, origin on the floor under the camera's starting position.
+ * The transform is fixed once locked so anchored content never drifts with later gravity noise;
+ * `reset()` re-aligns after the SLAM map changes.
+ */
+export function createWorldAlignment(opts?: Partial<WorldAlignmentOptions>) {
+  const o: WorldAlignmentOptions = { ...DEFAULTS, ...(opts ?? {}) }
+
+  const rotation = new THREE.Quaternion()
+  const offset = new THREE.Vector3(0, o.eyeHeight, 0)
+  let scale = 1
+  let state: WorldAlignmentState = 'pending'
+  let screenAngleDeg = 0
+
+  // Low-passed up vector in the camera frame (accelerometer reads +g when at rest).
+  const gravity = new THREE.Vector3()
+  let gravityT = 0
+  let still = false
+  let heading: { q: THREE.Quaternion; t: number } | null = null
+
+  const upSum = new THREE.Vector3()
+  let upCount = 0
+  let pendingSince: number | null = null
+
+  function onMotion(sample: MotionSample) {
+    const g = sample.accelerationIncludingGravity
+    if (!g) return
+    const v = deviceVectorToCamera(g.x, g.y, g.z, screenAngleDeg)
+    const a = sample.acceleration
+    if (a) v.sub(deviceVectorToCamera(a.x, a.y, a.z, screenAngleDeg))
+    if (gravityT <= 0) {
+      gravity.copy(v)
+    } else {
+      const dt = Math.max(0, sample.t - gravityT)
+      gravity.lerp(v, 1 - Math.pow(0.5, dt / GRAVITY_HALFLIFE_MS))
+    }
+    gravityT = sample.t
+
+    const rr = sample.rotationRate
+    const spin = rr ? THREE.MathUtils.degToRad(Math.hypot(rr.alpha, rr.beta, rr.gamma)) : 0
+    const magnitudeOk = Math.abs(v.length() - GRAVITY) < GRAVITY_TOLERANCE
+    still = magnitudeOk && spin < MAX_STILL_SPIN && v.angleTo(gravity) < MAX_GRAVITY_WOBBLE
+  }
+
+  function onOrientation(sample: OrientationSample) {
+    if (!sample.absolute || sample.alpha === null) return
+    heading = { q: deviceOrientationToQuaternion(sample, screenAngleDeg), t: sample.t }
+  }
+
+  /** Horizontal viewing direction; the top edge of the screen when looking straight up or down. */
+  function horizontalDirection(q: THREE.Quaternion) {
+    for (const axis of [new THREE.Vector3(0, 0, -1), new THREE.Vector3(0, 1, 0)]) {
+      const d = axis.applyQuaternion(q)
+      d.y = 0
+      if (d.lengthSq() > 0.04) return d.normalize()
+    }
+    return null
+  }
+
+  function lock(raw: TrackingPose, upRaw: THREE.Vector3 | null, now: number) {
+    scale = 1
+    rotation.setFromUnitVectors(upRaw ?? UP, UP)
+    let next: WorldAlignmentState = upRaw ? 'gravity' : 'none'
+    // Default: the camera starts out looking down -Z, like an unmoved Three camera.
+    let targetYaw = Math.PI
+    if (o.useCompass && upRaw && heading && now - heading.t < MAX_SAMPLE_AGE_MS) {
+      const north = horizontalDirection(heading.q)
+      if (north) {
+        targetYaw = Math.atan2(north.x, north.z)
+        next = 'compass'
+      }
+    }
+    const forward = horizontalDirection(rotation.clone().multiply(raw.quaternion))
+    if (forward) {
+      const yaw = targetYaw - Math.atan2(forward.x, forward.z)
+      rotation.premultiply(new THREE.Quaternion().setFromAxisAngle(UP, yaw))
+    }
+    const cam = raw.position.clone().applyQuaternion(rotation)
+    offset.set(-cam.x, o.eyeHeight - cam.y, -cam.z)
+    state = next
+    console.info(`[tracking] world aligned (${next})`)
+  }
+
+  /** Call every tracker update with the raw camera pose; locks the alignment once gravity is stable. */
+  function update(raw: TrackingPose, now: number) {
+    if (state !== 'pending') return
+    if (pendingSince === null) pendingSince = now
+    if (still && gravityT > 0 && now - gravityT < MAX_SAMPLE_AGE_MS && gravity.lengthSq() > 0) {
+      upSum.add(gravity.clone().normalize().applyQuaternion(raw.quaternion))
+      upCount += 1
+    }
+    if (upCount >= o.stillSamples) {
+      lock(raw, upSum.clone().normalize(), now)
+    } else if (now - pendingSince > o.timeoutMs) {
+      lock(raw, upCount > 0 ? upSum.clone().normalize() : null, now)
+    }
+  }
+
+  function toWorld(p: TrackingPose): TrackingPose {
+    return {
+      position: p.position.clone().multiplyScalar(scale).applyQuaternion(rotation).add(offset),
+      quaternion: rotation.clone().multiply(p.quaternion),
+    }
+  }
+
+  /** Replaces the alignment with a known raw→world transform (relocalization against a saved map). */
+  function setTransform(next: { rotation: THREE.Quaternion; offset: THREE.Vector3; scale: number }) {
+    rotation.copy(next.rotation)
+    offset.copy(next.offset)
+    scale = next.scale
+    state = 'map'
+  }
+
+  /**
+   * Moves the world frame so `origin` (a pose in the current world) becomes the new origin and axes.
+   * Only once the alignment has locked; a pending lock would overwrite it.
+   */
+  function rebase(origin: TrackingPose) {
+    if (state === 'pending') return false
+    const inv = origin.quaternion.clone().invert()
+    rotation.premultiply(inv)
+    offset.sub(origin.position).applyQuaternion(inv)
+    state = 'marker'
+    return true
+  }
+
+  /** Drops the current alignment; the next stable gravity reading defines a new one. */
+  function reset() {
+    state = 'pending'
+    scale = 1
+    rotation.identity()
+    offset.set(0, o.eyeHeight, 0)
+    upSum.set(0, 0, 0)
+    upCount = 0
+    pendingSince = null
+  }
+
+  /** Also forgets sensor history (new tracking session). */
+  function clear() {
+    reset()
+    gravity.set(0, 0, 0)
+    gravityT = 0
+    still = false
+    heading = null
+  }
+
+  return {
+    onMotion,
+    onOrientation,
+    update,
+    toWorld,
+    setTransform,
+    rebase,
+    reset,
+    clear,
+    getState: () => state,
+    /** World units per raw tracking unit. */
+    getScale: () => scale,
+    setScreenAngle: (deg: number) => {
+      screenAngleDeg = deg
+    },
+  }
+}
+
+export type WorldAlignment = ReturnType<typeof createWorldAlignment>
@@ -0,0 +1,275 @@
+import { applyHomography, computeHomography, type Point2 } from './homography'
+import { boxBlur, toGray } from './image'
+
+/**
+ * Original ArUco dictionary (OpenCV `DICT_ARUCO_ORIGINAL`, js-aruco): a black border around 5x5 data
+ * cells. Every row is one of four 5-bit words carrying 2 bits, so ids run 0..1023.
+ */
+const ROW_WORDS = [
+  [1, 0, 0, 0, 0],
+  [1, 0, 1, 1, 1],
+  [0, 1, 0, 0, 1],
+  [0, 1, 1, 1, 0],
+]
+const CELLS = 7
+const DATA = 5
+
+export type MarkerDetection = {
+  id: number
+  /** Outer corners in image pixels: the marker's top-left, top-right, bottom-right, bottom-left. */
+  corners: Point2[]
+}
+
+export type MarkerDetectorOptions = {
+  /** Shortest accepted marker side (px). */
+  minSidePx: number
+  /** Local-mean window radius for the adaptive threshold (px). */
+  thresholdRadius: number
+  /** Pixels must be this much darker than their neighbourhood to count as border. */
+  thresholdOffset: number
+  /** Minimum gray difference between white and black cells. */
+  minContrast: number
+}
+
+const DEFAULTS: MarkerDetectorOptions = {
+  minSidePx: 24,
+  thresholdRadius: 7,
+  thresholdOffset: 7,
+  minContrast: 30,
+}
+
+// A quad fitted to the component's hull must cover nearly all of it to be a square outline.
+const MIN_QUAD_FILL = 0.9
+const MAX_SIDE_RATIO = 4
+
+type Component = { rows: Map<number, { min: number; max: number }>; count: number; minX: number; maxX: number; minY: number; maxY: number }
+
+function labelDarkComponents(dark: Uint8Array, w: number, h: number, minCount: number) {
+  const labels = new Int32Array(w * h)
+  const stack = new Int32Array(w * h)
+  const out: Component[] = []
+  let next = 0
+  for (let start = 0; start < dark.length; start++) {
+    if (!dark[start] || labels[start]) continue
+    next += 1
+    const comp: Component = { rows: new Map(), count: 0, minX: w, maxX: 0, minY: h, maxY: 0 }
+    let top = 0
+    stack[top++] = start
+    labels[start] = next
+    while (top > 0) {
+      const i = stack[--top]
+      const x = i % w
+      const y = (i - x) / w
+      comp.count += 1
+      const row = comp.rows.get(y)
+      if (!row) comp.rows.set(y, { min: x, max: x })
+      else {
+        if (x < row.min) row.min = x
+        if (x > row.max) row.max = x
+      }
+      if (x < comp.minX) comp.minX = x
+      if (x > comp.maxX) comp.maxX = x
+      if (y < comp.minY) comp.minY = y
+      if (y > comp.maxY) comp.maxY = y
+      if (x > 0 && dark[i - 1] && !labels[i - 1]) (labels[i - 1] = next), (stack[top++] = i - 1)
+      if (x < w - 1 && dark[i + 1] && !labels[i + 1]) (labels[i + 1] = next), (stack[top++] = i + 1)
+      if (y > 0 && dark[i - w] && !labels[i - w]) (labels[i - w] = next), (stack[top++] = i - w)
+      if (y < h - 1 && dark[i + w] && !labels[i + w]) (labels[i + w] = next), (stack[top++] = i + w)
+    }
+    if (comp.count >= minCount) out.push(comp)
+  }
+  return out
+}
+
+function cross(o: Point2, a: Point2, b: Point2) {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x)
+}
+
+/** Monotone-chain convex hull of the per-row extreme pixels. */
+function componentHull(comp: Component) {
+  const pts: Point2[] = []
+  for (const [y, row] of comp.rows) {
+    pts.push({ x: row.min, y: y + 0.5 }, { x: row.max + 1, y: y + 0.5 })
+  }
+  pts.sort((a, b) => a.x - b.x || a.y - b.y)
+  const lower: Point2[] = []
+  for (const p of pts) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop()
+    lower.push(p)
+  }
+  const upper: Point2[] = []
+  for (let i = pts.length - 1; i >= 0; i--) {
+    const p = pts[i]
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop()
+    upper.push(p)
+  }
+  return lower.slice(0, -1).concat(upper.slice(0, -1))
+}
+
+function polygonArea(poly: Point2[]) {
+  let a = 0
+  for (let i = 0; i < poly.length; i++) {
+    const p = poly[i]
+    const q = poly[(i + 1) % poly.length]
+    a += p.x * q.y - q.x * p.y
+  }
+  return a / 2
+}
+
+/** Four hull points spanning the largest quad: two far-apart corners plus the extremes on either side. */
+function hullQuad(hull: Point2[]): Point2[] | null {
+  if (hull.length < 4) return null
+  let cx = 0
+  let cy = 0
+  for (const p of hull) {
+    cx += p.x
+    cy += p.y
+  }
+  cx /= hull.length
+  cy /= hull.length
+  let a = hull[0]
+  for (const p of hull) if (Math.hypot(p.x - cx, p.y - cy) > Math.hypot(a.x - cx, a.y - cy)) a = p
+  let c = hull[0]
+  for (const p of hull) if (Math.hypot(p.x - a.x, p.y - a.y) > Math.hypot(c.x - a.x, c.y - a.y)) c = p
+  let b: Point2 | null = null
+  let d: Point2 | null = null
+  let maxSide = 0
+  let minSide = 0
+  for (const p of hull) {
+    const s = cross(a, c, p)
+    if (s > maxSide) (maxSide = s), (b = p)
+    if (s < minSide) (minSide = s), (d = p)
+  }
+  if (!b || !d) return null
+  const quad = [a, b, c, d]
+  // Clockwise on screen (positive shoelace with y down), same as marker cell order.
+  return polygonArea(quad) > 0 ? quad : [a, d, c, b]
+}
+
+function plausibleQuad(quad: Point2[], hullArea: number, minSide: number) {
+  const sides = quad.map((p, i) => Math.hypot(quad[(i + 1) % 4].x - p.x, quad[(i + 1) % 4].y - p.y))
+  const shortest = Math.min(...sides)
+  if (shortest < minSide || Math.max(...sides) > shortest * MAX_SIDE_RATIO) return false
+  return polygonArea(quad) >= hullArea * MIN_QUAD_FILL
+}
+
+/** Mean gray of the central part of every cell, row-major CELLS x CELLS. */
+function sampleCells(gray: Float32Array, w: number, h: number, quad: Point2[]) {
+  const hm = computeHomography(
+    [
+      { x: 0, y: 0 },
+      { x: CELLS, y: 0 },
+      { x: CELLS, y: CELLS },
+      { x: 0, y: CELLS },
+    ],
+    quad,
+  )
+  if (!hm) return null
+  const cells = new Float32Array(CELLS * CELLS)
+  for (let j = 0; j < CELLS; j++) {
+    for (let i = 0; i < CELLS; i++) {
+      let sum = 0
+      let n = 0
+      for (const oy of [0.3, 0.5, 0.7]) {
+        for (const ox of [0.3, 0.5, 0.7]) {
+          const p = applyHomography(hm, { x: i + ox, y: j + oy })
+          const x = Math.floor(p.x)
+          const y = Math.floor(p.y)
+          if (x < 0 || y < 0 || x >= w || y >= h) continue
+          sum += gray[y * w + x]
+          n += 1
+        }
+      }
+      if (n === 0) return null
+      cells[j * CELLS + i] = sum / n
+    }
+  }
+  return cells
+}
+
+function rotateClockwise(bits: number[][]) {
+  const n = bits.length
+  return bits.map((_, i) => bits.map((__, j) => bits[n - 1 - j][i]))
+}
+
+function rowsValid(bits: number[][]) {
+  return bits.every((row) => ROW_WORDS.some((word) => word.every((b, k) => b === row[k])))
+}
+
+function bitsToId(bits: number[][]) {
+  let id = 0
+  for (const row of bits) {
+    id = (id << 1) | row[1]
+    id = (id << 1) | row[3]
+  }
+  return id
+}
+
+/** Decodes sampled cells; `rotation` is how many clockwise turns make them upright. */
+function decode(cells: Float32Array, minContrast: number) {
+  let lo = Infinity
+  let hi = -Infinity
+  for (const v of cells) {
+    if (v < lo) lo = v
+    if (v > hi) hi = v
+  }
+  if (hi - lo < minContrast) return null
+  const thr = (lo + hi) / 2
+  for (let k = 0; k < CELLS; k++) {
+    const ring = [cells[k], cells[(CELLS - 1) * CELLS + k], cells[k * CELLS], cells[k * CELLS + CELLS - 1]]
+    if (ring.some((v) => v > thr)) return null
+  }
+  let bits: number[][] = []
+  for (let r = 0; r < DATA; r++) {
+    const row: number[] = []
+    for (let c = 0; c < DATA; c++) row.push(cells[(r + 1) * CELLS + c + 1] > thr ? 1 : 0)
+    bits.push(row)
+  }
+  for (let rotation = 0; rotation < 4; rotation++) {
+    if (rowsValid(bits)) return { id: bitsToId(bits), rotation }
+    bits = rotateClockwise(bits)
+  }
+  return null
+}
+
+/**
+ * Square fiducials: adaptive threshold, dark connected components, a quad fitted to each component's
+ * convex hull, then the 7x7 cell grid is sampled through the quad's homography and decoded.
+ */
+export function detectMarkers(image: ImageData, opts?: Partial<MarkerDetectorOptions>): MarkerDetection[] {
+  const o: MarkerDetectorOptions = { ...DEFAULTS, ...(opts ?? {}) }
+  const { width: w, height: h } = image
+  const gray = toGray(image)
+  const mean = boxBlur(gray, w, h, o.thresholdRadius)
+  const dark = new Uint8Array(w * h)
+  for (let i = 0; i < dark.length; i++) dark[i] = gray[i] < mean[i] - o.thresholdOffset ? 1 : 0
+
+  const out: MarkerDetection[] = []
+  // The border alone covers 24/49 of the marker, so tiny components cannot be markers.
+  const minCount = Math.floor(o.minSidePx * o.minSidePx * 0.3)
+  for (const comp of labelDarkComponents(dark, w, h, minCount)) {
+    if (comp.maxX - comp.minX < o.minSidePx || comp.maxY - comp.minY < o.minSidePx) continue
+    if (comp.minX === 0 || comp.minY === 0 || comp.maxX === w - 1 || comp.maxY === h - 1) continue
+    const hull = componentHull(comp)
+    const quad = hullQuad(hull)
+    if (!quad || !plausibleQuad(quad, polygonArea(hull), o.minSidePx)) continue
+    const cells = sampleCells(gray, w, h, quad)
+    const decoded = cells ? decode(cells, o.minContrast) : null
+    if (!decoded) continue
+    // Turning the cells clockwise `rotation` times uprights them, so the marker's own top-left
+    // corner sits `rotation` steps counter-clockwise from the sampled one.
+    const first = (4 - decoded.rotation) % 4
+    out.push({ id: decoded.id, corners: [0, 1, 2, 3].map((k) => quad[(first + k) % 4]) })
+  }
+  return out
+}
+
+/** Cell colors (1 = white) of marker `id`, border included, for rendering printable markers. */
+export function markerCells(id: number): number[][] {
+  const cells = Array.from({ length: CELLS }, () => new Array<number>(CELLS).fill(0))
+  for (let r = 0; r < DATA; r++) {
+    const word = ROW_WORDS[(id >> (2 * (DATA - 1 - r))) & 3]
+    for (let c = 0; c < DATA; c++) cells[r + 1][c + 1] = word[c]
+  }
+  return cells
+}
@@ -0,0 +1,152 @@
+import { applyHomography, computeHomography, type Homography, type Point2 } from './homography'
+import { boxBlur, toGray } from './image'
+
+/** Inner corner count of a printed checkerboard (a 10x7-square board has 9x6 inner corners). */
+export type CheckerboardSize = { cols: number; rows: number }
+
+export type CheckerboardDetection = {
+  /** Inner corners in image pixels, row by row. */
+  corners: Point2[]
+  /** Board coordinates (one unit per square, origin at the first corner) to image pixels. */
+  homography: Homography
+  /** RMS distance between detected corners and the fitted homography (px). */
+  rms: number
+}
+
+type Candidate = Point2 & { score: number }
+
+const BLUR_RADIUS = 2
+const HESSIAN_STEP = 2
+const NMS_RADIUS = 4
+const MIN_RELATIVE_SCORE = 0.08
+const SNAP_FRACTION = 0.35
+const MAX_RMS_PX = 1.5
+
+/** Saddle-point strength: checkerboard corners have a strongly negative Hessian determinant. */
+function saddleResponse(b: Float32Array, w: number, h: number) {
+  const out = new Float32Array(w * h)
+  const d = HESSIAN_STEP
+  for (let y = d; y < h - d; y++) {
+    for (let x = d; x < w - d; x++) {
+      const i = y * w + x
+      const ixx = b[i + d] - 2 * b[i] + b[i - d]
+      const iyy = b[i + d * w] - 2 * b[i] + b[i - d * w]
+      const ixy = (b[i + d * w + d] - b[i + d * w - d] - b[i - d * w + d] + b[i - d * w - d]) / 4
+      const det = ixx * iyy - ixy * ixy
+      out[i] = det < 0 ? -det : 0
+    }
+  }
+  return out
+}
+
+function findCandidates(resp: Float32Array, w: number, h: number, limit: number) {
+  let max = 0
+  for (let i = 0; i < resp.length; i++) if (resp[i] > max) max = resp[i]
+  if (max <= 0) return []
+  const threshold = max * MIN_RELATIVE_SCORE
+  const out: Candidate[] = []
+  const r = NMS_RADIUS
+  for (let y = r; y < h - r; y++) {
+    for (let x = r; x < w - r; x++) {
+      const v = resp[y * w + x]
+      if (v < threshold) continue
+      let isMax = true
+      for (let dy = -r; dy <= r && isMax; dy++) {
+        for (let dx = -r; dx <= r; dx++) {
+          if ((dx || dy) && resp[(y + dy) * w + x + dx] > v) {
+            isMax = false
+            break
+          }
+        }
+      }
+      if (!isMax) continue
+      // Parabolic sub-pixel refinement.
+      const l = resp[y * w + x - 1]
+      const rr = resp[y * w + x + 1]
+      const u = resp[(y - 1) * w + x]
+      const dn = resp[(y + 1) * w + x]
+      const denX = l - 2 * v + rr
+      const denY = u - 2 * v + dn
+      const ox = denX < 0 ? (0.5 * (l - rr)) / denX : 0
+      const oy = denY < 0 ? (0.5 * (u - dn)) / denY : 0
+      out.push({ x: x + 0.5 + Math.max(-0.5, Math.min(0.5, ox)), y: y + 0.5 + Math.max(-0.5, Math.min(0.5, oy)), score: v })
+    }
+  }
+  out.sort((a, b) => b.score - a.score)
+  return out.slice(0, limit)
+}
+
+function extremes(points: Point2[]) {
+  let tl = points[0]
+  let tr = points[0]
+  let br = points[0]
+  let bl = points[0]
+  for (const p of points) {
+    if (p.x + p.y < tl.x + tl.y) tl = p
+    if (p.x + p.y > br.x + br.y) br = p
+    if (p.x - p.y > tr.x - tr.y) tr = p
+    if (p.x - p.y < bl.x - bl.y) bl = p
+  }
+  return [tl, tr, br, bl]
+}
+
+/** Predicts every grid corner from the four outer ones, snaps to candidates and refits. */
+function fitGrid(candidates: Candidate[], outer: Point2[], cols: number, rows: number): CheckerboardDetection | null {
+  const board = [
+    { x: 0, y: 0 },
+    { x: cols - 1, y: 0 },
+    { x: cols - 1, y: rows - 1 },
+    { x: 0, y: rows - 1 },
+  ]
+  const initial = computeHomography(board, outer)
+  if (!initial) return null
+  const used = new Set<number>()
+  const boardPts: Point2[] = []
+  const imagePts: Point2[] = []
+  for (let j = 0; j < rows; j++) {
+    for (let i = 0; i < cols; i++) {
+      const p = applyHomography(initial, { x: i, y: j })
+      const q = applyHomography(initial, { x: i + (i < cols - 1 ? 1 : -1), y: j })
+      const tol = Math.hypot(q.x - p.x, q.y - p.y) * SNAP_FRACTION
+      let best = -1
+      let bestD = tol
+      for (let k = 0; k < candidates.length; k++) {
+        if (used.has(k)) continue
+        const d = Math.hypot(candidates[k].x - p.x, candidates[k].y - p.y)
+        if (d < bestD) {
+          bestD = d
+          best = k
+        }
+      }
+      if (best < 0) return null
+      used.add(best)
+      boardPts.push({ x: i, y: j })
+      imagePts.push({ x: candidates[best].x, y: candidates[best].y })
+    }
+  }
+  const homography = computeHomography(boardPts, imagePts)
+  if (!homography) return null
+  let err = 0
+  for (let k = 0; k < boardPts.length; k++) {
+    const p = applyHomography(homography, boardPts[k])
+    err += (p.x - imagePts[k].x) ** 2 + (p.y - imagePts[k].y) ** 2
+  }
+  const rms = Math.sqrt(err / boardPts.length)
+  return rms <= MAX_RMS_PX ? { corners: imagePts, homography, rms } : null
+}
+
+/**
+ * Finds a checkerboard held roughly upright (up to ~30° of roll) that fills a fair part of the frame.
+ * Corners are saddle points of the blurred image; the grid is recovered from the four outermost
+ * corners, so clutter outside the board only matters when it is stronger than the board itself.
+ */
+export function detectCheckerboard(image: ImageData, size: CheckerboardSize): CheckerboardDetection | null {
+  const { width: w, height: h } = image
+  const n = size.cols * size.rows
+  const blurred = boxBlur(boxBlur(toGray(image), w, h, BLUR_RADIUS), w, h, BLUR_RADIUS)
+  const candidates = findCandidates(saddleResponse(blurred, w, h), w, h, Math.round(n * 1.6))
+  if (candidates.length < n) return null
+  const outer = extremes(candidates.slice(0, n))
+  // The board may be held in either orientation.
+  return fitGrid(candidates, outer, size.cols, size.rows) ?? fitGrid(candidates, outer, size.rows, size.cols)
+}
@@ -0,0 +1,141 @@
+// Small dense linear algebra for planar targets (checkerboards, markers). Plain number arrays,
+// row-major 3x3 homographies with h[8] = 1.
+
+export type Point2 = { x: number; y: number }
+
+export type Homography = number[]
+
+/** Solves `a * x = b` by Gaussian elimination with partial pivoting. Null when (near) singular. */
+export function solveLinearSystem(a: number[][], b: number[]): number[] | null {
+  const n = b.length
+  const m = a.map((row, i) => [...row, b[i]])
+  for (let col = 0; col < n; col++) {
+    let pivot = col
+    for (let r = col + 1; r < n; r++) if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r
+    if (Math.abs(m[pivot][col]) < 1e-12) return null
+    if (pivot !== col) [m[pivot], m[col]] = [m[col], m[pivot]]
+    for (let r = col + 1; r < n; r++) {
+      const f = m[r][col] / m[col][col]
+      if (f === 0) continue
+      for (let c = col; c <= n; c++) m[r][c] -= f * m[col][c]
+    }
+  }
+  const x = new Array<number>(n).fill(0)
+  for (let r = n - 1; r >= 0; r--) {
+    let s = m[r][n]
+    for (let c = r + 1; c < n; c++) s -= m[r][c] * x[c]
+    x[r] = s / m[r][r]
+  }
+  return x
+}
+
+/**
+ * Eigenvector of the smallest eigenvalue of a symmetric matrix (cyclic Jacobi). Used for
+ * homogeneous least squares `A x = 0`, |x| = 1, with `sym = Aᵀ A`.
+ */
+export function smallestEigenvector(sym: number[][]): number[] {
+  const n = sym.length
+  const a = sym.map((row) => [...row])
+  const v: number[][] = a.map((_, i) => a.map((__, j) => (i === j ? 1 : 0)))
+  for (let sweep = 0; sweep < 60; sweep++) {
+    let off = 0
+    for (let p = 0; p < n; p++) for (let q = p + 1; q < n; q++) off += a[p][q] * a[p][q]
+    if (off < 1e-24) break
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-300) continue
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q])
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1))
+        const c = 1 / Math.sqrt(t * t + 1)
+        const s = t * c
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p]
+          const akq = a[k][q]
+          a[k][p] = c * akp - s * akq
+          a[k][q] = s * akp + c * akq
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k]
+          const aqk = a[q][k]
+          a[p][k] = c * apk - s * aqk
+          a[q][k] = s * apk + c * aqk
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p]
+          const vkq = v[k][q]
+          v[k][p] = c * vkp - s * vkq
+          v[k][q] = s * vkp + c * vkq
+        }
+      }
+    }
+  }
+  let best = 0
+  for (let i = 1; i < n; i++) if (a[i][i] < a[best][best]) best = i
+  return v.map((row) => row[best])
+}
+
+/** Similarity that moves the centroid to the origin and the mean distance to √2 (Hartley). */
+function normalization(points: Point2[]) {
+  let cx = 0
+  let cy = 0
+  for (const p of points) {
+    cx += p.x
+    cy += p.y
+  }
+  cx /= points.length
+  cy /= points.length
+  let d = 0
+  for (const p of points) d += Math.hypot(p.x - cx, p.y - cy)
+  const s = d > 0 ? (Math.SQRT2 * points.length) / d : 1
+  return { s, cx, cy }
+}
+
+export function multiplyHomography(a: Homography, b: Homography): Homography {
+  const out = new Array<number>(9)
+  for (let r = 0; r < 3; r++) {
+    for (let c = 0; c < 3; c++) {
+      out[r * 3 + c] = a[r * 3] * b[c] + a[r * 3 + 1] * b[3 + c] + a[r * 3 + 2] * b[6 + c]
+    }
+  }
+  return out
+}
+
+/** Least-squares homography mapping `from[i]` to `to[i]` (at least 4 pairs). */
+export function computeHomography(from: Point2[], to: Point2[]): Homography | null {
+  if (from.length < 4 || from.length !== to.length) return null
+  const nf = normalization(from)
+  const nt = normalization(to)
+  const ata = Array.from({ length: 8 }, () => new Array<number>(8).fill(0))
+  const atb = new Array<number>(8).fill(0)
+  const accumulate = (row: number[], rhs: number) => {
+    for (let i = 0; i < 8; i++) {
+      if (row[i] === 0) continue
+      atb[i] += row[i] * rhs
+      for (let j = 0; j < 8; j++) ata[i][j] += row[i] * row[j]
+    }
+  }
+  for (let i = 0; i < from.length; i++) {
+    const x = (from[i].x - nf.cx) * nf.s
+    const y = (from[i].y - nf.cy) * nf.s
+    const u = (to[i].x - nt.cx) * nt.s
+    const v = (to[i].y - nt.cy) * nt.s
+    accumulate([x, y, 1, 0, 0, 0, -u * x, -u * y], u)
+    accumulate([0, 0, 0, x, y, 1, -v * x, -v * y], v)
+  }
+  const h = solveLinearSystem(ata, atb)
+  if (!h) return null
+  const hn = [...h, 1]
+  const tFrom = [nf.s, 0, -nf.s * nf.cx, 0, nf.s, -nf.s * nf.cy, 0, 0, 1]
+  const tToInv = [1 / nt.s, 0, nt.cx, 0, 1 / nt.s, nt.cy, 0, 0, 1]
+  const out = multiplyHomography(tToInv, multiplyHomography(hn, tFrom))
+  if (Math.abs(out[8]) < 1e-12) return null
+  return out.map((value) => value / out[8])
+}
+
+export function applyHomography(h: Homography, p: Point2): Point2 {
+  const w = h[6] * p.x + h[7] * p.y + h[8]
+  return {
+    x: (h[0] * p.x + h[1] * p.y + h[2]) / w,
+    y: (h[3] * p.x + h[4] * p.y + h[5]) / w,
+  }
+}
@@ -0,0 +1,35 @@
+// Grayscale helpers shared by the detectors. Images are Float32Array luma, row-major.
+
+export function toGray(image: ImageData) {
+  const { width, height, data } = image
+  const gray = new Float32Array(width * height)
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]
+  }
+  return gray
+}
+
+/** Separable box blur with clamped edges (running sums, so the radius does not affect cost). */
+export function boxBlur(src: Float32Array, w: number, h: number, r: number) {
+  const tmp = new Float32Array(src.length)
+  const out = new Float32Array(src.length)
+  const n = 2 * r + 1
+  for (let y = 0; y < h; y++) {
+    const row = y * w
+    let s = 0
+    for (let k = -r; k <= r; k++) s += src[row + Math.min(w - 1, Math.max(0, k))]
+    for (let x = 0; x < w; x++) {
+      tmp[row + x] = s / n
+      s += src[row + Math.min(w - 1, x + r + 1)] - src[row + Math.max(0, x - r)]
+    }
+  }
+  for (let x = 0; x < w; x++) {
+    let s = 0
+    for (let k = -r; k <= r; k++) s += tmp[Math.min(h - 1, Math.max(0, k)) * w + x]
+    for (let y = 0; y < h; y++) {
+      out[y * w + x] = s / n
+      s += tmp[Math.min(h - 1, y + r + 1) * w + x] - tmp[Math.max(0, y - r) * w + x]
+    }
+  }
+  return out
+}
@@ -0,0 +1,220 @@
+import * as THREE from 'three'
+import type { DepthResult } from '../depth/depth'
+import { now } from '../session/clock'
+
+export type DepthOcclusionOptions = {
+  /** Depth band over which a virtual fragment fades out behind a real surface (meters). */
+  softMeters: number
+  /** Real surfaces closer than this in front of a fragment do not hide it (meters), absorbing depth noise. */
+  biasMeters: number
+  /** Occlusion starts fading once the depth frame is this old (ms)... */
+  staleMs: number
+  /** ...and is off from this age on. */
+  maxAgeMs: number
+  /** Same for how far the camera moved since the capture (meters): reprojection cannot fill disoccluded areas. */
+  staleMoveMeters: number
+  maxMoveMeters: number
+}
+
+const DEFAULTS: DepthOcclusionOptions = {
+  softMeters: 0.12,
+  biasMeters: 0.05,
+  staleMs: 800,
+  maxAgeMs: 2500,
+  staleMoveMeters: 0.3,
+  maxMoveMeters: 1,
+}
+
+const vertexShader = /* glsl */ `
+varying vec2 vUv;
+void main() {
+  vUv = uv;
+  gl_Position = vec4(position.xy, 0.0, 1.0);
+}
+`
+
+// Each virtual fragment is moved into the capture camera and compared with the real depth there, so
+// the depth frame is reprojected into the current view exactly for static geometry.
+const fragmentShader = /* glsl */ `
+uniform sampler2D tColor;
+uniform sampler2D tDepth;
+uniform sampler2D tReal;
+uniform mat4 projectionInverse;
+uniform mat4 cameraWorld;
+uniform mat4 captureView;
+uniform vec4 captureK;
+uniform vec2 realSize;
+uniform float unitsPerMeter;
+uniform float soft;
+uniform float bias;
+uniform float strength;
+varying vec2 vUv;
+
+float occludedAt(vec2 px, float z) {
+  vec2 uv = px / realSize;
+  if (uv.x < 0.0 || uv.y < 0.0 || uv.x > 1.0 || uv.y > 1.0) return 0.0;
+  float real = texture2D(tReal, uv).r * unitsPerMeter;
+  if (real <= 0.0) return 0.0;
+  return smoothstep(0.0, soft, z - real - bias);
+}
+
+void main() {
+  vec4 color = texture2D(tColor, vUv);
+  float d = texture2D(tDepth, vUv).x;
+  float occ = 0.0;
+  if (d < 1.0 && strength > 0.0) {
+    vec4 view = projectionInverse * vec4(vUv * 2.0 - 1.0, d * 2.0 - 1.0, 1.0);
+    vec4 world = cameraWorld * vec4(view.xyz / view.w, 1.0);
+    vec3 c = (captureView * world).xyz;
+    float z = -c.z;
+    if (z > 0.0) {
+      vec2 px = vec2(captureK.x * c.x / z + captureK.z, captureK.w - captureK.y * c.y / z);
+      // A few taps a depth pixel apart soften the silhouette of real objects.
+      occ = 0.25 * (
+        occludedAt(px + vec2(-1.0, -1.0), z) +
+        occludedAt(px + vec2(1.0, -1.0), z) +
+        occludedAt(px + vec2(-1.0, 1.0), z) +
+        occludedAt(px + vec2(1.0, 1.0), z)
+      );
+    }
+  }
+  // The target holds premultiplied color (normal blending over a transparent clear).
+  gl_FragColor = color * (1.0 - occ * strength);
+  #include <colorspace_fragment>
+}
+`
+
+/**
+ * Hides virtual content behind real surfaces using the latest aligned depth frame (`alignDepth`).
+ * The scene is rendered into a target with a depth texture, then composited onto the transparent
+ * canvas with virtual fragments faded where the real depth is closer. Without usable depth it falls
+ * back to a plain render; stale depth fades out instead of cutting off.
+ */
+export function createDepthOcclusion(renderer: THREE.WebGLRenderer, opts?: Partial<DepthOcclusionOptions>) {
+  const o: DepthOcclusionOptions = { ...DEFAULTS, ...(opts ?? {}) }
+  const size = new THREE.Vector2()
+  const target = new THREE.WebGLRenderTarget(1, 1, {
+    type: THREE.HalfFloatType,
+    samples: 4,
+    depthTexture: new THREE.DepthTexture(1, 1),
+  })
+
+  const material = new THREE.ShaderMaterial({
+    vertexShader,
+    fragmentShader,
+    uniforms: {
+      tColor: { value: target.texture },
+      tDepth: { value: target.depthTexture },
+      tReal: { value: null },
+      projectionInverse: { value: new THREE.Matrix4() },
+      cameraWorld: { value: new THREE.Matrix4() },
+      captureView: { value: new THREE.Matrix4() },
+      captureK: { value: new THREE.Vector4() },
+      realSize: { value: new THREE.Vector2(1, 1) },
+      unitsPerMeter: { value: 1 },
+      soft: { value: 0 },
+      bias: { value: 0 },
+      strength: { value: 0 },
+    },
+    blending: THREE.NoBlending,
+    depthTest: false,
+    depthWrite: false,
+  })
+  const quadScene = new THREE.Scene()
+  const quadCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1)
+  const quad = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), material)
+  quad.frustumCulled = false
+  quadScene.add(quad)
+
+  let enabled = true
+  let depth: { texture: THREE.DataTexture; t: number; position: THREE.Vector3; unitsPerMeter: number } | null = null
+
+  /** Uses an aligned depth frame as the occluder; unaligned frames (no `metric`) are ignored. */
+  function setDepth(result: DepthResult, unitsPerMeter: number) {
+    const k = result.intrinsics
+    const frame = result.frame
+    if (!result.metric || !k || !frame) return false
+    if (depth && (depth.texture.image.width !== result.width || depth.texture.image.height !== result.height)) {
+      depth.texture.dispose()
+      depth = null
+    }
+    const texture =
+      depth?.texture ??
+      new THREE.DataTexture(
+        new Float32Array(result.width * result.height),
+        result.width,
+        result.height,
+        THREE.RedFormat,
+        THREE.FloatType,
+      )
+    // Float textures are not filterable everywhere; the shader takes its own taps.
+    texture.minFilter = THREE.NearestFilter
+    texture.magFilter = THREE.NearestFilter
+    ;(texture.image.data as Float32Array).set(result.metric)
+    texture.needsUpdate = true
+    depth = { texture, t: frame.t, position: frame.pose.position.clone(), unitsPerMeter }
+
+    const u = material.uniforms
+    u.tReal.value = texture
+    u.captureView.value.compose(frame.pose.position, frame.pose.quaternion, new THREE.Vector3(1, 1, 1)).invert()
+    u.captureK.value.set(k.fx, k.fy, k.cx, k.cy)
+    u.realSize.value.set(result.width, result.height)
+    u.unitsPerMeter.value = unitsPerMeter
+    return true
+  }
+
+  /** 0..1 weight of the current depth frame for `camera`: fades with age and with camera travel. */
+  function getStrength(camera: THREE.Camera) {
+    if (!enabled || !depth) return 0
+    const age = now() - depth.t
+    const moved = camera.position.distanceTo(depth.position) / Math.max(1e-6, depth.unitsPerMeter)
+    const byAge = 1 - THREE.MathUtils.smoothstep(age, o.staleMs, o.maxAgeMs)
+    const byMove = 1 - THREE.MathUtils.smoothstep(moved, o.staleMoveMeters, o.maxMoveMeters)
+    return byAge * byMove
+  }
+
+  function render(scene: THREE.Scene, camera: THREE.PerspectiveCamera) {
+    const strength = getStrength(camera)
+    if (strength <= 0 || !depth) {
+      renderer.render(scene, camera)
+      return
+    }
+    renderer.getDrawingBufferSize(size)
+    if (target.width !== size.x || target.height !== size.y) target.setSize(size.x, size.y)
+
+    renderer.setRenderTarget(target)
+    renderer.render(scene, camera)
+    renderer.setRenderTarget(null)
+
+    const u = material.uniforms
+    camera.updateMatrixWorld()
+    u.projectionInverse.value.copy(camera.projectionMatrixInverse)
+    u.cameraWorld.value.copy(camera.matrixWorld)
+    u.soft.value = o.softMeters * depth.unitsPerMeter
+    u.bias.value = o.biasMeters * depth.unitsPerMeter
+    u.strength.value = strength
+    renderer.render(quadScene, quadCamera)
+  }
+
+  function setEnabled(next: boolean) {
+    enabled = next
+  }
+
+  /** Forgets the occluder (depth turned off, session reset). */
+  function clear() {
+    depth?.texture.dispose()
+    depth = null
+    material.uniforms.tReal.value = null
+  }
+
+  function dispose() {
+    clear()
+    target.dispose()
+    material.dispose()
+    quad.geometry.dispose()
+  }
+
+  return { setDepth, render, setEnabled, getStrength, clear, dispose }
+}
+
+export type DepthOcclusion = ReturnType<typeof createDepthOcclusion>
@@ -28,6 +28,11 @@ export class PhysicsWorld {
     }
   }
 
+  /** Drops the fixed-step remainder so a replay starts from the same sub-step phase. */
+  resetClock() {
+    this.world.accumulator = 0
+  }
+
   addPlane(normal: THREE.Vector3, constant: number) {
     const plane = new CANNON.Plane()
     const body = new CANNON.Body({ mass: 0 })
@@ -43,6 +48,31 @@ export class PhysicsWorld {
     return body
   }
 
+  /**
+   * Static thin box for a bounded surface (a table top, a wall patch): unlike `addPlane` it ends at
+   * the surface's edges. Its +Z face lies on the surface.
+   */
+  addSlab(center: THREE.Vector3, normal: THREE.Vector3, size: number, thickness = 0.04) {
+    const body = new CANNON.Body({ mass: 0 })
+    body.addShape(new CANNON.Box(new CANNON.Vec3(0.5, 0.5, thickness / 2)))
+    this.world.addBody(body)
+    this.updateSlab(body, center, normal, size)
+    return body
+  }
+
+  /** Moves and resizes a body made by `addSlab`. */
+  updateSlab(body: CANNON.Body, center: THREE.Vector3, normal: THREE.Vector3, size: number) {
+    const box = body.shapes[0] as CANNON.Box
+    const half = box.halfExtents.z
+    box.halfExtents.set(size / 2, size / 2, half)
+    box.updateConvexPolyhedronRepresentation()
+    box.updateBoundingSphereRadius()
+    body.updateBoundingRadius()
+    body.quaternion.setFromVectors(new CANNON.Vec3(0, 0, 1), new CANNON.Vec3(normal.x, normal.y, normal.z))
+    body.position.set(center.x - normal.x * half, center.y - normal.y * half, center.z - normal.z * half)
+    body.aabbNeedsUpdate = true
+  }
+
   addBox(mesh: THREE.Mesh, size: THREE.Vector3, mass = 1) {
     const shape = new CANNON.Box(new CANNON.Vec3(size.x / 2, size.y / 2, size.z / 2))
     const body = new CANNON.Body({ mass })
@@ -1,12 +1,18 @@
 import * as THREE from 'three'
+import { applyIntrinsicsToCamera, type CameraIntrinsics } from '../mr/camera/intrinsics'
 
 export type SceneBundle = {
   renderer: THREE.WebGLRenderer
   scene: THREE.Scene
   camera: THREE.PerspectiveCamera
   raycaster: THREE.Raycaster
+  /** Matches the projection to the video shown behind the canvas; null restores the default FOV. */
+  setIntrinsics: (intrinsics: CameraIntrinsics | null) => void
 }
 
+// Vertical FOV until a frame source reports its intrinsics.
+const DEFAULT_FOV = 100
+
 export function createScene(canvas: HTMLCanvasElement): SceneBundle {
   const renderer = new THREE.WebGLRenderer({
     canvas,
@@ -18,7 +24,7 @@ export function createScene(canvas: HTMLCanvasElement): SceneBundle {
 
   const scene = new THREE.Scene()
 
-  const camera = new THREE.PerspectiveCamera(100, 1, 0.1, 1000)
+  const camera = new THREE.PerspectiveCamera(DEFAULT_FOV, 1, 0.1, 1000)
   camera.rotation.reorder('YXZ')
   camera.position.set(0, 1.2, 2.5)
 
@@ -28,11 +34,17 @@ export function createScene(canvas: HTMLCanvasElement): SceneBundle {
   scene.add(dir)
 
   const raycaster = new THREE.Raycaster()
+  let intrinsics: CameraIntrinsics | null = null
 
   function resize() {
     const w = canvas.clientWidth || window.innerWidth
     const h = canvas.clientHeight || window.innerHeight
     renderer.setSize(w, h, false)
+    if (intrinsics) {
+      applyIntrinsicsToCamera(camera, intrinsics, w, h)
+      return
+    }
+    camera.fov = DEFAULT_FOV
     camera.aspect = w / h
     camera.updateProjectionMatrix()
   }
@@ -40,7 +52,12 @@ export function createScene(canvas: HTMLCanvasElement): SceneBundle {
   resize()
   window.addEventListener('resize', resize)
 
-  return { renderer, scene, camera, raycaster }
+  function setIntrinsics(next: CameraIntrinsics | null) {
+    intrinsics = next
+    resize()
+  }
+
+  return { renderer, scene, camera, raycaster, setIntrinsics }
 }
 
 export function getPointerRay(
@@ -0,0 +1,85 @@
+import type { SensorEvent } from '../mr/sensors/sensors'
+
+export type SessionTick<TInput> = {
+  /** Frame-loop timestamp (ms) passed to `frame()`. */
+  t: number
+  /** Simulation step (s) used for tracking, physics and the active mode. */
+  dt: number
+  /** Index into `frames`, or -1 when the source had no frame for this tick. */
+  frame: number
+  /** Sensor events received since the previous tick, in arrival order. */
+  sensors: SensorEvent[]
+  /** App input received since the previous tick, in arrival order. */
+  input: TInput[]
+}
+
+export type SessionManifest<TInput, TMeta> = {
+  version: 1
+  createdAt: string
+  seed: number
+  frameSize: { width: number; height: number }
+  meta: TMeta
+  ticks: SessionTick<TInput>[]
+}
+
+export type SessionArchive<TInput, TMeta> = {
+  manifest: SessionManifest<TInput, TMeta>
+  /** Encoded (JPEG) frames referenced by `SessionTick.frame`. */
+  frames: Blob[]
+}
+
+// Layout: MAGIC | u32 manifest length | manifest JSON | (u32 frame length | frame bytes)*
+// Little-endian. Frames are stored as-is so decoding can slice the Blob without copying.
+const MAGIC = 'MRSESS01'
+export const SESSION_FILE_EXT = '.mrsession'
+
+function u32(value: number) {
+  const buf = new Uint8Array(4)
+  new DataView(buf.buffer).setUint32(0, value, true)
+  return buf
+}
+
+export function encodeSessionArchive<TInput, TMeta>(archive: SessionArchive<TInput, TMeta>): Blob {
+  const manifestBytes = new TextEncoder().encode(JSON.stringify(archive.manifest))
+  const parts: BlobPart[] = [MAGIC, u32(manifestBytes.length), manifestBytes]
+  for (const frame of archive.frames) {
+    parts.push(u32(frame.size), frame)
+  }
+  return new Blob(parts, { type: 'application/octet-stream' })
+}
+
+export async function decodeSessionArchive<TInput, TMeta>(blob: Blob): Promise<SessionArchive<TInput, TMeta>> {
+  const headerLen = MAGIC.length + 4
+  const header = new Uint8Array(await blob.slice(0, headerLen).arrayBuffer())
+  const magic = new TextDecoder().decode(header.subarray(0, MAGIC.length))
+  if (magic !== MAGIC) throw new Error('Not a session archive (bad magic)')
+  const manifestLen = new DataView(header.buffer).getUint32(MAGIC.length, true)
+
+  const manifestText = await blob.slice(headerLen, headerLen + manifestLen).text()
+  const manifest = JSON.parse(manifestText) as SessionManifest<TInput, TMeta>
+  if (manifest.version !== 1) throw new Error(`Unsupported session archive version ${manifest.version}`)
+
+  // Walk the frame table reading only the length prefixes; frame bytes stay in the Blob.
+  const frames: Blob[] = []
+  let offset = headerLen + manifestLen
+  while (offset + 4 <= blob.size) {
+    const prefix = await blob.slice(offset, offset + 4).arrayBuffer()
+    const len = new DataView(prefix).getUint32(0, true)
+    const start = offset + 4
+    if (start + len > blob.size) throw new Error('Session archive is truncated')
+    frames.push(blob.slice(start, start + len, 'image/jpeg'))
+    offset = start + len
+  }
+  return { manifest, frames }
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  document.body.appendChild(a)
+  a.click()
+  a.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
@@ -0,0 +1,38 @@
+// Time and randomness used by the simulation (tracking, physics-driven modes, mapping).
+// Live sessions use the real clock and Math.random; replay pins both so a recorded
+// session produces the same poses, score and physics state every time it is played.
+
+let nowOverride: (() => number) | null = null
+let seededRandom: (() => number) | null = null
+
+export function now() {
+  return nowOverride ? nowOverride() : performance.now()
+}
+
+export function random() {
+  return seededRandom ? seededRandom() : Math.random()
+}
+
+export function setClockOverride(fn: (() => number) | null) {
+  nowOverride = fn
+}
+
+function mulberry32(seed: number) {
+  let a = seed >>> 0
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/** Pass `null` to go back to Math.random. */
+export function seedRandom(seed: number | null) {
+  seededRandom = seed === null ? null : mulberry32(seed)
+}
+
+export function createSeed() {
+  return Math.floor(Math.random() * 0xffffffff) >>> 0
+}
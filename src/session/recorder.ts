@@ -0,0 +1,149 @@
+import type { FrameSource } from '../mr/frames/frame-source'
+import type { SensorEvent, SensorHub } from '../mr/sensors/sensors'
+import { encodeSessionArchive, type SessionManifest, type SessionTick } from './archive'
+import { seedRandom } from './clock'
+
+export type SessionRecorderOptions = {
+  /** Frames are stored downscaled to this width (tracking never reads more than 640px). */
+  maxFrameWidth: number
+  jpegQuality: number
+  /** Encoded frames are kept in memory; past this many bytes `isFull` turns true and the app stops. */
+  maxBytes: number
+}
+
+export type SessionRecorder<TInput, TMeta> = {
+  isRecording: () => boolean
+  getTickCount: () => number
+  /** Bytes of encoded frames so far. */
+  getByteSize: () => number
+  isFull: () => boolean
+  /** Seeds the simulation RNG with `seed`; replay seeds it the same way. */
+  start: (meta: TMeta, seed: number) => void
+  recordInput: (input: TInput) => void
+  /** Call once per simulation step, before the step runs, with the frame the step will consume. */
+  recordTick: (t: number, dt: number, source: FrameSource | null) => void
+  /** Finishes pending frame encodes and returns the archive. */
+  stop: () => Promise<Blob>
+}
+
+const DEFAULTS: SessionRecorderOptions = {
+  maxFrameWidth: 640,
+  jpegQuality: 0.8,
+  maxBytes: 256 * 1024 * 1024,
+}
+
+export function createSessionRecorder<TInput, TMeta>(params: {
+  sensors: SensorHub
+  options?: Partial<SessionRecorderOptions>
+}): SessionRecorder<TInput, TMeta> {
+  const { sensors } = params
+  const o: SessionRecorderOptions = { ...DEFAULTS, ...(params.options ?? {}) }
+
+  let recording = false
+  let manifest: SessionManifest<TInput, TMeta> | null = null
+  let frames: Array<Blob | null> = []
+  let pending: Promise<void>[] = []
+  let pendingSensors: SensorEvent[] = []
+  let pendingInput: TInput[] = []
+  let bytes = 0
+  // Ticks between two source frames (a 30 fps camera on a 60 Hz display) point at the same frame.
+  let lastFrame: { sourceT: number; index: number } | null = null
+  let unsubscribe: (() => void) | null = null
+
+  const canvas = document.createElement('canvas')
+  const ctx = canvas.getContext('2d')
+
+  function start(meta: TMeta, seed: number) {
+    seedRandom(seed)
+    manifest = {
+      version: 1,
+      createdAt: new Date().toISOString(),
+      seed,
+      frameSize: { width: 0, height: 0 },
+      meta,
+      ticks: [],
+    }
+    frames = []
+    pending = []
+    pendingSensors = []
+    pendingInput = []
+    bytes = 0
+    lastFrame = null
+    unsubscribe = sensors.subscribe((ev) => pendingSensors.push(ev))
+    recording = true
+  }
+
+  function captureFrame(source: FrameSource) {
+    if (!ctx || !manifest) return -1
+    const sourceT = source.getTimestamp()
+    if (lastFrame && lastFrame.sourceT === sourceT) return lastFrame.index
+    const size = source.getSize()
+    if (size.width <= 0 || size.height <= 0) return -1
+    const scale = Math.min(1, o.maxFrameWidth / size.width)
+    const w = Math.max(1, Math.round(size.width * scale))
+    const h = Math.max(1, Math.round(size.height * scale))
+    if (canvas.width !== w || canvas.height !== h) {
+      canvas.width = w
+      canvas.height = h
+    }
+    ctx.drawImage(source.element, 0, 0, w, h)
+    manifest.frameSize = { width: w, height: h }
+
+    const index = frames.length
+    frames.push(null)
+    pending.push(
+      new Promise<void>((resolve) => {
+        canvas.toBlob(
+          (blob) => {
+            frames[index] = blob
+            bytes += blob?.size ?? 0
+            resolve()
+          },
+          'image/jpeg',
+          o.jpegQuality,
+        )
+      }),
+    )
+    lastFrame = { sourceT, index }
+    return index
+  }
+
+  function recordTick(t: number, dt: number, source: FrameSource | null) {
+    if (!recording || !manifest) return
+    const frame = source?.isReady() ? captureFrame(source) : -1
+    const tick: SessionTick<TInput> = { t, dt, frame, sensors: pendingSensors, input: pendingInput }
+    manifest.ticks.push(tick)
+    pendingSensors = []
+    pendingInput = []
+  }
+
+  async function stop() {
+    recording = false
+    unsubscribe?.()
+    unsubscribe = null
+    seedRandom(null)
+    await Promise.all(pending)
+    if (!manifest) throw new Error('Recorder was not started')
+    const missing = frames.findIndex((f) => !f)
+    if (missing >= 0) throw new Error(`Frame ${missing} failed to encode`)
+    const blob = encodeSessionArchive({ manifest, frames: frames as Blob[] })
+    console.info(`[session] recorded ${manifest.ticks.length} ticks, ${frames.length} frames, ${blob.size} bytes`)
+    manifest = null
+    frames = []
+    pending = []
+    return blob
+  }
+
+  return {
+    isRecording: () => recording,
+    getTickCount: () => manifest?.ticks.length ?? 0,
+    getByteSize: () => bytes,
+    isFull: () => recording && bytes >= o.maxBytes,
+    start,
+    recordInput: (input) => {
+      if (recording) pendingInput.push(input)
+    },
+    recordTick,
+    stop,
+  }
+}
@@ -0,0 +1,133 @@
+import type { FrameSource, FrameSourceStartResult } from '../mr/frames/frame-source'
+import type { SensorHub } from '../mr/sensors/sensors'
+import type { SessionArchive, SessionManifest, SessionTick } from './archive'
+import { seedRandom, setClockOverride } from './clock'
+
+export type SessionReplay<TInput, TMeta> = {
+  manifest: SessionManifest<TInput, TMeta>
+  /** Frame source showing the recorded frames; hand it to the tracker like a live source. */
+  source: FrameSource
+  /** Pins the clock, RNG and sensors to the recording. */
+  begin: () => void
+  /** Restores the live clock, RNG and sensors. */
+  end: () => void
+  /**
+   * Returns the next tick once its frame is decoded and drawn, or null while waiting.
+   * Recorded sensor events are re-emitted (with the clock at their arrival time) before it returns.
+   */
+  takeTick: () => SessionTick<TInput> | null
+  isFinished: () => boolean
+  getProgress: () => { index: number; total: number }
+}
+
+export function createSessionReplay<TInput, TMeta>(params: {
+  archive: SessionArchive<TInput, TMeta>
+  canvas: HTMLCanvasElement
+  sensors: SensorHub
+}): SessionReplay<TInput, TMeta> {
+  const { archive, canvas, sensors } = params
+  const { manifest, frames } = archive
+  const ctxMaybe = canvas.getContext('2d')
+  if (!ctxMaybe) throw new Error('2D context unavailable for replay')
+  const ctx = ctxMaybe
+
+  let index = 0
+  let clockT = 0
+  let shownFrame = -1
+  let hasFrame = false
+  const decoded = new Map<number, ImageBitmap>()
+  const decoding = new Set<number>()
+
+  function prefetch(frame: number) {
+    if (frame < 0 || frame >= frames.length || decoded.has(frame) || decoding.has(frame)) return
+    decoding.add(frame)
+    createImageBitmap(frames[frame])
+      .then((bitmap) => decoded.set(frame, bitmap))
+      .catch((err) => console.warn(`[session] frame ${frame} decode failed`, err))
+      .finally(() => decoding.delete(frame))
+  }
+
+  function nextFrameAfter(tickIndex: number) {
+    for (let i = tickIndex; i < manifest.ticks.length; i++) {
+      const f = manifest.ticks[i].frame
+      if (f >= 0 && f !== shownFrame) return f
+    }
+    return -1
+  }
+
+  function show(frame: number) {
+    const bitmap = decoded.get(frame)
+    if (!bitmap) return false
+    if (canvas.width !== bitmap.width || canvas.height !== bitmap.height) {
+      canvas.width = bitmap.width
+      canvas.height = bitmap.height
+    }
+    ctx.drawImage(bitmap, 0, 0)
+    bitmap.close()
+    decoded.delete(frame)
+    shownFrame = frame
+    return true
+  }
+
+  function takeTick() {
+    const tick = manifest.ticks[index]
+    if (!tick) return null
+    if (tick.frame >= 0 && tick.frame !== shownFrame) {
+      if (!show(tick.frame)) {
+        prefetch(tick.frame)
+        return null
+      }
+    }
+    hasFrame = tick.frame >= 0
+    index += 1
+    prefetch(nextFrameAfter(index))
+
+    for (const ev of tick.sensors) {
+      clockT = ev.sample.t
+      sensors.emit(ev)
+    }
+    clockT = tick.t
+    return tick
+  }
+
+  function begin() {
+    index = 0
+    shownFrame = -1
+    hasFrame = false
+    clockT = manifest.ticks[0]?.t ?? 0
+    setClockOverride(() => clockT)
+    seedRandom(manifest.seed)
+    sensors.setLive(false)
+    prefetch(nextFrameAfter(0))
+  }
+
+  function end() {
+    setClockOverride(null)
+    seedRandom(null)
+    sensors.setLive(true)
+    for (const bitmap of decoded.values()) bitmap.close()
+    decoded.clear()
+  }
+
+  const source: FrameSource = {
+    kind: 'replay',
+    element: canvas,
+    start: async (): Promise<FrameSourceStartResult> => ({ ok: true }),
+    stop: () => {},
+    update: () => {},
+    isReady: () => hasFrame,
+    getSize: () => (shownFrame >= 0 ? { width: canvas.width, height: canvas.height } : manifest.frameSize),
+    getTimestamp: () => clockT,
+    whenReady: () => Promise.resolve(),
+  }
+
+  return {
+    manifest,
+    source,
+    begin,
+    end,
+    takeTick,
+    isFinished: () => index >= manifest.ticks.length,
+    getProgress: () => ({ index, total: manifest.ticks.length }),
+  }
+}
@@ -0,0 +1,130 @@
+// Minimal ZIP container (stored entries, no compression) for exports that should open in any
+// archive tool and come back into the app unchanged. Payloads are already compressed (PNG, JPEG,
+// GLB) or small, so deflate would buy little.
+
+export type ZipEntry = { name: string; data: Blob }
+
+const LOCAL_SIG = 0x04034b50
+const CENTRAL_SIG = 0x02014b50
+const END_SIG = 0x06054b50
+/** General-purpose flag bit 11: names are UTF-8. */
+const UTF8_FLAG = 0x0800
+
+let crcTable: Uint32Array | null = null
+
+export function crc32(bytes: Uint8Array, crc = 0) {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable[n] = c >>> 0
+    }
+  }
+  let c = ~crc >>> 0
+  for (let i = 0; i < bytes.length; i++) c = crcTable[(c ^ bytes[i]) & 0xff] ^ (c >>> 8)
+  return ~c >>> 0
+}
+
+function dosDateTime(date: Date) {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2)
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  return { time, day }
+}
+
+export async function encodeZip(entries: ZipEntry[], date = new Date()): Promise<Blob> {
+  const { time, day } = dosDateTime(date)
+  const parts: BlobPart[] = []
+  const central: Uint8Array<ArrayBuffer>[] = []
+  let offset = 0
+  for (const entry of entries) {
+    const name = new TextEncoder().encode(entry.name)
+    const bytes = new Uint8Array(await entry.data.arrayBuffer())
+    const crc = crc32(bytes)
+
+    const local = new Uint8Array(30 + name.length)
+    const lv = new DataView(local.buffer)
+    lv.setUint32(0, LOCAL_SIG, true)
+    lv.setUint16(4, 20, true)
+    lv.setUint16(6, UTF8_FLAG, true)
+    lv.setUint16(8, 0, true)
+    lv.setUint16(10, time, true)
+    lv.setUint16(12, day, true)
+    lv.setUint32(14, crc, true)
+    lv.setUint32(18, bytes.length, true)
+    lv.setUint32(22, bytes.length, true)
+    lv.setUint16(26, name.length, true)
+    local.set(name, 30)
+    parts.push(local, bytes)
+
+    const record = new Uint8Array(46 + name.length)
+    const cv = new DataView(record.buffer)
+    cv.setUint32(0, CENTRAL_SIG, true)
+    cv.setUint16(4, 20, true)
+    cv.setUint16(6, 20, true)
+    cv.setUint16(8, UTF8_FLAG, true)
+    cv.setUint16(10, 0, true)
+    cv.setUint16(12, time, true)
+    cv.setUint16(14, day, true)
+    cv.setUint32(16, crc, true)
+    cv.setUint32(20, bytes.length, true)
+    cv.setUint32(24, bytes.length, true)
+    cv.setUint16(28, name.length, true)
+    cv.setUint32(42, offset, true)
+    record.set(name, 46)
+    central.push(record)
+    offset += local.length + bytes.length
+  }
+
+  const centralSize = central.reduce((n, r) => n + r.length, 0)
+  const end = new Uint8Array(22)
+  const ev = new DataView(end.buffer)
+  ev.setUint32(0, END_SIG, true)
+  ev.setUint16(8, entries.length, true)
+  ev.setUint16(10, entries.length, true)
+  ev.setUint32(12, centralSize, true)
+  ev.setUint32(16, offset, true)
+  return new Blob([...parts, ...central, end], { type: 'application/zip' })
+}
+
+/** Reads stored entries (what `encodeZip` writes); compressed entries are rejected. */
+export async function decodeZip(blob: Blob): Promise<Map<string, Blob>> {
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64 KiB.
+  const tailStart = Math.max(0, blob.size - 22 - 0xffff)
+  const tail = new Uint8Array(await blob.slice(tailStart).arrayBuffer())
+  const tv = new DataView(tail.buffer)
+  let endAt = -1
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tv.getUint32(i, true) === END_SIG) {
+      endAt = i
+      break
+    }
+  }
+  if (endAt < 0) throw new Error('Not a ZIP file')
+  const count = tv.getUint16(endAt + 10, true)
+  const centralSize = tv.getUint32(endAt + 12, true)
+  const centralOffset = tv.getUint32(endAt + 16, true)
+
+  const central = new Uint8Array(await blob.slice(centralOffset, centralOffset + centralSize).arrayBuffer())
+  const cv = new DataView(central.buffer)
+  const files = new Map<string, Blob>()
+  let p = 0
+  for (let n = 0; n < count; n++) {
+    if (cv.getUint32(p, true) !== CENTRAL_SIG) throw new Error('ZIP central directory is corrupt')
+    const method = cv.getUint16(p + 10, true)
+    const size = cv.getUint32(p + 20, true)
+    const nameLen = cv.getUint16(p + 28, true)
+    const extraLen = cv.getUint16(p + 30, true)
+    const commentLen = cv.getUint16(p + 32, true)
+    const localOffset = cv.getUint32(p + 42, true)
+    const name = new TextDecoder().decode(central.subarray(p + 46, p + 46 + nameLen))
+    p += 46 + nameLen + extraLen + commentLen
+    if (method !== 0) throw new Error(`ZIP entry ${name} is compressed; only stored entries are supported`)
+
+    const local = new DataView(await blob.slice(localOffset, localOffset + 30).arrayBuffer())
+    if (local.getUint32(0, true) !== LOCAL_SIG) throw new Error(`ZIP entry ${name} is corrupt`)
+    const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true)
+    files.set(name, blob.slice(dataStart, dataStart + size))
+  }
+  return files
+}
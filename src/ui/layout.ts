@@ -1,16 +1,29 @@
 export type AppElements = {
   root: HTMLElement
   video: HTMLVideoElement
+  frameCanvas: HTMLCanvasElement
   renderCanvas: HTMLCanvasElement
   overlayCanvas: HTMLCanvasElement
   btnStart: HTMLButtonElement
   btnStop: HTMLButtonElement
   btnToggleUi: HTMLButtonElement
   btnResetWorld: HTMLButtonElement
+  btnNewMap: HTMLButtonElement
   btnModeRunner: HTMLButtonElement
   btnModeAngry: HTMLButtonElement
   btnModeTreasure: HTMLButtonElement
+  btnModeSnapshot: HTMLButtonElement
+  snapshotControls: HTMLDivElement
+  btnSnapTake: HTMLButtonElement
+  btnSnapPhoto: HTMLButtonElement
+  fileSnapPhoto: HTMLInputElement
+  rngSnapRelief: HTMLInputElement
+  selSnapDetail: HTMLSelectElement
+  chkSnapInvert: HTMLInputElement
+  selSnapDrop: HTMLSelectElement
+  btnSnapClear: HTMLButtonElement
   status: HTMLDivElement
+  trackingTimeline: HTMLCanvasElement
   toast: HTMLDivElement
   scoreHud: HTMLDivElement
   powerHud: HTMLDivElement
@@ -20,14 +33,38 @@ export type AppElements = {
   btnJumpGame: HTMLButtonElement
   scaleRange: HTMLInputElement
   btnCalibrate: HTMLButtonElement
+  chkScaleLock: HTMLInputElement
+  btnCameraCalibration: HTMLButtonElement
+  chkMarkers: HTMLInputElement
+  numMarkerSize: HTMLInputElement
+  chkMarkerOrigin: HTMLInputElement
   chkRunDepth: HTMLInputElement
+  chkOcclusion: HTMLInputElement
+  chkRoomMesh: HTMLInputElement
+  selDepthView: HTMLSelectElement
+  selDepthColormap: HTMLSelectElement
+  chkDepthProbe: HTMLInputElement
+  depthDebugHud: HTMLDivElement
+  depthHistogram: HTMLCanvasElement
+  depthDebugText: HTMLDivElement
+  selDepthModel: HTMLSelectElement
   chkSlamPoints: HTMLInputElement
+  selSource: HTMLSelectElement
+  selTracking: HTMLSelectElement
+  fileSource: HTMLInputElement
+  btnRecord: HTMLButtonElement
+  btnReplay: HTMLButtonElement
+  fileReplay: HTMLInputElement
+  btnCapture: HTMLButtonElement
+  btnOpenCapture: HTMLButtonElement
+  fileCapture: HTMLInputElement
 }
 
 export function renderApp(root: HTMLElement): AppElements {
   root.innerHTML = `
     <main class="root">
       <video id="camera" class="camera" autoplay muted playsinline></video>
+      <canvas id="frameView" class="camera" hidden></canvas>
       <canvas id="render" class="render" aria-label="MR canvas"></canvas>
       <canvas id="overlay" class="overlay" aria-label="UI overlay"></canvas>
 
@@ -41,6 +78,10 @@ export function renderApp(root: HTMLElement): AppElements {
         <div class="powerLabel">Power</div>
         <div class="powerValue">0</div>
       </div>
+      <div id="depthDebugHud" class="depthDebugHud" aria-hidden="true">
+        <canvas id="depthHistogram" class="depthHistogram" width="192" height="48"></canvas>
+        <div id="depthDebugText" class="depthDebugText"></div>
+      </div>
 
       <section id="gameControls" class="gameControls" aria-label="Game controls">
         <div class="joyWrap">
@@ -57,12 +98,75 @@ export function renderApp(root: HTMLElement): AppElements {
           <button id="btnStart" class="btnPrimary">Start</button>
           <button id="btnStop" class="btn">Stop</button>
           <button id="btnResetWorld" class="btn">Reset World</button>
+          <button id="btnNewMap" class="btn">New Map</button>
+        </div>
+
+        <div class="hudRow">
+          <label class="pill">
+            <span>Source</span>
+            <select id="selSource">
+              <option value="camera">Camera</option>
+              <option value="video">Video file</option>
+              <option value="images">Image folder</option>
+            </select>
+          </label>
+          <input id="fileSource" type="file" hidden />
+          <label class="pill">
+            <span>Tracking</span>
+            <select id="selTracking">
+              <option value="auto">Auto</option>
+              <option value="alva">AlvaAR</option>
+              <option value="webxr">WebXR</option>
+              <option value="sensor">Sensors</option>
+              <option value="simulated">Simulated</option>
+            </select>
+          </label>
+        </div>
+
+        <div class="hudRow">
+          <button id="btnRecord" class="btn">Record</button>
+          <button id="btnReplay" class="btn">Replay…</button>
+          <input id="fileReplay" type="file" accept=".mrsession" hidden />
+          <button id="btnCapture" class="btn">Capture</button>
+          <button id="btnOpenCapture" class="btn">Open capture…</button>
+          <input id="fileCapture" type="file" accept=".zip" hidden />
         </div>
 
         <div class="hudRow">
           <button id="btnModeRunner" class="btnPrimary">Runner</button>
           <button id="btnModeAngry" class="btn">Angry</button>
           <button id="btnModeTreasure" class="btn">Treasure</button>
+          <button id="btnModeSnapshot" class="btn">Snapshot</button>
+        </div>
+
+        <div class="hudRow" id="snapshotControls">
+          <button id="btnSnapTake" class="btnPrimary">Take</button>
+          <button id="btnSnapPhoto" class="btn">Photo…</button>
+          <input id="fileSnapPhoto" type="file" accept="image/*" hidden />
+          <label class="pill">
+            <span>Relief</span>
+            <input id="rngSnapRelief" type="range" min="0.2" max="4" step="0.1" value="1.8" />
+          </label>
+          <label class="pill">
+            <span>Detail</span>
+            <select id="selSnapDetail">
+              <option value="1">Fine</option>
+              <option value="2" selected>Normal</option>
+              <option value="4">Coarse</option>
+            </select>
+          </label>
+          <label class="pill">
+            <input id="chkSnapInvert" type="checkbox" checked />
+            <span>Invert</span>
+          </label>
+          <label class="pill">
+            <span>Drop</span>
+            <select id="selSnapDrop">
+              <option value="treasure">Treasure</option>
+              <option value="dog">Dog</option>
+            </select>
+          </label>
+          <button id="btnSnapClear" class="btn">Clear</button>
         </div>
 
         <div class="hudRow">
@@ -70,6 +174,39 @@ export function renderApp(root: HTMLElement): AppElements {
             <input id="chkRunDepth" type="checkbox" />
             <span>Run depth</span>
           </label>
+          <label class="pill">
+            <span>Model</span>
+            <select id="selDepthModel"></select>
+          </label>
+          <label class="pill">
+            <input id="chkOcclusion" type="checkbox" checked />
+            <span>Occlusion</span>
+          </label>
+          <label class="pill">
+            <input id="chkRoomMesh" type="checkbox" />
+            <span>Room mesh</span>
+          </label>
+          <label class="pill">
+            <span>Depth view</span>
+            <select id="selDepthView">
+              <option value="off" selected>Off</option>
+              <option value="depth">Depth</option>
+              <option value="normals">Normals</option>
+              <option value="classes">Surfaces</option>
+            </select>
+          </label>
+          <label class="pill">
+            <span>Colors</span>
+            <select id="selDepthColormap">
+              <option value="turbo" selected>Turbo</option>
+              <option value="viridis">Viridis</option>
+              <option value="grayscale">Grayscale</option>
+            </select>
+          </label>
+          <label class="pill">
+            <input id="chkDepthProbe" type="checkbox" />
+            <span>Probe</span>
+          </label>
           <label class="pill">
             <input id="chkSlamPoints" type="checkbox" />
             <span>SLAM points</span>
@@ -81,10 +218,31 @@ export function renderApp(root: HTMLElement): AppElements {
             <span>Scale</span>
             <input id="rngScale" type="range" min="0.25" max="2.5" step="0.05" value="1.0" />
           </label>
+          <label class="pill">
+            <input id="chkScaleLock" type="checkbox" />
+            <span>Lock scale</span>
+          </label>
           <button id="btnCalibrate" class="btn">Calibrate</button>
+          <button id="btnCameraCalibration" class="btn">Camera</button>
+        </div>
+
+        <div class="hudRow">
+          <label class="pill">
+            <input id="chkMarkers" type="checkbox" checked />
+            <span>Markers</span>
+          </label>
+          <label class="pill">
+            <span>Size cm</span>
+            <input id="numMarkerSize" type="number" min="1" max="100" step="0.5" value="10" />
+          </label>
+          <label class="pill">
+            <input id="chkMarkerOrigin" type="checkbox" />
+            <span>Marker origin</span>
+          </label>
         </div>
 
         <div class="hudRow hudNote" id="status">Ready</div>
+        <canvas id="trackingTimeline" class="timelineStrip" width="480" height="12"></canvas>
       </section>
     </main>
   `
@@ -98,16 +256,29 @@ export function renderApp(root: HTMLElement): AppElements {
   return {
     root,
     video: q<HTMLVideoElement>('#camera'),
+    frameCanvas: q<HTMLCanvasElement>('#frameView'),
     renderCanvas: q<HTMLCanvasElement>('#render'),
     overlayCanvas: q<HTMLCanvasElement>('#overlay'),
     btnStart: q<HTMLButtonElement>('#btnStart'),
     btnStop: q<HTMLButtonElement>('#btnStop'),
     btnToggleUi: q<HTMLButtonElement>('#btnToggleUi'),
     btnResetWorld: q<HTMLButtonElement>('#btnResetWorld'),
+    btnNewMap: q<HTMLButtonElement>('#btnNewMap'),
     btnModeRunner: q<HTMLButtonElement>('#btnModeRunner'),
     btnModeAngry: q<HTMLButtonElement>('#btnModeAngry'),
     btnModeTreasure: q<HTMLButtonElement>('#btnModeTreasure'),
+    btnModeSnapshot: q<HTMLButtonElement>('#btnModeSnapshot'),
+    snapshotControls: q<HTMLDivElement>('#snapshotControls'),
+    btnSnapTake: q<HTMLButtonElement>('#btnSnapTake'),
+    btnSnapPhoto: q<HTMLButtonElement>('#btnSnapPhoto'),
+    fileSnapPhoto: q<HTMLInputElement>('#fileSnapPhoto'),
+    rngSnapRelief: q<HTMLInputElement>('#rngSnapRelief'),
+    selSnapDetail: q<HTMLSelectElement>('#selSnapDetail'),
+    chkSnapInvert: q<HTMLInputElement>('#chkSnapInvert'),
+    selSnapDrop: q<HTMLSelectElement>('#selSnapDrop'),
+    btnSnapClear: q<HTMLButtonElement>('#btnSnapClear'),
     status: q<HTMLDivElement>('#status'),
+    trackingTimeline: q<HTMLCanvasElement>('#trackingTimeline'),
     toast: q<HTMLDivElement>('#toast'),
     scoreHud: q<HTMLDivElement>('#scoreHud'),
     powerHud: q<HTMLDivElement>('#powerHud'),
@@ -117,7 +288,30 @@ export function renderApp(root: HTMLElement): AppElements {
     btnJumpGame: q<HTMLButtonElement>('#btnJumpGame'),
     scaleRange: q<HTMLInputElement>('#rngScale'),
     btnCalibrate: q<HTMLButtonElement>('#btnCalibrate'),
+    chkScaleLock: q<HTMLInputElement>('#chkScaleLock'),
+    btnCameraCalibration: q<HTMLButtonElement>('#btnCameraCalibration'),
+    chkMarkers: q<HTMLInputElement>('#chkMarkers'),
+    numMarkerSize: q<HTMLInputElement>('#numMarkerSize'),
+    chkMarkerOrigin: q<HTMLInputElement>('#chkMarkerOrigin'),
     chkRunDepth: q<HTMLInputElement>('#chkRunDepth'),
+    chkOcclusion: q<HTMLInputElement>('#chkOcclusion'),
+    chkRoomMesh: q<HTMLInputElement>('#chkRoomMesh'),
+    selDepthView: q<HTMLSelectElement>('#selDepthView'),
+    selDepthColormap: q<HTMLSelectElement>('#selDepthColormap'),
+    chkDepthProbe: q<HTMLInputElement>('#chkDepthProbe'),
+    depthDebugHud: q<HTMLDivElement>('#depthDebugHud'),
+    depthHistogram: q<HTMLCanvasElement>('#depthHistogram'),
+    depthDebugText: q<HTMLDivElement>('#depthDebugText'),
+    selDepthModel: q<HTMLSelectElement>('#selDepthModel'),
     chkSlamPoints: q<HTMLInputElement>('#chkSlamPoints'),
+    selSource: q<HTMLSelectElement>('#selSource'),
+    selTracking: q<HTMLSelectElement>('#selTracking'),
+    fileSource: q<HTMLInputElement>('#fileSource'),
+    btnRecord: q<HTMLButtonElement>('#btnRecord'),
+    btnReplay: q<HTMLButtonElement>('#btnReplay'),
+    fileReplay: q<HTMLInputElement>('#fileReplay'),
+    btnCapture: q<HTMLButtonElement>('#btnCapture'),
+    btnOpenCapture: q<HTMLButtonElement>('#btnOpenCapture'),
+    fileCapture: q<HTMLInputElement>('#fileCapture'),
   }
 }
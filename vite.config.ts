@@ -5,6 +5,10 @@ import basicSsl from '@vitejs/plugin-basic-ssl'
 export default defineConfig({
   base: './',
   plugins: [basicSsl()],
+  // The AlvaAR worker dynamically imports public/vendor/alva_ar.js, which needs an ES module worker.
+  worker: {
+    format: 'es',
+  },
   server: {
     https: true,
     host: true, // listen on 0.0.0.0